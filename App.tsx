@@ -1,31 +1,94 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Atmosphere } from './components/Atmosphere';
 import Typewriter from './components/Typewriter';
 import { SettingsModal } from './components/SettingsModal';
+import { SaveSlotsModal } from './components/SaveSlotsModal';
+import { StoryTreeView } from './components/StoryTreeView';
+import { StorybookViewer } from './components/StorybookViewer';
+import { SeancePanel } from './components/SeancePanel';
+import { SeanceView } from './components/SeanceView';
+import { SeanceJoinModal } from './components/SeanceJoinModal';
 import { GameService } from './services/gameService';
+import { errorKindOf, resolveProvider, loadReplaySession, OFFLINE_PROVIDER_ID } from './services/providers';
+import { parseSessionFile } from './services/sessionRecorder';
+import { buildStorybook, parseStorybook, renderStorybookHtml, renderStorybookZip, storybookFileName } from './services/storybook';
+import { SeanceConnection, SeanceHost, normalizeRoomCode } from './services/seanceClient';
 import { audioManager } from './services/audioService';
-import { GameState, StoryResponse, ChatHistoryItem, GameSettings } from './types';
+import { saveService } from './services/saveService';
+import { addStoryNode, createStoryTree, getChildren, getHistoryForNode, getPath, setNodeImageKey } from './services/storyTree';
+import { INITIAL_STATS, applyStatRules } from './services/statRules';
+import { StatsDisplay } from './components/StatsDisplay';
+import { InventoryPanel } from './components/InventoryPanel';
+import { FreeTextInput } from './components/FreeTextInput';
+import { ScenarioPicker } from './components/ScenarioPicker';
+import { DEFAULT_SCENARIO_ID, getScenario, getStartingInventory, listScenarios, localizeScenario } from './services/scenarioService';
+import { getStrings, errorMessage, needsSettings } from './services/i18n';
+import { getPrompts } from './services/prompts';
+import { applyInventoryUpdates } from './services/inventory';
+import { GameState, StoryResponse, ChatHistoryItem, GameSettings, SaveSnapshot, SaveSlotMeta, StoryTree, PlayerStats, InventoryItem, Storybook, SeanceState, SeanceStatus } from './types';
 
-// Default scary background
+// Fallback background for packs without a cover
 const DEFAULT_BG = "https://images.unsplash.com/photo-1509248961158-e54f6934749c?q=80&w=2037&auto=format&fit=crop";
 
+const INITIAL_GAME_STATE: GameState = {
+  scenarioId: DEFAULT_SCENARIO_ID,
+  history: [],
+  inventory: [], // Inventory System
+  stats: INITIAL_STATS,
+  currentImage: DEFAULT_BG,
+  imageLoading: false,
+  isGameOver: false,
+  gameStarted: false,
+  loadingText: false,
+  error: null,
+  errorKind: null,
+  storyTree: createStoryTree(),
+  currentNodeId: null
+};
+
+// Hands a generated file to the browser as a download
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Where a response attaches in the story tree
+interface TurnContext {
+  tree: StoryTree;
+  parentId: string | null;
+  choice: string | null;
+  freeText?: boolean;
+  inventory: InventoryItem[]; // Inventory before this turn's updates
+  stats: PlayerStats;  // Stats before this turn's updates
+}
+
 const App: React.FC = () => {
   // Game State
-  const [gameState, setGameState] = useState<GameState>({
-    history: [],
-    inventory: [], // Inventory System
-    currentImage: DEFAULT_BG,
-    imageLoading: false,
-    isGameOver: false,
-    gameStarted: false,
-    loadingText: false,
-    error: null
-  });
+  const [gameState, setGameState] = useState<GameState>(INITIAL_GAME_STATE);
 
   const [currentResponse, setCurrentResponse] = useState<StoryResponse | null>(null);
+  const [streamingNarrative, setStreamingNarrative] = useState<string | null>(null); // Partial narrative while the model is still writing
   const [flashTrigger, setFlashTrigger] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [saveMode, setSaveMode] = useState<'save' | 'load' | null>(null);
+  const [showTree, setShowTree] = useState(false);
+  const [latestSave, setLatestSave] = useState<SaveSlotMeta | null>(() => saveService.getLatestSlot());
+  const [storybook, setStorybook] = useState<Storybook | null>(null); // Opened for reading on the title screen
+  const [storybookStatus, setStorybookStatus] = useState<string | null>(null);
+
+  // Séance: this browser either hosts a room (and keeps playing) or sits in someone else's
+  const [seanceHost, setSeanceHost] = useState<SeanceHost | null>(null);
+  const [seanceGuest, setSeanceGuest] = useState<SeanceConnection | null>(null);
+  const [seanceState, setSeanceState] = useState<SeanceState | null>(null);
+  const [seanceStatus, setSeanceStatus] = useState<SeanceStatus>('connecting');
+  const [seanceError, setSeanceError] = useState<string | null>(null);
+  const [invitedCode] = useState(() => new URLSearchParams(window.location.search).get('seance') || ''); // ?seance=CODE links
+  const [showJoin, setShowJoin] = useState(() => invitedCode !== '');
   
   // Settings State - Default to gemini-2.5-flash, but try to load from storage
   const [settings, setSettings] = useState<GameSettings>({
@@ -34,14 +97,23 @@ const App: React.FC = () => {
     imageModel: 'gemini-2.5-flash-image',
     apiKey: '',
     baseUrl: '',
-    useSharedCache: true // Default Enabled
+    useSharedCache: true, // Default Enabled
+    shareCacheAcrossModels: false,
+    contextTokenBudget: 6000,
+    contextRecentTurns: 6,
+    allowFreeText: false,
+    language: 'zh',
+    prefetchMode: 'auto',
+    recordSession: false
   });
+  const t = getStrings(settings.language);
 
   // Load settings on mount
   useEffect(() => {
     const savedSettings = GameService.loadSettingsFromStorage();
     if (savedSettings) {
-        setSettings(savedSettings);
+        // Merge so settings saved by older versions pick up defaults for new fields
+        setSettings(prev => ({ ...prev, ...savedSettings }));
     }
   }, []);
 
@@ -54,6 +126,265 @@ const App: React.FC = () => {
   }, [settings, gameService]);
 
   const [hasInteracted, setHasInteracted] = useState(false);
+  const lastChoiceRef = useRef<{ choice: string; freeText: boolean } | null>(null); // Re-sent when the player retries after a fallback
+  const sceneImageRequestRef = useRef(0); // Bumped per scene shown, so a slower cache read for an earlier one is dropped
+
+  // --- Save Slots ---
+
+  const buildSnapshot = (): SaveSnapshot => ({
+    scenarioId: gameState.scenarioId,
+    history: gameState.history,
+    inventory: gameState.inventory,
+    stats: gameState.stats,
+    currentImage: gameState.currentImage,
+    isGameOver: gameState.isGameOver,
+    currentResponse,
+    storyTree: gameState.storyTree,
+    currentNodeId: gameState.currentNodeId
+  });
+
+  // Autosave once a turn has fully settled (text processed and scene image resolved)
+  useEffect(() => {
+    if (!gameState.gameStarted || gameState.loadingText || gameState.imageLoading || !currentResponse || currentResponse.isFallback) return;
+    saveService.autosave(buildSnapshot(), t.autosaveName);
+  }, [currentResponse, gameState.history, gameState.inventory, gameState.stats, gameState.currentImage, gameState.imageLoading, gameState.loadingText, gameState.storyTree]);
+
+  const saveToSlot = async (id: string | null, name: string): Promise<boolean> => {
+    if (id) return saveService.save(id, name, buildSnapshot());
+    return (await saveService.createSlot(name, buildSnapshot())) !== null;
+  };
+
+  const loadGame = useCallback((id: string) => {
+    const save = saveService.load(id);
+    if (!save) {
+      setLatestSave(saveService.getLatestSlot());
+      return;
+    }
+    if (!hasInteracted) {
+      audioManager.init();
+      setHasInteracted(true);
+    }
+
+    const { snapshot } = save;
+    const scenario = getScenario(snapshot.scenarioId);
+    gameService.setScenario(scenario);
+    gameService.beginSession();
+    setSaveMode(null);
+    if (snapshot.currentResponse) audioManager.setMood(snapshot.currentResponse.mood);
+    setCurrentResponse(snapshot.currentResponse);
+    setGameState({
+      ...INITIAL_GAME_STATE,
+      scenarioId: scenario.id,
+      history: snapshot.history,
+      inventory: snapshot.inventory,
+      stats: snapshot.stats,
+      currentImage: snapshot.currentImage || scenario.cover || DEFAULT_BG,
+      isGameOver: snapshot.isGameOver,
+      gameStarted: true,
+      storyTree: snapshot.storyTree,
+      currentNodeId: snapshot.currentNodeId
+    });
+
+    // Generated scenes are not stored in the save, pull them back from the image cache
+    const node = snapshot.currentNodeId ? snapshot.storyTree.nodes[snapshot.currentNodeId] : null;
+    if (!snapshot.currentImage && node) {
+      restoreSceneImage(node.imageKey, scenario.cover || DEFAULT_BG);
+    }
+  }, [gameService, hasInteracted]);
+
+  // Show a past scene's image from the cache only; if it was evicted or never finished, the
+  // placeholder stays rather than generating a scene the player has already seen
+  const restoreSceneImage = (imageKey: string | null, placeholder: string) => {
+    const request = ++sceneImageRequestRef.current;
+    if (!imageKey) {
+      setGameState(prev => ({ ...prev, currentImage: placeholder, imageLoading: false }));
+      return;
+    }
+    setGameState(prev => ({ ...prev, imageLoading: true }));
+    gameService.getCachedImage(imageKey)
+      .then(imageUrl => {
+        if (request !== sceneImageRequestRef.current) return;
+        setGameState(prev => ({ ...prev, currentImage: imageUrl || placeholder, imageLoading: false }));
+      })
+      .catch(() => {
+        if (request !== sceneImageRequestRef.current) return;
+        setGameState(prev => ({ ...prev, currentImage: placeholder, imageLoading: false }));
+      });
+  };
+
+  // --- Rewind ---
+
+  const jumpToNode = (nodeId: string) => {
+    const node = gameState.storyTree.nodes[nodeId];
+    if (!node || gameState.loadingText) return;
+
+    setShowTree(false);
+    lastChoiceRef.current = null;
+    gameService.cancelPrefetch();
+    audioManager.setMood(node.response.mood);
+    setCurrentResponse({ ...node.response, flashReveal: false });
+    setGameState(prev => ({
+      ...prev,
+      history: getHistoryForNode(prev.storyTree, nodeId),
+      inventory: node.inventory,
+      stats: node.stats,
+      isGameOver: node.response.isGameOver,
+      currentNodeId: nodeId,
+      error: null
+    }));
+    restoreSceneImage(node.imageKey, getScenario(gameState.scenarioId).cover || DEFAULT_BG);
+  };
+
+  const returnToTitle = () => {
+    gameService.cancelPrefetch();
+    setStorybookStatus(null);
+    audioManager.setMood('eerie');
+    setCurrentResponse(null);
+    setStreamingNarrative(null);
+    setGameState(prev => ({ ...INITIAL_GAME_STATE, scenarioId: prev.scenarioId })); // Keep the picked pack
+    setLatestSave(saveService.getLatestSlot());
+  };
+
+  // --- Session Recording ---
+
+  const exportSession = (): boolean => {
+    const session = gameService.exportSession();
+    if (!session) return false;
+    downloadBlob(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }), `nether-session-${session.recordedAt}.json`);
+    return true;
+  };
+
+  // Replay needs the same prompts and context folding as the recording run, so those settings come along
+  const importSession = async (file: File): Promise<number | null> => {
+    try {
+      const session = parseSessionFile(await file.text());
+      loadReplaySession(session);
+      const recorded = session.settings;
+      setSettings(prev => ({
+        ...prev,
+        provider: 'replay',
+        language: recorded.language || prev.language,
+        contextTokenBudget: recorded.contextTokenBudget || prev.contextTokenBudget,
+        contextRecentTurns: recorded.contextRecentTurns || prev.contextRecentTurns,
+        allowFreeText: recorded.allowFreeText ?? prev.allowFreeText,
+        recordSession: false
+      }));
+      if (session.scenarioId && !gameState.gameStarted) {
+        setGameState(prev => ({ ...prev, scenarioId: session.scenarioId }));
+      }
+      return session.entries.length;
+    } catch (e) {
+      console.warn("[App] Failed to load session recording", e);
+      return null;
+    }
+  };
+
+  // --- Storybook ---
+
+  // Images come from the cache only: scenes whose image was never generated stay text
+  const exportStorybook = async (kind: 'html' | 'zip') => {
+    setStorybookStatus(t.storybookExporting);
+    try {
+      const scenario = localizeScenario(getScenario(gameState.scenarioId), settings.language);
+      const book = await buildStorybook(
+        getPath(gameState.storyTree, gameState.currentNodeId),
+        { title: scenario.title, scenarioId: scenario.id, language: settings.language },
+        node => node.imageKey ? gameService.getCachedImage(node.imageKey) : Promise.resolve(null)
+      );
+      if (kind === 'html') {
+        downloadBlob(new Blob([renderStorybookHtml(book)], { type: 'text/html' }), storybookFileName(book, 'html'));
+      } else {
+        downloadBlob(await renderStorybookZip(book), storybookFileName(book, 'zip'));
+      }
+      setStorybookStatus(null);
+    } catch (e) {
+      console.error("[App] Storybook export failed", e);
+      setStorybookStatus(t.storybookExportFailed);
+    }
+  };
+
+  const openStorybook = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setStorybook(await parseStorybook(file));
+      setStorybookStatus(null);
+    } catch (err) {
+      console.warn("[App] Failed to open storybook", err);
+      setStorybookStatus(t.storybookOpenFailed);
+    }
+  };
+
+  const closeStorybook = useCallback(() => setStorybook(null), []);
+
+  // --- Séance ---
+
+  const openSeance = async () => {
+    setSeanceError(null);
+    try {
+      setSeanceState(null);
+      setSeanceStatus('connecting');
+      setSeanceHost(await SeanceHost.open({ onState: setSeanceState, onStatus: setSeanceStatus }));
+    } catch (e) {
+      console.warn("[App] Failed to open a séance room", e);
+      setSeanceError(t.seanceOpenFailed);
+    }
+  };
+
+  const endSeance = () => {
+    seanceHost?.end();
+    setSeanceHost(null);
+    setSeanceState(null);
+  };
+
+  const joinSeance = (code: string, name: string, spectate: boolean) => {
+    if (seanceHost) endSeance();
+    const connection = new SeanceConnection(normalizeRoomCode(code), spectate ? 'spectator' : 'player', name.trim(), {
+      onState: setSeanceState,
+      onStatus: setSeanceStatus
+    });
+    setSeanceState(null);
+    setSeanceStatus('connecting');
+    setSeanceError(null);
+    setShowJoin(false);
+    setSeanceGuest(connection);
+    connection.connect();
+  };
+
+  const leaveSeance = () => {
+    seanceGuest?.close();
+    setSeanceGuest(null);
+    setSeanceState(null);
+    if (invitedCode) window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  const voteSeance = (choice: number | null) => {
+    seanceGuest?.vote(choice).catch(e => console.warn("[App] Vote not counted", e));
+  };
+
+  // Turned away before ever seeing the room: wrong code or a full table
+  useEffect(() => {
+    if (seanceGuest && seanceStatus === 'closed' && !seanceGuest.state) {
+      setSeanceGuest(null);
+      setSeanceError(t.seanceJoinFailed);
+      setShowJoin(true);
+    }
+  }, [seanceGuest, seanceStatus]);
+
+  // Host: every settled scene goes to the room (again once its image arrives); fallbacks and endings aren't voted on
+  useEffect(() => {
+    if (!seanceHost || !currentResponse || gameState.loadingText) return;
+    const votable = !currentResponse.isFallback && !gameState.isGameOver;
+    seanceHost.publish({
+      narrative: currentResponse.narrative,
+      choices: votable ? currentResponse.choices : [],
+      mood: currentResponse.mood,
+      isGameOver: gameState.isGameOver,
+      image: gameState.currentImage || null
+    });
+  }, [seanceHost, currentResponse, gameState.loadingText, gameState.isGameOver, gameState.currentImage]);
+
 
   // --- Event Handlers ---
 
@@ -63,74 +394,112 @@ const App: React.FC = () => {
       setHasInteracted(true);
     }
     
-    setGameState(prev => ({ ...prev, gameStarted: true, loadingText: true, error: null, history: [], inventory: [] }));
+    const scenario = getScenario(gameState.scenarioId);
+    const startingInventory = getStartingInventory(localizeScenario(scenario, settings.language));
+    gameService.setScenario(scenario);
+    gameService.beginSession();
+
+    setGameState(prev => ({ ...prev, gameStarted: true, loadingText: true, error: null, history: [], inventory: startingInventory, stats: INITIAL_STATS, currentImage: scenario.cover || DEFAULT_BG, storyTree: createStoryTree(), currentNodeId: null }));
+    lastChoiceRef.current = null;
     
     try {
-      const response = await gameService.startNewGame();
-      handleGameResponse(response);
+      const response = await gameService.startNewGame(setStreamingNarrative);
+      handleGameResponse(response, { tree: createStoryTree(), parentId: null, choice: null, inventory: startingInventory, stats: INITIAL_STATS });
     } catch (e) {
       console.error(e);
+      setStreamingNarrative(null);
+      const kind = errorKindOf(e);
       setGameState(prev => ({ 
         ...prev, 
         loadingText: false, 
-        error: "与彼岸的连接断开了... (Connection Error)" 
+        error: errorMessage(kind === 'unknown' ? 'network' : kind, t),
+        errorKind: kind
       }));
     }
-  }, [gameService, hasInteracted]);
+  }, [gameService, hasInteracted, gameState.scenarioId, settings.language]);
 
-  const handleChoice = useCallback(async (choice: string) => {
+  const handleChoice = useCallback(async (choice: string, freeText: boolean = false) => {
     setGameState(prev => ({ ...prev, loadingText: true, error: null }));
+    lastChoiceRef.current = { choice, freeText };
+    gameService.cancelPrefetch(choice); // The picked branch may already be half-generated
     
     // Construct new history immediately for the UI/Service call
-    const newHistory = [...gameState.history, { role: 'user', text: choice } as ChatHistoryItem];
+    const choiceItem: ChatHistoryItem = freeText ? { role: 'user', text: choice, freeText: true } : { role: 'user', text: choice };
+    const newHistory = [...gameState.history, choiceItem];
     
     try {
       // Pass Inventory Context
-      const response = await gameService.continueStory(newHistory, choice, gameState.inventory);
+      const response = await gameService.continueStory(newHistory, choice, gameState.inventory, gameState.stats, setStreamingNarrative);
       
-      setGameState(prev => ({
-        ...prev,
-        history: newHistory
-      }));
+      // A fallback is not part of the story; the choice stays uncommitted so it can be retried
+      if (!response.isFallback) {
+        setGameState(prev => ({
+          ...prev,
+          history: newHistory
+        }));
+      }
       
-      handleGameResponse(response);
+      handleGameResponse(response, {
+        tree: gameState.storyTree,
+        parentId: gameState.currentNodeId,
+        choice,
+        freeText,
+        inventory: gameState.inventory,
+        stats: gameState.stats
+      });
     } catch (e) {
       console.error(e);
+      setStreamingNarrative(null);
+      const kind = errorKindOf(e);
       setGameState(prev => ({ 
         ...prev, 
         loadingText: false,
-        error: "心中的恐惧让你无法前行... (API Error: Please Retry)"
+        error: errorMessage(kind, t),
+        errorKind: kind
       }));
     }
-  }, [gameState.history, gameState.inventory, gameService]);
+  }, [gameState.history, gameState.inventory, gameState.stats, gameState.storyTree, gameState.currentNodeId, gameService, settings.language]);
+
+  // The model failed even after repair attempts: ask again for the same turn
+  const retryLastTurn = useCallback(() => {
+    if (lastChoiceRef.current) handleChoice(lastChoiceRef.current.choice, lastChoiceRef.current.freeText);
+    else startGame();
+  }, [handleChoice, startGame]);
 
   // Process API Response & Trigger Side Effects
-  const handleGameResponse = (response: StoryResponse) => {
+  const handleGameResponse = (modelResponse: StoryResponse, turn: TurnContext) => {
+    setStreamingNarrative(null);
+
+    if (modelResponse.isFallback) {
+      setCurrentResponse(modelResponse);
+      setGameState(prev => ({ ...prev, loadingText: false, error: null }));
+      return;
+    }
+
+    // Stats: the client has the last word on death and 崩溃
+    const { response, stats: newStats } = applyStatRules(modelResponse, turn.stats, turn.choice, settings.language);
     setCurrentResponse(response);
     
     // Update Inventory
-    let newInventory = [...gameState.inventory];
-    if (response.inventoryUpdates) {
-        if (response.inventoryUpdates.add) {
-            response.inventoryUpdates.add.forEach(item => {
-                if (!newInventory.includes(item)) newInventory.push(item);
-            });
-        }
-        if (response.inventoryUpdates.remove) {
-            newInventory = newInventory.filter(item => !response.inventoryUpdates?.remove?.includes(item));
-        }
-    }
+    const newInventory = applyInventoryUpdates(turn.inventory, response.inventoryUpdates);
+
+    // Record the turn in the story tree
+    const { tree, node } = addStoryNode(turn.tree, turn.parentId, turn.choice, response, newInventory, newStats, turn.freeText);
 
     setGameState(prev => ({
       ...prev,
       history: [...prev.history, { role: 'model', text: response.narrative }],
       inventory: newInventory,
+      stats: newStats,
+      storyTree: tree,
+      currentNodeId: node.id,
       isGameOver: response.isGameOver,
       loadingText: false,
       error: null
     }));
 
     // Audio & Visual FX
+    audioManager.setMood(response.mood);
     if (response.flashReveal) {
       setFlashTrigger(true);
       audioManager.playJumpscare();
@@ -140,9 +509,14 @@ const App: React.FC = () => {
     }
 
     // Image Gen - Always trigger, even if cached (GameService handles the caching check)
+    const request = ++sceneImageRequestRef.current;
     if (response.visualPrompt) {
       setGameState(prev => ({ ...prev, imageLoading: true }));
+      gameService.getImageKey(response.visualPrompt).then(imageKey => {
+        setGameState(prev => ({ ...prev, storyTree: setNodeImageKey(prev.storyTree, node.id, imageKey) }));
+      });
       gameService.generateImage(response.visualPrompt).then(imageUrl => {
+        if (request !== sceneImageRequestRef.current) return;
         if (imageUrl) {
             setGameState(prev => ({ ...prev, currentImage: imageUrl, imageLoading: false }));
         } else {
@@ -152,13 +526,22 @@ const App: React.FC = () => {
     }
   };
 
+  const loadItemIcon = useCallback((iconPrompt: string) => gameService.generateImage(iconPrompt), [gameService]);
+
   // Trigger Preloading when Typewriter finishes
   const onNarrativeComplete = useCallback(() => {
-    if (currentResponse && currentResponse.choices && !gameState.isGameOver) {
+    if (currentResponse && currentResponse.choices && !currentResponse.isFallback && !gameState.isGameOver) {
       // Preload with CURRENT state (which is the state AFTER the last response).
-      gameService.preloadChoices(gameState.history, currentResponse.choices, gameState.inventory);
+      gameService.preloadChoices(gameState.history, currentResponse.choices, gameState.inventory, gameState.stats);
     }
-  }, [currentResponse, gameState.history, gameState.inventory, gameState.isGameOver, gameService]);
+  }, [currentResponse, gameState.history, gameState.inventory, gameState.stats, gameState.isGameOver, gameService]);
+
+  // Host: the room's verdict plays the turn, unless the host already moved on
+  useEffect(() => {
+    if (!seanceHost || gameState.loadingText) return;
+    const choice = seanceHost.takeWinner();
+    if (choice) handleChoice(choice);
+  }, [seanceHost, seanceState, gameState.loadingText, handleChoice]);
 
   // Shared Settings Button
   const SettingsButton = () => (
@@ -171,35 +554,70 @@ const App: React.FC = () => {
     </div>
   );
 
-  // Inventory UI Component - Now always visible in the corner as an icon, expanding on hover
-  const InventoryDisplay = () => {
-    return (
-        <div className="fixed bottom-8 right-8 z-40 flex flex-col items-end group">
-            <div className="flex flex-col-reverse gap-2 mb-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none group-hover:pointer-events-auto">
-                {gameState.inventory.length > 0 ? (
-                    gameState.inventory.map((item, idx) => (
-                        <div key={idx} className="bg-black/90 border border-red-900/40 text-stone-300 px-4 py-2 font-serif text-sm shadow-lg whitespace-nowrap">
-                            <span className="text-red-500 mr-2">✦</span>{item}
-                        </div>
-                    ))
-                ) : (
-                    <div className="text-stone-600 font-serif text-sm italic pr-2 bg-black/80 px-2 py-1">行囊空空...</div>
-                )}
-            </div>
-            
-            {/* Bag Icon / Label */}
-            <div className="flex items-center gap-2 cursor-pointer transition-all duration-300 hover:scale-105">
-                <span className="font-calligraphy text-red-600 text-xl writing-vertical-rl drop-shadow-[0_0_5px_rgba(220,20,60,0.5)]">行囊</span>
-                <div className="w-12 h-12 border border-stone-800 hover:border-red-800 flex items-center justify-center rounded-full bg-black/50 backdrop-blur-sm shadow-[0_0_15px_rgba(0,0,0,0.8)]">
-                    <span className="text-stone-300 text-sm font-bold">{gameState.inventory.length}</span>
-                </div>
-            </div>
-        </div>
-    );
-  };
+  // Save Button (in-game only)
+  const SaveButton = () => (
+    <div 
+      onClick={() => setSaveMode('save')}
+      className="fixed top-4 right-14 z-[90] opacity-40 hover:opacity-100 transition-opacity cursor-pointer p-2 font-calligraphy text-xl text-stone-300 hover:text-red-600"
+      title="Save"
+    >
+      {t.save}
+    </div>
+  );
+
+  // Rewind Button (in-game only)
+  const TreeButton = () => (
+    <div 
+      onClick={() => setShowTree(true)}
+      className="fixed top-4 right-28 z-[90] opacity-40 hover:opacity-100 transition-opacity cursor-pointer p-2 font-calligraphy text-xl text-stone-300 hover:text-red-600"
+      title="Rewind"
+    >
+      {t.rewind}
+    </div>
+  );
+
+  // Séance Button (in-game only)
+  const SeanceButton = () => (
+    <div 
+      onClick={openSeance}
+      className="fixed top-4 right-40 z-[90] opacity-40 hover:opacity-100 transition-opacity cursor-pointer p-2 font-calligraphy text-xl text-stone-300 hover:text-red-600"
+      title="Séance"
+    >
+      {t.seanceOpen}
+    </div>
+  );
+
+  // Choices already taken from the current node (their branches are cached)
+  const exploredChoices = gameState.currentNodeId
+    ? getChildren(gameState.storyTree, gameState.currentNodeId).map(n => n.choice)
+    : [];
+
+  const saveSlotsModal = (
+    <SaveSlotsModal
+      show={saveMode !== null}
+      mode={saveMode || 'load'}
+      onClose={() => setSaveMode(null)}
+      onLoad={loadGame}
+      onSave={saveToSlot}
+      language={settings.language}
+    />
+  );
 
   // --- Render ---
 
+  if (seanceGuest) {
+    return (
+      <SeanceView
+        connection={seanceGuest}
+        state={seanceState}
+        status={seanceStatus}
+        onVote={voteSeance}
+        onLeave={leaveSeance}
+        language={settings.language}
+      />
+    );
+  }
+
   if (!gameState.gameStarted) {
     return (
       <div className="flex h-screen w-full items-center justify-center bg-black text-stone-400 relative">
@@ -209,6 +627,18 @@ const App: React.FC = () => {
           onClose={() => setShowSettings(false)}
           settings={settings}
           onUpdateSettings={setSettings}
+          onExportSession={exportSession}
+          onImportSession={importSession}
+        />
+        {saveSlotsModal}
+        <StorybookViewer book={storybook} onClose={closeStorybook} />
+        <SeanceJoinModal
+          show={showJoin}
+          initialCode={invitedCode}
+          error={seanceError}
+          onJoin={joinSeance}
+          onClose={() => setShowJoin(false)}
+          language={settings.language}
         />
         
         <div className="text-center z-50 p-12 border-y border-red-900/30 bg-black/80 backdrop-blur-sm max-w-2xl w-full mx-4 relative">
@@ -219,38 +649,106 @@ const App: React.FC = () => {
           <div className="absolute bottom-0 right-0 w-4 h-4 border-b border-r border-red-900/50"></div>
 
           <h1 className="font-calligraphy text-7xl text-red-900 mb-8 drop-shadow-[0_0_15px_rgba(220,20,60,0.6)]">
-            幽冥录
+            {t.gameTitle}
           </h1>
           <p className="mb-12 font-serif text-xl tracking-[0.3em] opacity-60 text-stone-300">
-            佩戴耳机 · 关灯体验
-            <span className="text-xs text-stone-600 mt-4 block tracking-normal opacity-50 font-sans">(Please enable audio)</span>
+            {t.tagline}
+            <span className="text-xs text-stone-600 mt-4 block tracking-normal opacity-50 font-sans">{t.audioHint}</span>
+            {settings.provider !== OFFLINE_PROVIDER_ID && resolveProvider(settings)?.id === OFFLINE_PROVIDER_ID && (
+              <span className="text-xs text-red-900 mt-2 block tracking-normal font-sans">
+                {settings.provider === 'replay' ? t.replayMissing : t.offlineFallback}
+              </span>
+            )}
           </p>
+          <ScenarioPicker
+            scenarios={listScenarios().map(s => localizeScenario(s, settings.language))}
+            selectedId={gameState.scenarioId}
+            onSelect={id => setGameState(prev => ({ ...prev, scenarioId: id }))}
+          />
           <button 
             onClick={startGame}
             className="px-12 py-4 border border-stone-800 hover:border-red-900 hover:text-red-600 transition-all duration-700 tracking-[0.8em] text-2xl group relative overflow-hidden bg-black"
           >
-            <span className="relative z-10 pl-2">入局</span>
+            <span className="relative z-10 pl-2">{t.start}</span>
             <div className="absolute inset-0 bg-red-950 transform translate-y-full group-hover:translate-y-0 transition-transform duration-500 ease-out opacity-20"></div>
           </button>
+          <div className="mt-8 flex justify-center gap-10 font-serif text-stone-500">
+            {latestSave && (
+              <button
+                onClick={() => loadGame(latestSave.id)}
+                className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors pb-1 tracking-[0.4em]"
+                title={latestSave.excerpt}
+              >
+                {t.continue}
+              </button>
+            )}
+            <button
+              onClick={() => setSaveMode('load')}
+              className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors pb-1 tracking-[0.4em]"
+            >
+              {t.load}
+            </button>
+            <button
+              onClick={() => { setSeanceError(null); setShowJoin(true); }}
+              className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors pb-1 tracking-[0.4em]"
+            >
+              {t.seanceJoin}
+            </button>
+            <label className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors pb-1 tracking-[0.4em] cursor-pointer">
+              {t.storybookOpen}
+              <input type="file" accept=".html,.htm,.zip,.json" onChange={openStorybook} className="hidden" />
+            </label>
+          </div>
+          {storybookStatus && <p className="mt-4 text-xs text-red-900 font-sans">{storybookStatus}</p>}
         </div>
         <div className="fixed inset-0 z-0 opacity-40">
-           <img src={DEFAULT_BG} className="w-full h-full object-cover filter grayscale blur-[2px]" alt="bg" />
+           <img src={getScenario(gameState.scenarioId).cover || DEFAULT_BG} className="w-full h-full object-cover filter grayscale blur-[2px] transition-opacity duration-1000" alt="bg" />
         </div>
         <Atmosphere flashTrigger={false} />
       </div>
     );
   }
 
+  // While streaming, the Typewriter follows the partial narrative; it stays mounted when the full response lands
+  const narrativeText = gameState.loadingText ? streamingNarrative : (currentResponse?.narrative ?? null);
+
   // Render Game Screen
   return (
     <div className="relative h-screen w-full overflow-hidden select-none">
       <SettingsButton />
+      <SaveButton />
+      <TreeButton />
+      {!seanceHost && <SeanceButton />}
+      {seanceHost && (
+        <SeancePanel
+          host={seanceHost}
+          state={seanceState}
+          status={seanceStatus}
+          onResolve={() => seanceHost.resolveNow().catch(e => console.warn("[App] Reveal failed", e))}
+          onEnd={endSeance}
+          language={settings.language}
+        />
+      )}
+      {!seanceHost && seanceError && (
+        <p className="fixed top-6 left-6 z-[90] text-xs text-red-900 font-serif">{seanceError}</p>
+      )}
+      <StoryTreeView
+        show={showTree}
+        tree={gameState.storyTree}
+        currentNodeId={gameState.currentNodeId}
+        onJump={jumpToNode}
+        onClose={() => setShowTree(false)}
+        language={settings.language}
+      />
       <SettingsModal 
           show={showSettings} 
           onClose={() => setShowSettings(false)}
           settings={settings}
           onUpdateSettings={setSettings}
+          onExportSession={exportSession}
+          onImportSession={importSession}
       />
+      {saveSlotsModal}
       
       {/* Layer 0: Background Image */}
       <div className="fixed inset-0 bg-black z-0">
@@ -275,23 +773,35 @@ const App: React.FC = () => {
              {gameState.error ? (
                 <div className="flex flex-col items-center justify-center h-full gap-6 animate-pulse">
                   <p className="text-red-800 font-curse text-3xl text-center">{gameState.error}</p>
-                  <button 
-                    onClick={() => gameState.history.length > 0 ? handleChoice("尝试重新连接") : startGame()} 
-                    className="border-b border-stone-700 hover:text-red-500 hover:border-red-500 transition-colors pb-1 text-lg"
-                  >
-                    重新凝视 (重试)
-                  </button>
+                  <div className="flex gap-8">
+                    {gameState.errorKind && needsSettings(gameState.errorKind) && (
+                      <button 
+                        onClick={() => setShowSettings(true)} 
+                        className="border-b border-red-900 text-red-400 hover:text-red-500 hover:border-red-500 transition-colors pb-1 text-lg"
+                      >
+                        {t.openSettings}
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => gameState.history.length > 0 ? handleChoice(getPrompts(settings.language).reconnect) : startGame()} 
+                      className="border-b border-stone-700 hover:text-red-500 hover:border-red-500 transition-colors pb-1 text-lg"
+                    >
+                      {t.retry}
+                    </button>
+                  </div>
                 </div>
-             ) : gameState.loadingText ? (
+             ) : gameState.loadingText && streamingNarrative === null ? (
                <div className="text-stone-700 animate-pulse text-center w-full flex items-center justify-center h-full">
                  <span className="font-calligraphy text-3xl opacity-50">... ... ...</span>
                </div>
              ) : (
-               currentResponse && (
+               narrativeText !== null && (
                  <Typewriter 
-                   text={currentResponse.narrative} 
+                   text={narrativeText} 
                    speed={40}
+                   streaming={gameState.loadingText}
                    onComplete={onNarrativeComplete}
+                   language={settings.language}
                  />
                )
              )}
@@ -304,23 +814,49 @@ const App: React.FC = () => {
                   {currentResponse.choices?.map((choice, idx) => (
                     <button
                       key={idx}
-                      onClick={() => handleChoice(choice)}
+                      onClick={() => currentResponse.isFallback ? retryLastTurn() : handleChoice(choice)}
+                      onMouseEnter={() => gameService.prioritizePrefetch(choice)}
+                      onFocus={() => gameService.prioritizePrefetch(choice)}
+                      onMouseLeave={() => gameService.prioritizePrefetch(null)}
                       className="btn-gloom group relative px-6 py-5 border border-stone-900/50 bg-black/40 text-stone-400 text-lg font-serif text-left hover:border-red-900 transition-all duration-500 backdrop-blur-sm"
                     >
                        <span className="relative z-10 group-hover:pl-3 transition-all duration-500 block">{choice}</span>
+                       {exploredChoices.includes(choice) && (
+                         <span className="absolute top-1 right-2 text-[10px] text-stone-700 tracking-widest">{t.explored}</span>
+                       )}
                     </button>
                   ))}
+                  {settings.allowFreeText && !currentResponse.isFallback && (
+                    <FreeTextInput onSubmit={action => handleChoice(action, true)} language={settings.language} />
+                  )}
                </div>
             )}
 
             {gameState.isGameOver && !gameState.loadingText && (
-              <div className="flex items-center justify-center h-full">
+              <div className="flex flex-col items-center justify-center h-full gap-8">
                 <button 
-                    onClick={() => window.location.reload()}
+                    onClick={returnToTitle}
                     className="text-red-800 border-b-2 border-red-900 pb-2 hover:text-red-600 hover:border-red-600 transition-colors font-calligraphy text-4xl tracking-widest"
                 >
-                    重新轮回
+                    {t.restart}
                 </button>
+                <div className="flex gap-6 font-serif text-sm text-stone-500">
+                  <button
+                    onClick={() => exportStorybook('html')}
+                    disabled={storybookStatus === t.storybookExporting}
+                    className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors pb-1 tracking-widest disabled:opacity-40"
+                  >
+                    {t.storybookExportHtml}
+                  </button>
+                  <button
+                    onClick={() => exportStorybook('zip')}
+                    disabled={storybookStatus === t.storybookExporting}
+                    className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors pb-1 tracking-widest disabled:opacity-40"
+                  >
+                    {t.storybookExportZip}
+                  </button>
+                </div>
+                {storybookStatus && <p className="text-xs text-stone-600 font-sans">{storybookStatus}</p>}
               </div>
             )}
           </div>
@@ -329,7 +865,16 @@ const App: React.FC = () => {
       </div>
 
       {/* Inventory Display Layer */}
-      <InventoryDisplay />
+      <InventoryPanel
+        items={gameState.inventory}
+        canExamine={!gameState.loadingText && !gameState.isGameOver && !currentResponse?.isFallback}
+        onExamine={item => handleChoice(getPrompts(settings.language).examine(item.name))}
+        loadIcon={loadItemIcon}
+        language={settings.language}
+      />
+
+      {/* Stats: candle and incense in the corner, sanity bleeding into the screen */}
+      <StatsDisplay stats={gameState.stats} language={settings.language} />
 
     </div>
   );
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { MAX_FREE_TEXT_LENGTH, normalizeFreeText } from '../services/freeText';
+import { getStrings } from '../services/i18n';
+
+interface FreeTextInputProps {
+  onSubmit: (action: string) => void;
+  language: Language;
+}
+
+// Shown under the generated choices when 自由行动 is enabled in settings
+export const FreeTextInput: React.FC<FreeTextInputProps> = ({ onSubmit, language }) => {
+  const [text, setText] = useState('');
+  const t = getStrings(language);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Sent as typed; normalizing is only for the cache key. Punctuation alone is not an action.
+    const action = text.trim();
+    if (!normalizeFreeText(action)) return;
+    setText('');
+    onSubmit(action);
+  };
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-3 border-b border-stone-900/60 focus-within:border-red-900 transition-colors">
+      <input
+        type="text"
+        value={text}
+        maxLength={MAX_FREE_TEXT_LENGTH}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={t.freeTextPlaceholder}
+        className="flex-1 bg-transparent py-3 px-2 text-stone-300 font-serif text-lg placeholder:text-stone-700 outline-none"
+      />
+      <button
+        type="submit"
+        disabled={!text.trim()}
+        className="font-calligraphy text-xl text-stone-500 hover:text-red-600 disabled:opacity-30 transition-colors px-2"
+      >
+        {t.freeTextSubmit}
+      </button>
+    </form>
+  );
+};
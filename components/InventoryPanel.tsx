@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { InventoryItem, Language } from '../types';
+import { getStrings } from '../services/i18n';
+
+interface InventoryPanelProps {
+  items: InventoryItem[];
+  canExamine: boolean; // False while a turn is in flight or the run is over
+  onExamine: (item: InventoryItem) => void;
+  loadIcon: (iconPrompt: string) => Promise<string | null>;
+  language: Language;
+}
+
+// Always visible in the corner as an icon, expanding on hover.
+// Clicking an item opens a small card with its description; "检查" spends a turn on it.
+export const InventoryPanel: React.FC<InventoryPanelProps> = ({ items, canExamine, onExamine, loadIcon, language }) => {
+  const t = getStrings(language);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [icon, setIcon] = useState<string | null>(null);
+
+  const selected = items.find(item => item.id === selectedId) || null;
+
+  // Drop the card if the item was used up or taken away
+  useEffect(() => {
+    if (selectedId && !selected) setSelectedId(null);
+  }, [selectedId, selected]);
+
+  // Icons go through the regular image cache, so each one is only generated once
+  useEffect(() => {
+    setIcon(null);
+    if (!selected?.iconPrompt) return;
+    let cancelled = false;
+    loadIcon(selected.iconPrompt).then(url => {
+      if (!cancelled) setIcon(url);
+    });
+    return () => { cancelled = true; };
+  }, [selected?.id, selected?.iconPrompt, loadIcon]);
+
+  return (
+    <>
+      {selected && (
+        <div className="fixed bottom-28 right-8 z-50 w-72 bg-black/95 border border-red-900/50 shadow-[0_0_30px_rgba(0,0,0,0.9)] p-5 font-serif">
+          <div className="flex items-start justify-between mb-3">
+            <h3 className="text-stone-200 text-lg">
+              <span className="text-red-500 mr-2">✦</span>{selected.name}
+            </h3>
+            <button onClick={() => setSelectedId(null)} className="text-stone-600 hover:text-stone-300 transition-colors">✕</button>
+          </div>
+
+          {icon && (
+            <img src={icon} alt={selected.name} className="w-full h-32 object-cover mb-3 border border-stone-900 filter grayscale-[30%] contrast-125" />
+          )}
+
+          <div className="flex gap-2 mb-3">
+            {selected.key && <span className="text-[10px] tracking-widest text-amber-600 border border-amber-900/60 px-2 py-0.5">{t.keyItem}</span>}
+            {selected.consumable && <span className="text-[10px] tracking-widest text-stone-500 border border-stone-800 px-2 py-0.5">{t.consumable}</span>}
+          </div>
+
+          <p className="text-stone-400 text-sm leading-relaxed mb-4">
+            {selected.description || t.noDescription}
+          </p>
+
+          <button
+            onClick={() => { onExamine(selected); setSelectedId(null); }}
+            disabled={!canExamine}
+            className="w-full py-2 border border-stone-800 text-stone-300 hover:border-red-900 hover:text-red-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            {t.examine}
+          </button>
+        </div>
+      )}
+
+      <div className="fixed bottom-8 right-8 z-40 flex flex-col items-end group">
+        <div className="flex flex-col-reverse gap-2 mb-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none group-hover:pointer-events-auto">
+          {items.length > 0 ? (
+            items.map(item => (
+              <div
+                key={item.id}
+                onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+                className={`bg-black/90 border px-4 py-2 font-serif text-sm shadow-lg whitespace-nowrap cursor-pointer transition-colors ${item.id === selectedId ? 'border-red-700 text-stone-100' : 'border-red-900/40 text-stone-300 hover:border-red-800'}`}
+              >
+                <span className={`mr-2 ${item.key ? 'text-amber-500' : 'text-red-500'}`}>✦</span>{item.name}
+              </div>
+            ))
+          ) : (
+            <div className="text-stone-600 font-serif text-sm italic pr-2 bg-black/80 px-2 py-1">{t.inventoryEmpty}</div>
+          )}
+        </div>
+
+        {/* Bag Icon / Label */}
+        <div className="flex items-center gap-2 cursor-pointer transition-all duration-300 hover:scale-105">
+          <span className={`font-calligraphy text-red-600 text-xl drop-shadow-[0_0_5px_rgba(220,20,60,0.5)] ${language === 'zh' ? 'writing-vertical-rl' : ''}`}>{t.inventory}</span>
+          <div className="w-12 h-12 border border-stone-800 hover:border-red-800 flex items-center justify-center rounded-full bg-black/50 backdrop-blur-sm shadow-[0_0_15px_rgba(0,0,0,0.8)]">
+            <span className="text-stone-300 text-sm font-bold">{items.length}</span>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
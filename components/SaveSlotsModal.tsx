@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { SaveSlotMeta, Language } from '../types';
+import { saveService, AUTOSAVE_SLOT_ID, MAX_SAVE_SLOTS } from '../services/saveService';
+import { getStrings } from '../services/i18n';
+
+interface SaveSlotsModalProps {
+  show: boolean;
+  mode: 'save' | 'load';
+  onClose: () => void;
+  onLoad: (id: string) => void;
+  onSave: (id: string | null, name: string) => Promise<boolean>; // null id = new slot
+  language: Language;
+}
+
+const formatTime = (ts: number, locale: string) => new Date(ts).toLocaleString(locale, { hour12: false });
+
+export const SaveSlotsModal: React.FC<SaveSlotsModalProps> = ({ show, mode, onClose, onLoad, onSave, language }) => {
+  const t = getStrings(language);
+  const [slots, setSlots] = useState<SaveSlotMeta[]>([]);
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (show) {
+      setSlots(saveService.listSlots());
+      setMessage(null);
+    }
+  }, [show]);
+
+  if (!show) return null;
+
+  const namedCount = slots.filter(s => s.id !== AUTOSAVE_SLOT_ID).length;
+
+  const handleSave = async (id: string | null, name: string) => {
+    setBusy(true);
+    const ok = await onSave(id, name.trim() || t.defaultSlotName(namedCount + 1));
+    setBusy(false);
+    setMessage(ok ? t.saved : t.saveFailed);
+    setNewName('');
+    setSlots(saveService.listSlots());
+  };
+
+  const handleDelete = (id: string) => {
+    saveService.remove(id);
+    setSlots(saveService.listSlots());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-md">
+      <div className="w-full max-w-xl p-8 border border-red-900/50 bg-stone-950 text-stone-300 relative shadow-[0_0_30px_rgba(50,0,0,0.3)] max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-calligraphy text-red-800 mb-6 border-b border-red-900/30 pb-2">
+          {mode === 'save' ? t.saveTitle : t.loadTitle}
+        </h2>
+
+        {mode === 'save' && (
+          <div className="flex gap-3 mb-6 font-serif">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={namedCount >= MAX_SAVE_SLOTS ? t.slotsFull : t.slotName}
+              disabled={busy || namedCount >= MAX_SAVE_SLOTS}
+              className="flex-1 bg-black border border-stone-800 p-3 focus:border-red-900 outline-none text-stone-300 placeholder-stone-700 text-sm transition-all"
+            />
+            <button
+              onClick={() => handleSave(null, newName)}
+              disabled={busy || namedCount >= MAX_SAVE_SLOTS}
+              className="px-6 border border-stone-800 hover:border-red-800 hover:text-red-500 transition-all duration-500 text-stone-400 disabled:opacity-30"
+            >
+              {t.newSlot}
+            </button>
+          </div>
+        )}
+
+        {message && <p className="text-xs text-stone-500 mb-4 font-serif">{message}</p>}
+
+        <div className="space-y-3 font-serif">
+          {slots.length === 0 && (
+            <p className="text-stone-600 italic text-sm">{t.noSaves}</p>
+          )}
+          {slots.map(slot => {
+            const isAutosave = slot.id === AUTOSAVE_SLOT_ID;
+            const canLoad = mode === 'load' && !slot.isGameOver;
+            const canOverwrite = mode === 'save' && !isAutosave;
+            return (
+              <div key={slot.id} className="flex gap-4 border border-stone-900 bg-black/60 p-3 items-center">
+                <div className="w-24 h-16 flex-shrink-0 bg-stone-900 overflow-hidden">
+                  {slot.thumbnail && <img src={slot.thumbnail} alt={slot.name} className="w-full h-full object-cover grayscale" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between text-sm">
+                    <span className={isAutosave ? 'text-red-700' : 'text-stone-300'}>{slot.name}</span>
+                    <span className="text-stone-600 text-xs">{t.turnCount(slot.turnCount)}</span>
+                  </div>
+                  <p className="text-xs text-stone-500 truncate mt-1">{slot.excerpt}</p>
+                  <p className="text-[10px] text-stone-700 mt-1">
+                    {formatTime(slot.savedAt, t.locale)}{slot.isGameOver && t.finished}
+                  </p>
+                </div>
+                <div className="flex flex-col gap-1 text-xs">
+                  {canLoad && (
+                    <button onClick={() => onLoad(slot.id)} className="px-3 py-1 border border-stone-800 hover:border-red-800 hover:text-red-500 transition-colors">{t.loadSlot}</button>
+                  )}
+                  {canOverwrite && (
+                    <button onClick={() => handleSave(slot.id, slot.name)} disabled={busy} className="px-3 py-1 border border-stone-800 hover:border-red-800 hover:text-red-500 transition-colors">{t.overwrite}</button>
+                  )}
+                  <button onClick={() => handleDelete(slot.id)} className="px-3 py-1 text-stone-700 hover:text-red-700 transition-colors">{t.deleteSlot}</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-10 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-8 py-2 border border-stone-800 hover:border-red-800 hover:text-red-500 hover:bg-red-950/10 transition-all duration-500 text-stone-400"
+          >
+            {t.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
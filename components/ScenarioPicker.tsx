@@ -0,0 +1,35 @@
+import React from 'react';
+import { Scenario } from '../types';
+
+interface ScenarioPickerProps {
+  scenarios: Scenario[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+// Title-screen list of scenario packs; the selected pack's cover becomes the backdrop
+export const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ scenarios, selectedId, onSelect }) => {
+  if (scenarios.length < 2) return null;
+
+  return (
+    <div className="mb-10 flex flex-col gap-2 font-serif text-left">
+      {scenarios.map(scenario => {
+        const selected = scenario.id === selectedId;
+        return (
+          <button
+            key={scenario.id}
+            onClick={() => onSelect(scenario.id)}
+            className={`px-5 py-3 border transition-all duration-500 text-left ${selected ? 'border-red-900 bg-red-950/20' : 'border-stone-900 hover:border-stone-700'}`}
+          >
+            <span className={`block tracking-[0.3em] text-lg ${selected ? 'text-red-600' : 'text-stone-400'}`}>
+              {selected && <span className="mr-2">✦</span>}{scenario.title}
+            </span>
+            {scenario.description && (
+              <span className="block text-xs text-stone-600 mt-1 tracking-normal">{scenario.description}</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { useState, useEffect } from 'react';
+import { Language } from '../types';
+import { SeanceConnection } from '../services/seanceClient';
+import { getStrings } from '../services/i18n';
+
+interface SeanceCountdownProps {
+  connection: SeanceConnection;
+  turn: number; // Restarts the ticking when a new scene comes in
+  className?: string;
+  language: Language;
+}
+
+export const SeanceCountdown: React.FC<SeanceCountdownProps> = ({ connection, turn, className, language }) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.ceil(connection.timeLeft() / 1000));
+
+  useEffect(() => {
+    const update = () => setSecondsLeft(Math.ceil(connection.timeLeft() / 1000));
+    update();
+    const timer = setInterval(update, 250);
+    return () => clearInterval(timer);
+  }, [connection, turn]);
+
+  if (secondsLeft <= 0) return null;
+  return <span className={className}>{getStrings(language).seanceCountdown(secondsLeft)}</span>;
+};
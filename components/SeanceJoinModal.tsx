@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Language } from '../types';
+import { getStrings } from '../services/i18n';
+
+interface SeanceJoinModalProps {
+  show: boolean;
+  initialCode: string;
+  error: string | null;
+  onJoin: (code: string, name: string, spectate: boolean) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const SeanceJoinModal: React.FC<SeanceJoinModalProps> = ({ show, initialCode, error, onJoin, onClose, language }) => {
+  const t = getStrings(language);
+  const [code, setCode] = useState(initialCode);
+  const [name, setName] = useState('');
+  const [spectate, setSpectate] = useState(false);
+
+  useEffect(() => {
+    if (show) setCode(initialCode);
+  }, [show, initialCode]);
+
+  if (!show) return null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) onJoin(code, name, spectate);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-md">
+      <form onSubmit={submit} className="w-full max-w-sm p-8 border border-red-900/50 bg-stone-950 text-stone-300 relative shadow-[0_0_30px_rgba(50,0,0,0.3)] font-serif">
+        <h2 className="text-2xl font-calligraphy text-red-800 mb-6 border-b border-red-900/30 pb-2">{t.seanceTitle}</h2>
+
+        <label className="block text-sm mb-2 text-stone-500 tracking-widest">{t.seanceCode}</label>
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          maxLength={8}
+          autoFocus
+          className="w-full bg-black border border-stone-800 p-3 mb-4 focus:border-red-900 outline-none text-stone-200 font-mono text-2xl tracking-[0.5em] text-center uppercase transition-all"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t.seanceName}
+          maxLength={24}
+          className="w-full bg-black border border-stone-800 p-3 mb-4 focus:border-red-900 outline-none text-stone-300 placeholder-stone-700 transition-all"
+        />
+        <label className="flex items-center gap-3 text-sm text-stone-500 cursor-pointer">
+          <input type="checkbox" checked={spectate} onChange={(e) => setSpectate(e.target.checked)} className="accent-red-900" />
+          {t.seanceSpectate}
+        </label>
+        {error && <p className="text-xs text-red-800 mt-4">{error}</p>}
+
+        <div className="mt-8 flex justify-between">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-2 border border-stone-800 hover:border-stone-600 transition-all duration-500 text-stone-500"
+          >
+            {t.close}
+          </button>
+          <button
+            type="submit"
+            className="px-8 py-2 border border-stone-800 hover:border-red-800 hover:text-red-500 hover:bg-red-950/10 transition-all duration-500 text-stone-300"
+          >
+            {t.seanceEnter}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Language, SeanceState, SeanceStatus } from '../types';
+import { SeanceHost } from '../services/seanceClient';
+import { SeanceCountdown } from './SeanceCountdown';
+import { getStrings } from '../services/i18n';
+
+interface SeancePanelProps {
+  host: SeanceHost;
+  state: SeanceState | null;
+  status: SeanceStatus;
+  onResolve: () => void;
+  onEnd: () => void;
+  language: Language;
+}
+
+// The host's corner of the screen: the room code to read out, who is seated and how the vote stands
+export const SeancePanel: React.FC<SeancePanelProps> = ({ host, state, status, onResolve, onEnd, language }) => {
+  const t = getStrings(language);
+  const players = state?.members.filter(m => m.role === 'player') || [];
+  const spectators = state?.members.filter(m => m.role === 'spectator' && m.connected).length || 0;
+  const vote = state?.vote;
+  const choices = state?.scene?.choices || [];
+
+  return (
+    <div className="fixed top-4 left-4 z-[90] w-64 p-4 bg-black/80 border border-red-900/40 backdrop-blur-sm font-serif text-stone-400 shadow-[0_0_20px_rgba(0,0,0,0.8)]">
+      <div className="flex items-baseline justify-between">
+        <span className="text-xs tracking-widest text-stone-600">{t.seanceCode}</span>
+        <span className="font-mono text-2xl tracking-[0.4em] text-red-700">{host.code}</span>
+      </div>
+      <p className="text-[10px] text-stone-600 mt-1 leading-relaxed">{t.seanceShareHint}</p>
+      {status === 'reconnecting' && <p className="text-xs text-red-900 mt-2">{t.seanceReconnecting}</p>}
+
+      <p className="text-xs text-stone-500 mt-3">{t.seancePresent(players.filter(p => p.connected).length, spectators)}</p>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs">
+        {players.map((player, i) => (
+          <span key={i} className={player.connected ? 'text-stone-300' : 'text-stone-700 line-through'}>{player.name || t.seanceAnonymous}</span>
+        ))}
+      </div>
+
+      {vote && choices.length > 0 && (
+        <div className="mt-4 border-t border-stone-900 pt-3 space-y-1">
+          {choices.map((choice, i) => (
+            <div key={i} className={`flex justify-between gap-2 text-xs ${vote.closed && vote.winner === i ? 'text-red-500' : ''}`}>
+              <span className="truncate">{choice}</span>
+              <span className="shrink-0">{t.seanceVotes(vote.tally[i] || 0)}</span>
+            </div>
+          ))}
+          {!vote.closed && (
+            <div className="flex items-center justify-between pt-2">
+              <SeanceCountdown connection={host} turn={state!.turn} className="text-xs text-stone-500" language={language} />
+              <button onClick={onResolve} className="text-xs border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors">
+                {t.seanceRevealNow}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button onClick={onEnd} className="mt-4 text-xs text-stone-600 border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors">
+        {t.seanceEnd}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Language, SeanceState, SeanceStatus } from '../types';
+import { SeanceConnection } from '../services/seanceClient';
+import { SeanceCountdown } from './SeanceCountdown';
+import { Atmosphere } from './Atmosphere';
+import { getStrings } from '../services/i18n';
+
+interface SeanceViewProps {
+  connection: SeanceConnection;
+  state: SeanceState | null;
+  status: SeanceStatus;
+  onVote: (choice: number | null) => void;
+  onLeave: () => void;
+  language: Language;
+}
+
+// What a seated player or a spectator sees: the host's scene, and the choices as a vote
+export const SeanceView: React.FC<SeanceViewProps> = ({ connection, state, status, onVote, onLeave, language }) => {
+  const t = getStrings(language);
+  const scene = state?.scene;
+  const vote = state?.vote;
+  const canVote = state?.you.role === 'player' && !!vote && !vote.closed && status === 'open';
+  const totalVotes = vote?.tally.reduce((sum, n) => sum + n, 0) || 0;
+
+  let notice: string | null = null;
+  if (status === 'closed') notice = t.seanceClosed;
+  else if (status === 'reconnecting') notice = t.seanceReconnecting;
+  else if (scene?.isGameOver) notice = t.storybookEnd;
+  else if (!scene || vote?.closed) notice = t.seanceWaiting;
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden select-none">
+      <div className="fixed inset-0 bg-black z-0">
+        {scene?.image && <img src={scene.image} alt="Atmosphere" className="w-full h-full object-cover opacity-50 transition-opacity duration-1000" />}
+        <div className="absolute inset-0 bg-black/60 mix-blend-multiply" />
+      </div>
+      <Atmosphere flashTrigger={false} />
+
+      <div className="fixed top-4 left-4 z-[90] font-serif text-xs text-stone-500 tracking-widest flex gap-4 items-baseline">
+        <span className="font-mono text-lg text-red-800 tracking-[0.4em]">{connection.code}</span>
+        {state?.you.role === 'spectator' && <span>{t.seanceSpectating}</span>}
+        <button onClick={onLeave} className="border-b border-stone-800 hover:text-red-600 hover:border-red-900 transition-colors">{t.seanceLeave}</button>
+      </div>
+
+      <div className="relative z-30 flex h-full items-center justify-center p-4 md:p-8">
+        <div className="max-w-6xl w-full flex flex-col md:flex-row gap-8 md:gap-16 items-stretch justify-center min-h-[60vh]">
+          <div className="narrative-container w-full md:w-3/5 flex flex-col justify-center min-h-[400px]">
+            {scene ? (
+              <p className={`whitespace-pre-line leading-loose text-xl font-serif ${scene.mood === 'terrifying' ? 'text-red-300' : 'text-stone-300'}`}>{scene.narrative}</p>
+            ) : (
+              <span className="font-calligraphy text-3xl opacity-50 text-stone-700 text-center animate-pulse">... ... ...</span>
+            )}
+          </div>
+
+          <div className="w-full md:w-2/5 flex flex-col gap-5 justify-center">
+            {scene && scene.choices.map((choice, i) => {
+              const count = vote?.tally[i] || 0;
+              const mine = state?.you.vote === i;
+              const won = vote?.closed && vote.winner === i;
+              return (
+                <button
+                  key={i}
+                  onClick={() => onVote(mine ? null : i)}
+                  disabled={!canVote}
+                  className={`group relative px-6 py-5 border bg-black/40 text-lg font-serif text-left transition-all duration-500 backdrop-blur-sm overflow-hidden ${won ? 'border-red-700 text-red-400' : mine ? 'border-red-900 text-stone-200' : 'border-stone-900/50 text-stone-400'} ${canVote ? 'hover:border-red-900' : 'cursor-default'}`}
+                >
+                  <div className="absolute inset-y-0 left-0 bg-red-950/30 transition-all duration-700" style={{ width: totalVotes ? `${(count / totalVotes) * 100}%` : 0 }} />
+                  <span className="relative z-10 block">{choice}</span>
+                  {vote && <span className="absolute top-1 right-2 text-[10px] text-stone-600 tracking-widest z-10">{t.seanceVotes(count)}</span>}
+                </button>
+              );
+            })}
+            {vote && !vote.closed && (
+              <SeanceCountdown connection={connection} turn={state!.turn} className="text-sm text-stone-500 font-serif tracking-widest text-center" language={language} />
+            )}
+            {vote?.closed && vote.winner !== null && scene && (
+              <p className="text-sm text-red-700 font-serif text-center">{t.seanceWinner(scene.choices[vote.winner])}</p>
+            )}
+            {notice && <p className="text-xs text-stone-600 font-serif text-center animate-pulse">{notice}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,112 +1,229 @@
 
-import React from 'react';
-import { GameSettings, LLMProvider } from '../types';
+import React, { useState, useEffect } from 'react';
+import { GameSettings, LLMProvider, PrefetchMode } from '../types';
+import { getProvider, listProviders } from '../services/providers';
+import { getStrings, LANGUAGES } from '../services/i18n';
 
 interface SettingsModalProps {
   show: boolean;
   onClose: () => void;
   settings: GameSettings;
   onUpdateSettings: (newSettings: GameSettings) => void;
+  onExportSession: () => boolean; // false: nothing recorded yet
+  onImportSession: (file: File) => Promise<number | null>; // Recorded calls loaded, null if unreadable
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = React.memo(({ show, onClose, settings, onUpdateSettings }) => {
+export const SettingsModal: React.FC<SettingsModalProps> = React.memo(({ show, onClose, settings, onUpdateSettings, onExportSession, onImportSession }) => {
+  const [installedModels, setInstalledModels] = useState<string[]>([]);
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+  const active = getProvider(settings.provider);
+
+  // Local backends can tell us which models are actually pulled
+  useEffect(() => {
+    setInstalledModels([]);
+    if (!show || !active?.listModels) return;
+    let cancelled = false;
+    active.listModels(settings).then(models => {
+      if (!cancelled) setInstalledModels(models);
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [show, settings.provider, settings.baseUrl]);
+
+  useEffect(() => {
+    if (show) setSessionMessage(null);
+  }, [show]);
+
   if (!show) return null;
 
   const handleProviderChange = (provider: LLMProvider) => {
-    let newModel = settings.model;
-    let newImageModel = settings.imageModel;
-
-    if (provider === 'gemini') {
-        if (settings.model.includes('gpt')) newModel = 'gemini-2.5-flash';
-        if (!settings.imageModel || settings.imageModel.includes('gpt')) newImageModel = 'gemini-2.5-flash-image';
-    } else if (provider === 'openai') {
-        if (settings.model.includes('gemini')) newModel = 'gpt-4o';
-        if (!settings.imageModel || settings.imageModel.includes('gemini')) newImageModel = 'gpt-4o-image';
-    }
-    
-    onUpdateSettings({ ...settings, provider, model: newModel, imageModel: newImageModel });
+    const next = getProvider(provider);
+    if (!next) return;
+
+    // Keep the model only if it belongs to the new provider (or is a custom one the user typed for it)
+    const foreignModels = listProviders().filter(p => p.id !== provider).flatMap(p => p.models);
+    const keepModel = settings.model && !foreignModels.includes(settings.model);
+    const foreignImageModels = listProviders().filter(p => p.id !== provider).map(p => p.defaultImageModel);
+    const keepImageModel = settings.imageModel && !foreignImageModels.includes(settings.imageModel);
+
+    onUpdateSettings({
+      ...settings,
+      provider,
+      model: keepModel ? settings.model : next.defaultModel,
+      imageModel: keepImageModel ? settings.imageModel : (next.defaultImageModel || '')
+    });
+  };
+
+  const t = getStrings(settings.language);
+  const prefetchModes: { id: PrefetchMode; label: string }[] = [
+    { id: 'auto', label: t.prefetchAuto },
+    { id: 'always', label: t.prefetchAlways },
+    { id: 'off', label: t.prefetchOff }
+  ];
+  const modelSuggestions = Array.from(new Set([...installedModels, ...(active?.models || [])]));
+
+  const handleExportSession = () => {
+    setSessionMessage(onExportSession() ? null : t.sessionEmpty);
+  };
+
+  const handleImportSession = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again
+    if (!file) return;
+    const count = await onImportSession(file);
+    setSessionMessage(count === null ? t.sessionLoadFailed : t.sessionLoaded(count));
   };
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-md">
       <div className="w-full max-w-md p-8 border border-red-900/50 bg-stone-950 text-stone-300 relative shadow-[0_0_30px_rgba(50,0,0,0.3)] max-h-[90vh] overflow-y-auto">
-        <h2 className="text-2xl font-calligraphy text-red-800 mb-6 border-b border-red-900/30 pb-2">天机设定 (Settings)</h2>
+        <h2 className="text-2xl font-calligraphy text-red-800 mb-6 border-b border-red-900/30 pb-2">{t.settingsTitle}</h2>
         
         <div className="space-y-6 font-serif">
-          {/* Provider Selection */}
+          {/* Language */}
           <div>
-            <label className="block text-sm mb-3 text-stone-500 tracking-widest">服务商 (Provider)</label>
+            <label className="block text-sm mb-3 text-stone-500 tracking-widest">{t.language}</label>
             <div className="flex gap-4">
-              <button 
-                onClick={() => handleProviderChange('gemini')}
-                className={`flex-1 px-4 py-3 border transition-all duration-300 ${settings.provider === 'gemini' ? 'border-red-800 text-red-500 bg-red-950/20 shadow-[0_0_10px_rgba(120,0,0,0.2)]' : 'border-stone-800 text-stone-600 hover:border-stone-600'}`}
-              >
-                Gemini
-              </button>
-              <button 
-                onClick={() => handleProviderChange('openai')}
-                className={`flex-1 px-4 py-3 border transition-all duration-300 ${settings.provider === 'openai' ? 'border-red-800 text-red-500 bg-red-950/20 shadow-[0_0_10px_rgba(120,0,0,0.2)]' : 'border-stone-800 text-stone-600 hover:border-stone-600'}`}
-              >
-                OpenAI
-              </button>
+              {LANGUAGES.map(language => (
+                <button 
+                  key={language.id}
+                  onClick={() => onUpdateSettings({ ...settings, language: language.id })}
+                  className={`flex-1 px-4 py-3 border transition-all duration-300 ${settings.language === language.id ? 'border-red-800 text-red-500 bg-red-950/20 shadow-[0_0_10px_rgba(120,0,0,0.2)]' : 'border-stone-800 text-stone-600 hover:border-stone-600'}`}
+                >
+                  {language.label}
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* Text Model Input */}
+          {/* Provider Selection */}
           <div>
-            <label className="block text-sm mb-2 text-stone-500 tracking-widest">文字模型 (Text Model)</label>
-            <input 
-              type="text"
-              value={settings.model}
-              onChange={(e) => onUpdateSettings({ ...settings, model: e.target.value })}
-              placeholder={settings.provider === 'gemini' ? "gemini-2.5-flash" : "gpt-4o"}
-              className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 font-mono text-sm transition-all"
-            />
+            <label className="block text-sm mb-3 text-stone-500 tracking-widest">{t.provider}</label>
+            <div className="flex flex-wrap gap-3">
+              {listProviders().map(provider => (
+                <button 
+                  key={provider.id}
+                  onClick={() => handleProviderChange(provider.id)}
+                  className={`flex-1 px-3 py-3 border transition-all duration-300 ${settings.provider === provider.id ? 'border-red-800 text-red-500 bg-red-950/20 shadow-[0_0_10px_rgba(120,0,0,0.2)]' : 'border-stone-800 text-stone-600 hover:border-stone-600'}`}
+                >
+                  {provider.label}
+                </button>
+              ))}
+            </div>
           </div>
 
+          {active?.scripted && <p className="text-xs text-stone-600 -mt-3">{active.id === 'replay' ? t.replayHint : t.offlineHint}</p>}
+
+          {/* Text Model Input */}
+          {!active?.scripted && (
+            <div>
+              <label className="block text-sm mb-2 text-stone-500 tracking-widest">{t.textModel}</label>
+              <input 
+                type="text"
+                value={settings.model}
+                onChange={(e) => onUpdateSettings({ ...settings, model: e.target.value })}
+                placeholder={active?.defaultModel}
+                list="provider-models"
+                className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 font-mono text-sm transition-all"
+              />
+              <datalist id="provider-models">
+                {modelSuggestions.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+          )}
+
           {/* Image Model Input */}
-          <div>
-            <label className="block text-sm mb-2 text-stone-500 tracking-widest">绘图模型 (Image Model)</label>
-            <input 
-              type="text"
-              value={settings.imageModel}
-              onChange={(e) => onUpdateSettings({ ...settings, imageModel: e.target.value })}
-              placeholder={settings.provider === 'gemini' ? "gemini-2.5-flash-image" : "gpt-4o-image (chat mode)"}
-              className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 font-mono text-sm transition-all"
-            />
-          </div>
+          {active?.image && !active.scripted && (
+            <div>
+              <label className="block text-sm mb-2 text-stone-500 tracking-widest">{t.imageModel}</label>
+              <input 
+                type="text"
+                value={settings.imageModel}
+                onChange={(e) => onUpdateSettings({ ...settings, imageModel: e.target.value })}
+                placeholder={active.defaultImageModel}
+                className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 font-mono text-sm transition-all"
+              />
+            </div>
+          )}
 
           {/* API Key */}
-          <div>
-            <label className="block text-sm mb-2 text-stone-500 tracking-widest">API Key {settings.provider === 'gemini' && '(Optional)'}</label>
-            <input 
-              type="password"
-              value={settings.apiKey || ''}
-              onChange={(e) => onUpdateSettings({ ...settings, apiKey: e.target.value })}
-              placeholder={settings.provider === 'gemini' ? "使用系统环境变量或输入..." : "sk-..."}
-              className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 placeholder-stone-800 font-mono text-sm transition-all"
-            />
-          </div>
-           
-           {/* Base URL */}
+          {active?.usesApiKey !== false && (
             <div>
-              <label className="block text-sm mb-2 text-stone-500 tracking-widest">Base URL (Optional)</label>
+              <label className="block text-sm mb-2 text-stone-500 tracking-widest">API Key {!active?.requiresApiKey && t.optional}</label>
               <input 
-                type="text"
-                value={settings.baseUrl || ''}
-                onChange={(e) => onUpdateSettings({ ...settings, baseUrl: e.target.value })}
-                placeholder={settings.provider === 'gemini' ? "https://generativelanguage.googleapis.com" : "https://api.openai.com/v1"}
+                type="password"
+                value={settings.apiKey || ''}
+                onChange={(e) => onUpdateSettings({ ...settings, apiKey: e.target.value })}
+                placeholder={active?.apiKeyPlaceholder}
                 className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 placeholder-stone-800 font-mono text-sm transition-all"
               />
             </div>
+          )}
+           
+           {/* Base URL */}
+            {!active?.scripted && (
+              <div>
+                <label className="block text-sm mb-2 text-stone-500 tracking-widest">Base URL {t.optional}</label>
+                <input 
+                  type="text"
+                  value={settings.baseUrl || ''}
+                  onChange={(e) => onUpdateSettings({ ...settings, baseUrl: e.target.value })}
+                  placeholder={active?.baseUrlPlaceholder}
+                  className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 placeholder-stone-800 font-mono text-sm transition-all"
+                />
+              </div>
+            )}
+
+            {/* Context Budget */}
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className="block text-sm mb-2 text-stone-500 tracking-widest">{t.contextBudget}</label>
+                <input 
+                  type="number"
+                  min={1000}
+                  step={500}
+                  value={settings.contextTokenBudget}
+                  onChange={(e) => onUpdateSettings({ ...settings, contextTokenBudget: Number(e.target.value) || 0 })}
+                  className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 font-mono text-sm transition-all"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm mb-2 text-stone-500 tracking-widest">{t.recentTurns}</label>
+                <input 
+                  type="number"
+                  min={2}
+                  value={settings.contextRecentTurns}
+                  onChange={(e) => onUpdateSettings({ ...settings, contextRecentTurns: Number(e.target.value) || 0 })}
+                  className="w-full bg-black border border-stone-800 p-3 focus:border-red-900 focus:shadow-[0_0_10px_rgba(100,0,0,0.3)] outline-none text-stone-300 font-mono text-sm transition-all"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-stone-600 -mt-4">{t.contextHint}</p>
+
+            {/* Free Text Toggle */}
+            <div className="pt-4 border-t border-stone-900">
+              <div className="flex items-center justify-between">
+                <div>
+                   <label className="block text-sm text-stone-300 tracking-widest">{t.freeText}</label>
+                   <p className="text-xs text-stone-600 mt-1">
+                      {t.freeTextHint}
+                   </p>
+                </div>
+                <div 
+                  className={`relative w-12 h-6 rounded-full cursor-pointer transition-colors duration-300 ${settings.allowFreeText ? 'bg-red-900/60 border border-red-500' : 'bg-stone-900 border border-stone-700'}`}
+                  onClick={() => onUpdateSettings({ ...settings, allowFreeText: !settings.allowFreeText })}
+                >
+                  <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow-md transition-transform duration-300 ${settings.allowFreeText ? 'left-[calc(100%-1.2rem)] bg-red-200' : 'left-1 bg-stone-500'}`} />
+                </div>
+              </div>
+            </div>
 
             {/* Shared Cache Toggle */}
             <div className="pt-4 border-t border-stone-900">
               <div className="flex items-center justify-between">
                 <div>
-                   <label className="block text-sm text-stone-300 tracking-widest">共享缓存 (Shared Cache)</label>
+                   <label className="block text-sm text-stone-300 tracking-widest">{t.sharedCache}</label>
                    <p className="text-xs text-stone-600 mt-1">
-                      启用后优先使用服务器缓存，减少 API 消耗。
+                      {t.sharedCacheHint}
                    </p>
                 </div>
                 <div 
@@ -117,6 +234,72 @@ export const SettingsModal: React.FC<SettingsModalProps> = React.memo(({ show, o
                 </div>
               </div>
             </div>
+
+            {/* Cross-Model Cache Toggle */}
+            <div className="pt-4 border-t border-stone-900">
+              <div className="flex items-center justify-between">
+                <div>
+                   <label className="block text-sm text-stone-300 tracking-widest">{t.crossModelCache}</label>
+                   <p className="text-xs text-stone-600 mt-1">
+                      {t.crossModelCacheHint}
+                   </p>
+                </div>
+                <div 
+                  className={`relative w-12 h-6 rounded-full cursor-pointer transition-colors duration-300 ${settings.shareCacheAcrossModels ? 'bg-red-900/60 border border-red-500' : 'bg-stone-900 border border-stone-700'}`}
+                  onClick={() => onUpdateSettings({ ...settings, shareCacheAcrossModels: !settings.shareCacheAcrossModels })}
+                >
+                  <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow-md transition-transform duration-300 ${settings.shareCacheAcrossModels ? 'left-[calc(100%-1.2rem)] bg-red-200' : 'left-1 bg-stone-500'}`} />
+                </div>
+              </div>
+            </div>
+
+            {/* Prefetch Mode */}
+            <div className="pt-4 border-t border-stone-900">
+              <label className="block text-sm mb-3 text-stone-300 tracking-widest">{t.prefetch}</label>
+              <div className="flex gap-4">
+                {prefetchModes.map(mode => (
+                  <button 
+                    key={mode.id}
+                    onClick={() => onUpdateSettings({ ...settings, prefetchMode: mode.id })}
+                    className={`flex-1 px-4 py-2 border transition-all duration-300 ${(settings.prefetchMode || 'auto') === mode.id ? 'border-red-800 text-red-500 bg-red-950/20 shadow-[0_0_10px_rgba(120,0,0,0.2)]' : 'border-stone-800 text-stone-600 hover:border-stone-600'}`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-stone-600 mt-2">{t.prefetchHint}</p>
+            </div>
+
+            {/* Session Recording */}
+            <div className="pt-4 border-t border-stone-900">
+              <div className="flex items-center justify-between">
+                <div>
+                   <label className="block text-sm text-stone-300 tracking-widest">{t.recordSession}</label>
+                   <p className="text-xs text-stone-600 mt-1">
+                      {t.recordSessionHint}
+                   </p>
+                </div>
+                <div 
+                  className={`relative w-12 h-6 rounded-full cursor-pointer transition-colors duration-300 ${settings.recordSession ? 'bg-red-900/60 border border-red-500' : 'bg-stone-900 border border-stone-700'}`}
+                  onClick={() => onUpdateSettings({ ...settings, recordSession: !settings.recordSession })}
+                >
+                  <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow-md transition-transform duration-300 ${settings.recordSession ? 'left-[calc(100%-1.2rem)] bg-red-200' : 'left-1 bg-stone-500'}`} />
+                </div>
+              </div>
+              <div className="flex gap-4 mt-3 text-sm">
+                <button 
+                  onClick={handleExportSession}
+                  className="flex-1 px-4 py-2 border border-stone-800 text-stone-500 hover:border-stone-600 hover:text-stone-300 transition-all duration-300"
+                >
+                  {t.downloadSession}
+                </button>
+                <label className="flex-1 px-4 py-2 border border-stone-800 text-stone-500 hover:border-stone-600 hover:text-stone-300 transition-all duration-300 text-center cursor-pointer">
+                  {t.loadSession}
+                  <input type="file" accept="application/json,.json" onChange={handleImportSession} className="hidden" />
+                </label>
+              </div>
+              {sessionMessage && <p className="text-xs text-stone-500 mt-2">{sessionMessage}</p>}
+            </div>
         </div>
 
         <div className="mt-10 flex justify-end">
@@ -124,7 +307,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = React.memo(({ show, o
             onClick={onClose}
             className="px-8 py-2 border border-stone-800 hover:border-red-800 hover:text-red-500 hover:bg-red-950/10 transition-all duration-500 text-stone-400"
           >
-            [ 完成设定 ]
+            {t.done}
           </button>
         </div>
       </div>
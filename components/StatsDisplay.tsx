@@ -0,0 +1,64 @@
+import React from 'react';
+import { PlayerStats, Language } from '../types';
+import { STAT_MAX } from '../services/statRules';
+import { getStrings } from '../services/i18n';
+
+interface StatsDisplayProps {
+  stats: PlayerStats;
+  language: Language;
+}
+
+// No bars or numbers on screen: 阳气 is a candle burning down, 理智 a stick of incense,
+// and low sanity bleeds into the whole view as a pulsing red vignette.
+export const StatsDisplay: React.FC<StatsDisplayProps> = ({ stats, language }) => {
+  const t = getStrings(language);
+  const labelClass = `font-calligraphy text-stone-500 text-sm mt-2 opacity-0 group-hover:opacity-100 transition-opacity ${language === 'zh' ? 'writing-vertical-rl' : ''}`;
+  const vitality = stats.vitality / STAT_MAX;
+  const sanity = stats.sanity / STAT_MAX;
+  const madness = Math.max(0, 1 - sanity * 2); // Only kicks in below half
+
+  return (
+    <>
+      {/* Sanity overlay */}
+      <div
+        className="fixed inset-0 z-[25] pointer-events-none transition-opacity duration-[3000ms]"
+        style={{
+          opacity: madness,
+          background: 'radial-gradient(circle, transparent 35%, rgba(90,0,0,0.55) 100%)',
+          animation: madness > 0 ? `pulse ${Math.max(1, 4 - madness * 3)}s ease-in-out infinite` : undefined,
+          filter: `hue-rotate(${madness * 20}deg)`
+        }}
+      />
+
+      <div className="fixed bottom-8 left-8 z-40 flex items-end gap-6 group">
+        {/* 阳气: candle */}
+        <div className="flex flex-col items-center" title={`${t.vitality} ${stats.vitality}/${STAT_MAX}`}>
+          <div
+            className="w-2 rounded-full bg-amber-300 blur-[1px] transition-all duration-1000 animate-pulse"
+            style={{
+              height: `${6 + vitality * 14}px`,
+              opacity: vitality > 0 ? 0.4 + vitality * 0.6 : 0,
+              boxShadow: `0 0 ${8 + vitality * 20}px rgba(255,170,60,${0.2 + vitality * 0.5})`
+            }}
+          />
+          <div
+            className="w-3 bg-stone-300/80 border-x border-stone-500/50 transition-all duration-1000"
+            style={{ height: `${8 + vitality * 48}px` }}
+          />
+          <span className={labelClass}>{t.vitality}</span>
+        </div>
+
+        {/* 理智: incense */}
+        <div className="flex flex-col items-center" title={`${t.sanity} ${stats.sanity}/${STAT_MAX}`}>
+          <div className="w-[2px] h-2 bg-red-600 shadow-[0_0_6px_rgba(220,38,38,0.9)]" style={{ opacity: sanity > 0 ? 1 : 0 }} />
+          <div
+            className="w-[2px] bg-stone-400/70 transition-all duration-1000"
+            style={{ height: `${4 + sanity * 56}px` }}
+          />
+          <div className="w-4 h-2 bg-stone-700 rounded-t-sm" />
+          <span className={labelClass}>{t.sanity}</span>
+        </div>
+      </div>
+    </>
+  );
+};
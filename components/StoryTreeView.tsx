@@ -0,0 +1,70 @@
+import React from 'react';
+import { StoryTree, StoryNode, Language } from '../types';
+import { getChildren, getPath } from '../services/storyTree';
+import { getStrings } from '../services/i18n';
+
+interface StoryTreeViewProps {
+  show: boolean;
+  tree: StoryTree;
+  currentNodeId: string | null;
+  onJump: (nodeId: string) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+const EXCERPT_LENGTH = 36;
+
+export const StoryTreeView: React.FC<StoryTreeViewProps> = ({ show, tree, currentNodeId, onJump, onClose, language }) => {
+  if (!show) return null;
+
+  const t = getStrings(language);
+
+  const onPath = new Set(getPath(tree, currentNodeId).map(n => n.id));
+
+  const renderNode = (node: StoryNode, depth: number): React.ReactNode => {
+    const isCurrent = node.id === currentNodeId;
+    const children = getChildren(tree, node.id);
+    const excerpt = node.response.narrative.replace(/\s+/g, ' ').slice(0, EXCERPT_LENGTH);
+
+    return (
+      <div key={node.id} style={{ marginLeft: depth === 0 ? 0 : 16 }} className="border-l border-stone-900 pl-3">
+        <button
+          onClick={() => onJump(node.id)}
+          disabled={isCurrent}
+          className={`w-full text-left py-2 px-2 transition-colors duration-300 ${isCurrent ? 'text-red-500 bg-red-950/20' : onPath.has(node.id) ? 'text-stone-300 hover:text-red-500' : 'text-stone-600 hover:text-red-500'}`}
+        >
+          <span className="block text-sm">
+            {node.choice === null ? t.opening : t.quoteChoice(node.choice)}
+            {node.response.isGameOver && <span className="ml-2 text-red-900">{t.ending}</span>}
+          </span>
+          <span className="block text-xs opacity-70 truncate">{excerpt}…</span>
+        </button>
+        {children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const root = tree.rootId ? tree.nodes[tree.rootId] : null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-md">
+      <div className="w-full max-w-2xl p-8 border border-red-900/50 bg-stone-950 text-stone-300 relative shadow-[0_0_30px_rgba(50,0,0,0.3)] max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-calligraphy text-red-800 mb-2 border-b border-red-900/30 pb-2">{t.rewindTitle}</h2>
+        <p className="text-xs text-stone-600 mb-6 font-serif">{t.rewindHint}</p>
+
+        <div className="font-serif">
+          {root ? renderNode(root, 0) : <p className="text-stone-600 italic text-sm">{t.noNodes}</p>}
+        </div>
+
+        <div className="mt-10 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-8 py-2 border border-stone-800 hover:border-red-800 hover:text-red-500 hover:bg-red-950/10 transition-all duration-500 text-stone-400"
+          >
+            {t.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
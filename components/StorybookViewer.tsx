@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { Storybook } from '../types';
+import { getStrings } from '../services/i18n';
+
+interface StorybookViewerProps {
+  book: Storybook | null;
+  onClose: () => void;
+}
+
+// Read-only replay of an exported run, one scene per page. Nothing here touches the game state.
+export const StorybookViewer: React.FC<StorybookViewerProps> = ({ book, onClose }) => {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+  }, [book]);
+
+  useEffect(() => {
+    if (!book) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setIndex(i => Math.min(i + 1, book.pages.length - 1));
+      else if (e.key === 'ArrowLeft') setIndex(i => Math.max(i - 1, 0));
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [book, onClose]);
+
+  if (!book || book.pages.length === 0) return null;
+
+  const t = getStrings(book.language);
+  const page = book.pages[index];
+  const isLast = index === book.pages.length - 1;
+  const items = [
+    page.gained.length ? t.storybookGained(page.gained) : '',
+    page.lost.length ? t.storybookLost(page.lost) : ''
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/95 backdrop-blur-md">
+      <div className="w-full max-w-3xl p-8 border border-red-900/50 bg-stone-950 text-stone-300 relative shadow-[0_0_30px_rgba(50,0,0,0.3)] max-h-[95vh] overflow-y-auto">
+        <div className="flex items-baseline justify-between mb-6 border-b border-red-900/30 pb-2">
+          <h2 className="text-2xl font-calligraphy text-red-800">{book.title}</h2>
+          <span className="text-xs text-stone-600 font-serif tracking-widest">{t.storybookPage(index + 1, book.pages.length)}</span>
+        </div>
+
+        <div className="font-serif">
+          <p className="text-red-700 tracking-widest mb-4">{page.choice === null ? t.opening : t.quoteChoice(page.choice)}</p>
+          {page.image && (
+            <img src={page.image} alt="" className="w-full max-h-[40vh] object-cover mb-6 border border-red-900/30 filter grayscale-[30%]" />
+          )}
+          <p className={`whitespace-pre-line leading-loose text-lg ${page.mood === 'terrifying' ? 'text-red-300' : 'text-stone-300'}`}>{page.narrative}</p>
+          {items && <p className="text-xs text-stone-500 mt-4">{items}</p>}
+          {isLast && page.isGameOver && (
+            <p className="font-calligraphy text-3xl text-red-900 text-center mt-10 tracking-[0.5em]">{t.storybookEnd}</p>
+          )}
+        </div>
+
+        <div className="mt-10 flex justify-between items-center">
+          <div className="flex gap-4">
+            <button
+              onClick={() => setIndex(i => i - 1)}
+              disabled={index === 0}
+              className="px-6 py-2 border border-stone-800 text-stone-400 hover:border-red-800 hover:text-red-500 transition-all duration-500 disabled:opacity-30 disabled:pointer-events-none"
+            >
+              {t.storybookPrev}
+            </button>
+            <button
+              onClick={() => setIndex(i => i + 1)}
+              disabled={isLast}
+              className="px-6 py-2 border border-stone-800 text-stone-400 hover:border-red-800 hover:text-red-500 transition-all duration-500 disabled:opacity-30 disabled:pointer-events-none"
+            >
+              {t.storybookNext}
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-8 py-2 border border-stone-800 hover:border-red-800 hover:text-red-500 hover:bg-red-950/10 transition-all duration-500 text-stone-400"
+          >
+            {t.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
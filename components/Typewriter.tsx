@@ -1,67 +1,90 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { Language } from '../types';
 
 interface TypewriterProps {
   text: string;
   speed?: number;
+  streaming?: boolean; // Text is still arriving; keep typing as it grows and hold onComplete
   onComplete?: () => void;
+  language?: Language;
 }
 
+// Chinese punctuation always pauses; Latin marks only at the end of a word, so "3.14" or "..." mid-word don't stutter
+const CJK_PAUSES = ['，', '。', '？', '！', '…', '\n'];
+const LATIN_PAUSES = ['.', ',', '?', '!', ';', ':', '—'];
+
+const isPause = (char: string, next: string, latin: boolean) => {
+  if (CJK_PAUSES.includes(char)) return true;
+  return latin && LATIN_PAUSES.includes(char) && (next === '' || next === ' ' || next === '\n' || next === '"');
+};
+
 // Strictly memoize to prevent "3x refresh" visual glitches when parent re-renders
-const Typewriter: React.FC<TypewriterProps> = React.memo(({ text, speed = 50, onComplete }) => {
+const Typewriter: React.FC<TypewriterProps> = React.memo(({ text, speed = 50, streaming = false, onComplete, language = 'zh' }) => {
   const [displayedText, setDisplayedText] = useState<string>("");
   const indexRef = useRef(0);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isTypingRef = useRef(false);
+  const targetRef = useRef<string | null>(null);
+  const streamingRef = useRef(streaming);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
 
-  useEffect(() => {
-    // If text is same as fully displayed, don't restart (safety check)
-    if (displayedText === text && text !== "") return;
-
-    // Reset for new text
-    setDisplayedText("");
-    indexRef.current = 0;
-    isTypingRef.current = true;
-    
-    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  const typeChar = () => {
+    const target = targetRef.current || "";
+    if (indexRef.current < target.length) {
+      const char = target.charAt(indexRef.current);
+      setDisplayedText((prev) => prev + char);
+      indexRef.current++;
 
-    const typeChar = () => {
-      if (!isTypingRef.current) return;
+      // Randomize speed for "ghostly" uneven typing
+      let delay = speed + (Math.random() * 60 - 20);
+      
+      // Pause for punctuation
+      if (isPause(char, target.charAt(indexRef.current), language === 'en')) delay += 300;
 
-      if (indexRef.current < text.length) {
-        const char = text.charAt(indexRef.current);
-        setDisplayedText((prev) => prev + char);
-        indexRef.current++;
+      timeoutRef.current = setTimeout(typeChar, delay);
+    } else {
+      // Caught up. While streaming, idle until more text arrives.
+      isTypingRef.current = false;
+      if (!streamingRef.current && onCompleteRef.current) {
+          onCompleteRef.current();
+      }
+    }
+  };
 
-        // Randomize speed for "ghostly" uneven typing
-        let delay = speed + (Math.random() * 60 - 20);
-        
-        // Pause for punctuation
-        if (['，', '。', '？', '！', '…', '\n'].includes(char)) delay += 300; 
+  useEffect(() => {
+    // Growing text (streamed narrative) continues where typing left off
+    const isContinuation = targetRef.current !== null && text.startsWith(targetRef.current);
+    targetRef.current = text;
+    streamingRef.current = streaming;
 
-        timeoutRef.current = setTimeout(typeChar, delay);
-      } else {
-        isTypingRef.current = false;
-        if (onComplete) {
-            onComplete();
-        }
-      }
-    };
+    if (!isContinuation) {
+      // Reset for new text
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      setDisplayedText("");
+      indexRef.current = 0;
+      isTypingRef.current = false;
+    }
 
-    // Initial start delay
-    timeoutRef.current = setTimeout(typeChar, 100);
+    if (!isTypingRef.current) {
+      isTypingRef.current = true;
+      // Initial start delay
+      timeoutRef.current = setTimeout(typeChar, isContinuation ? 0 : 100);
+    }
+  }, [text, streaming]); // Parent re-renders won't trigger this unless text or streaming changes.
 
+  useEffect(() => {
     return () => {
-      isTypingRef.current = false;
       if (timeoutRef.current) clearTimeout(timeoutRef.current);
     };
-  }, [text]); // Only dependency is text. Parent re-renders won't trigger this unless text changes.
+  }, []);
 
   // Render logic to split first char for styling
   const firstChar = displayedText.charAt(0);
   const restText = displayedText.slice(1);
 
   return (
-    <div className="text-ghost font-serif text-lg md:text-2xl whitespace-pre-wrap leading-relaxed tracking-widest" style={{ minHeight: '100px' }}>
+    <div className={`text-ghost font-serif text-lg md:text-2xl whitespace-pre-wrap leading-relaxed ${language === 'zh' ? 'tracking-widest' : 'tracking-wide'}`} style={{ minHeight: '100px' }}>
        {displayedText.length > 0 && (
          <span className="text-blood font-curse text-4xl md:text-5xl mr-2 align-middle inline-block transform -translate-y-1">
            {firstChar}
@@ -71,8 +94,8 @@ const Typewriter: React.FC<TypewriterProps> = React.memo(({ text, speed = 50, on
     </div>
   );
 }, (prev, next) => {
-  // Custom comparison: Only re-render if text prop is different
-  return prev.text === next.text;
+  // Custom comparison: Only re-render if text, streaming state or language is different
+  return prev.text === next.text && prev.streaming === next.streaming && prev.language === next.language;
 });
 
 export default Typewriter;
\ No newline at end of file
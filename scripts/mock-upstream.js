@@ -0,0 +1,73 @@
+import http from 'http';
+
+// A stand-in OpenAI-compatible upstream for trying the server proxy without real keys:
+//
+//   node scripts/mock-upstream.js
+//   LLM_PROVIDER=openai LLM_BASE_URL=http://localhost:8787/v1 LLM_API_KEY=mock node server.js
+//
+// Story requests get a canned scene echoing the player's last message (streamed when asked),
+// image models get a 1x1 PNG as a markdown data URL. Requests without "Bearer mock" get a 401.
+
+const PORT = Number(process.env.MOCK_PORT) || 8787;
+const API_KEY = 'mock';
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+function sceneFor(lastMessage) {
+    return {
+        narrative: `(mock) 你说：「${lastMessage.slice(0, 40)}」。烛火晃了一下，门外传来三声轻叩。`,
+        choices: ["开门", "吹灭蜡烛", "屏住呼吸"],
+        visualPrompt: "a candle in a dark room, a door slightly open",
+        isGameOver: false,
+        mood: "tense"
+    };
+}
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+        if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+            send(res, 404, { error: { message: 'Not found' } });
+            return;
+        }
+        if (req.headers['authorization'] !== `Bearer ${API_KEY}`) {
+            send(res, 401, { error: { message: 'Invalid API key' } });
+            return;
+        }
+
+        const { model = '', messages = [], stream } = JSON.parse(body || '{}');
+        console.log(`[Mock] ${model}${stream ? ' (stream)' : ''}, ${messages.length} messages`);
+
+        if (model.includes('image')) {
+            send(res, 200, { choices: [{ message: { content: `![scene](data:image/png;base64,${PIXEL_PNG})` } }] });
+            return;
+        }
+
+        const content = JSON.stringify(sceneFor(messages[messages.length - 1]?.content || ''));
+        if (!stream) {
+            send(res, 200, { choices: [{ message: { content } }] });
+            return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const pieces = content.match(/[\s\S]{1,12}/g) || [];
+        let i = 0;
+        const timer = setInterval(() => {
+            if (i < pieces.length) {
+                res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: pieces[i++] } }] })}\n\n`);
+            } else {
+                clearInterval(timer);
+                res.end('data: [DONE]\n\n');
+            }
+        }, 20);
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`[Mock] OpenAI-compatible upstream at http://localhost:${PORT}/v1 (API key: "${API_KEY}")`);
+});
@@ -2,68 +2,142 @@ import http from 'http';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { CacheStore } from './server/cacheStore.js';
+import { ImageStore, IMAGE_TYPES } from './server/imageStore.js';
+import { NamespaceCounters } from './server/namespaces.js';
+import { AdminApi } from './server/admin.js';
+import { LlmProxy, proxyConfigFromEnv, isProxyKey, loadScenarios } from './server/llmProxy.js';
+import { SeanceRooms } from './server/seance.js';
+import { sendJson, readBody, hasBearerToken } from './server/httpUtils.js';
+import { TokenBucketLimiter, clientIp } from './server/rateLimit.js';
+import { cacheWriteError, isValidKey } from './server/validation.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const PORT = 8000;
-const CACHE_FILE = path.join(__dirname, 'cache_dump.json');
+const CACHE_DIR = path.join(__dirname, 'cache_store');
+const LEGACY_CACHE_FILE = path.join(__dirname, 'cache_dump.json');
+const IMAGE_DIR = path.join(__dirname, 'image_store');
 const MAX_CACHE_SIZE_BYTES = 1024 * 1024 * 1024; // 1GB
-const SAVE_INTERVAL_MS = 60000; // Save to disk every 1 minute
+const MAX_IMAGE_STORE_BYTES = 2 * 1024 * 1024 * 1024; // 2GB
+// Optional expiry, e.g. CACHE_TTL_DAYS=30. Unset or 0 keeps entries until evicted.
+const CACHE_TTL_DAYS = Number(process.env.CACHE_TTL_DAYS) || 0;
+// Enables /api/admin (stats, key listing, purge, export/import). Unset keeps it disabled.
+// It also authorizes overwriting existing cache keys, which anonymous clients may not do.
+const CACHE_ADMIN_TOKEN = process.env.CACHE_ADMIN_TOKEN || '';
+
+// --- Abuse limits ---
+const MAX_IMAGE_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB
+// Comma list of origins allowed to call the API from other sites ("*" for any). Same-origin needs nothing.
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+// Behind a reverse proxy, limit by X-Forwarded-For instead of the proxy's own address
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const envNumber = (name, fallback) => process.env[name] === undefined ? fallback : Number(process.env[name]);
+// Per client IP; set any of them to 0 to disable that limit
+const limits = {
+    reads: new TokenBucketLimiter({ capacity: envNumber('RATE_LIMIT_READS_PER_MIN', 600), windowMs: MINUTE_MS }),
+    writes: new TokenBucketLimiter({ capacity: envNumber('RATE_LIMIT_WRITES_PER_MIN', 60), windowMs: MINUTE_MS }),
+    // Every proxy call costs real money upstream: a short burst allowance and a daily allowance
+    proxy: new TokenBucketLimiter({ capacity: envNumber('RATE_LIMIT_PROXY_PER_MIN', 20), windowMs: MINUTE_MS }),
+    proxyDaily: new TokenBucketLimiter({ capacity: envNumber('RATE_LIMIT_PROXY_PER_DAY', 500), windowMs: DAY_MS }),
+    rooms: new TokenBucketLimiter({ capacity: envNumber('RATE_LIMIT_ROOMS_PER_HOUR', 10), windowMs: 60 * MINUTE_MS }),
+    writeBytes: new TokenBucketLimiter({ capacity: envNumber('WRITE_QUOTA_MB_PER_DAY', 100) * 1024 * 1024, windowMs: DAY_MS })
+};
 
 // Directory that contains built frontend assets
 const PUBLIC_DIR = path.join(__dirname, 'dist');
 
-// In-memory cache
-let cache = new Map();
+const cache = new CacheStore({
+    dir: CACHE_DIR,
+    maxBytes: MAX_CACHE_SIZE_BYTES,
+    ttlMs: CACHE_TTL_DAYS * 24 * 60 * 60 * 1000
+});
+const images = new ImageStore({ dir: IMAGE_DIR, maxBytes: MAX_IMAGE_STORE_BYTES });
+const counters = new NamespaceCounters();
+const admin = new AdminApi({ token: CACHE_ADMIN_TOKEN, cache, images, counters });
+const proxy = new LlmProxy({
+    config: proxyConfigFromEnv(process.env),
+    cache,
+    images,
+    scenarios: loadScenarios(path.join(__dirname, 'scenarios'))
+});
+const seance = new SeanceRooms({ images, writeQuota: limits.writeBytes });
 
 // --- Persistence Logic ---
 
-function loadCache() {
-    if (fs.existsSync(CACHE_FILE)) {
+async function openCache() {
+    await cache.open();
+    await images.open();
+
+    // One-time move from the old whole-file dump
+    if (fs.existsSync(LEGACY_CACHE_FILE)) {
         try {
-            const raw = fs.readFileSync(CACHE_FILE, 'utf8');
-            const data = JSON.parse(raw);
-            cache = new Map(Object.entries(data));
-            console.log(`[Server] Loaded ${cache.size} entries from disk.`);
+            const imported = await cache.importLegacyDump(LEGACY_CACHE_FILE);
+            fs.renameSync(LEGACY_CACHE_FILE, `${LEGACY_CACHE_FILE}.migrated`);
+            console.log(`[Server] Imported ${imported} entries from cache_dump.json.`);
         } catch (e) {
-            console.error("[Server] Failed to load cache:", e);
+            console.error("[Server] Failed to import cache_dump.json:", e);
         }
     }
 }
 
-function saveCache() {
+function closeCache() {
     try {
-        const obj = Object.fromEntries(cache);
-        const raw = JSON.stringify(obj);
-        fs.writeFileSync(CACHE_FILE, raw);
-        console.log(`[Server] Saved cache to disk. Size: ${(raw.length / 1024 / 1024).toFixed(2)} MB`);
+        cache.closeSync();
     } catch (e) {
-        console.error("[Server] Failed to save cache:", e);
+        console.error("[Server] Failed to write cache index:", e);
     }
+    process.exit(0);
 }
 
-// Check size and evict if needed (Simple LRU approximation)
-function checkSizeLimit() {
-    // Estimating size in memory is hard, we approximate by JSON string length
-    // This is a heavy operation, so we only check periodically or on large inserts
-    // For this simple server, we'll just check the Map size count or do a rough calculation
-    
-    // Quick heuristic: Average entry size
-    const avgEntrySize = 50 * 1024; // Assume 50KB per entry (text + base64 image mixed)
-    const estimatedSize = cache.size * avgEntrySize;
-
-    if (estimatedSize > MAX_CACHE_SIZE_BYTES) {
-        console.log("[Server] Cache limit exceeded. Evicting old entries...");
-        // Delete first 10% of keys (Map preserves insertion order)
-        const keysToDelete = Array.from(cache.keys()).slice(0, Math.ceil(cache.size * 0.1));
-        for (const k of keysToDelete) cache.delete(k);
-    }
+process.on('SIGINT', closeCache);
+process.on('SIGTERM', closeCache);
+
+// --- Images ---
+// Image cache entries hold a reference, { image: "<sha256>", type }, and the bytes are served
+// from GET /api/image/<sha256>. Older clients posted { data: "data:image/png;base64,..." };
+// those are moved to the image store the first time they are seen.
+
+function imageUrl(hash) {
+    return `/api/image/${hash}`;
 }
 
-// Initialize
-loadCache();
-setInterval(saveCache, SAVE_INTERVAL_MS);
+async function externalizeImage(key, value) {
+    const match = typeof value?.data === 'string' && value.data.match(/^data:(image\/[a-z]+);base64,(.*)$/s);
+    if (!match || !IMAGE_TYPES[match[1]]) return value;
+    const { hash, type } = await images.put(Buffer.from(match[2], 'base64'), match[1]);
+    const ref = { image: hash, type };
+    await cache.set(key, ref);
+    return ref;
+}
+
+function sendImage(req, res, hash) {
+    const entry = images.get(hash);
+    if (!entry) {
+        sendJson(res, 404, { success: false, error: 'Not found' });
+        return;
+    }
+    // Content-addressed, so the bytes behind a URL never change
+    const headers = {
+        'Content-Type': entry.type,
+        'ETag': `"${hash}"`,
+        'Cache-Control': 'public, max-age=31536000, immutable'
+    };
+    if (req.headers['if-none-match'] === headers.ETag) {
+        res.writeHead(304, headers);
+        res.end();
+        return;
+    }
+    res.writeHead(200, { ...headers, 'Content-Length': entry.bytes });
+    if (req.method === 'HEAD') {
+        res.end();
+        return;
+    }
+    fs.createReadStream(entry.file).on('error', () => res.destroy()).pipe(res);
+}
 
 // --- HTTP Server ---
 
@@ -77,11 +151,51 @@ const MIME_TYPES = {
     '.svg': 'image/svg+xml'
 };
 
-const server = http.createServer((req, res) => {
-    // Enable CORS for development
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+function applyCors(req, res) {
+    const origin = req.headers['origin'];
+    if (!origin || CORS_ORIGINS.length === 0) return;
+    res.setHeader('Vary', 'Origin');
+    if (!CORS_ORIGINS.includes('*') && !CORS_ORIGINS.includes(origin)) return;
+    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGINS.includes('*') ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Content-Encoding');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Cache, Retry-After');
+}
+
+// Which buckets an API request draws from; admin routes are token-protected instead
+function limitsFor(req, url) {
+    if (!url.pathname.startsWith('/api/') || url.pathname.startsWith('/api/admin/')) return [];
+    if (req.method === 'POST' && (url.pathname === '/api/story' || url.pathname === '/api/image')) return [limits.proxy, limits.proxyDaily];
+    if (req.method === 'POST' && url.pathname === '/api/seance/rooms') return [limits.rooms];
+    if (req.method === 'GET' || req.method === 'HEAD') return [limits.reads];
+    return [limits.writes];
+}
+
+function rejectLimited(res, retryAfterSec, message) {
+    if (retryAfterSec) res.setHeader('Retry-After', String(retryAfterSec));
+    sendJson(res, 429, { success: false, error: message, retryAfter: retryAfterSec });
+}
+
+// Shared write rules for /api/cache and PUT /api/image: byte quota, then no overwriting without the admin token
+function checkWrite(req, res, ip, key, bytes) {
+    if (isProxyKey(key)) {
+        sendJson(res, 403, { success: false, error: 'Reserved for the server proxy' });
+        return false;
+    }
+    const quota = limits.writeBytes.take(ip, bytes);
+    if (!quota.allowed) {
+        rejectLimited(res, quota.retryAfterSec, 'Daily write quota exceeded');
+        return false;
+    }
+    if (cache.has(key) && !hasBearerToken(req, CACHE_ADMIN_TOKEN)) {
+        sendJson(res, 409, { success: false, error: 'Key already exists' });
+        return false;
+    }
+    return true;
+}
+
+const server = http.createServer(async (req, res) => {
+    applyCors(req, res);
 
     if (req.method === 'OPTIONS') {
         res.writeHead(204);
@@ -90,41 +204,103 @@ const server = http.createServer((req, res) => {
     }
 
     const url = new URL(req.url, `http://${req.headers.host}`);
-    
+    const ip = clientIp(req, TRUST_PROXY);
+
+    for (const limiter of limitsFor(req, url)) {
+        const rate = limiter.take(ip);
+        if (!rate.allowed) {
+            rejectLimited(res, rate.retryAfterSec, 'Too many requests');
+            return;
+        }
+    }
+
     // --- API Endpoints ---
-    
+
+    // GET /api/image/<sha256> -> image bytes
+    const imageMatch = url.pathname.match(/^\/api\/image\/([0-9a-f]{64})$/);
+    if (imageMatch && (req.method === 'GET' || req.method === 'HEAD')) {
+        sendImage(req, res, imageMatch[1]);
+        return;
+    }
+
+    // PUT /api/image?key=... with the raw image as body -> stored and referenced from the cache key
+    if (url.pathname === '/api/image' && req.method === 'PUT') {
+        const key = url.searchParams.get('key');
+        const declaredType = (req.headers['content-type'] || '').split(';')[0].trim();
+        if (!isValidKey(key) || !IMAGE_TYPES[declaredType]) {
+            sendJson(res, 400, { success: false, error: 'Invalid key or unsupported Content-Type' });
+            return;
+        }
+        let body;
+        try {
+            body = await readBody(req, MAX_IMAGE_UPLOAD_BYTES);
+        } catch (e) {
+            sendJson(res, e.status || 400, { success: false, error: e.message });
+            return;
+        }
+        if (!checkWrite(req, res, ip, key, body.length)) return;
+        try {
+            const { hash, type } = await images.put(body, declaredType);
+            await cache.set(key, { image: hash, type });
+            sendJson(res, 200, { success: true, image: hash, url: imageUrl(hash) });
+        } catch (e) {
+            // The store sniffs the bytes; anything that isn't really an image ends up here
+            sendJson(res, 415, { success: false, error: e.message });
+        }
+        return;
+    }
+
+    if (await admin.handle(req, res, url)) return;
+    if (await proxy.handle(req, res, url)) return;
+    if (await seance.handle(req, res, url, ip)) return;
+
     if (url.pathname === '/api/cache') {
         if (req.method === 'GET') {
             const key = url.searchParams.get('key');
-            if (cache.has(key)) {
+            let data = key ? await cache.get(key) : undefined;
+            if (data !== undefined) {
+                try {
+                    data = await externalizeImage(key, data);
+                } catch (e) {
+                    // The inline data URL still works; the move is tried again on the next read
+                    console.error(`[Server] Failed to move ${key} to the image store:`, e.message);
+                }
+            }
+            if (data?.image && !images.has(data.image)) {
+                // The image file was evicted; the reference is useless now
+                await cache.delete(key);
+                data = undefined;
+            }
+            if (key) counters.record(key, data !== undefined);
+            if (data !== undefined) {
                 res.writeHead(200, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({ success: true, data: cache.get(key) }));
+                res.end(JSON.stringify({ success: true, data }));
             } else {
                 res.writeHead(404, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: 'Not found' }));
             }
         } 
         else if (req.method === 'POST') {
-            let body = '';
-            req.on('data', chunk => body += chunk);
-            req.on('end', () => {
-                try {
-                    const { key, data } = JSON.parse(body);
-                    if (key && data) {
-                        // Re-insert to update "recently used" position
-                        cache.delete(key); 
-                        cache.set(key, data);
-                        checkSizeLimit();
-                        res.writeHead(200, { 'Content-Type': 'application/json' });
-                        res.end(JSON.stringify({ success: true }));
-                    } else {
-                        throw new Error("Invalid payload");
-                    }
-                } catch (e) {
-                    res.writeHead(400, { 'Content-Type': 'application/json' });
-                    res.end(JSON.stringify({ success: false, error: e.message }));
-                }
-            });
+            let payload;
+            try {
+                payload = JSON.parse((await readBody(req)).toString('utf8'));
+            } catch (e) {
+                sendJson(res, e.status || 400, { success: false, error: e.status ? e.message : 'Invalid JSON' });
+                return;
+            }
+            const { key, data } = payload || {};
+            const invalid = cacheWriteError(key, data);
+            if (invalid) {
+                sendJson(res, 422, { success: false, error: invalid });
+                return;
+            }
+            if (!checkWrite(req, res, ip, key, Buffer.byteLength(JSON.stringify(data)))) return;
+            try {
+                await cache.set(key, data);
+                sendJson(res, 200, { success: true });
+            } catch (e) {
+                sendJson(res, 500, { success: false, error: e.message });
+            }
         }
         return;
     }
@@ -162,9 +338,13 @@ const server = http.createServer((req, res) => {
     });
 });
 
-server.listen(PORT, () => {
-    console.log(`\n=== 幽冥录 (Nether Chronicles) Server ===`);
-    console.log(`Running at http://localhost:${PORT}`);
-    console.log(`Shared Cache: ENABLED (Limit: 1GB)`);
-    console.log(`=========================================\n`);
+openCache().then(() => {
+    server.listen(PORT, () => {
+        console.log(`\n=== 幽冥录 (Nether Chronicles) Server ===`);
+        console.log(`Running at http://localhost:${PORT}`);
+        console.log(`Shared Cache: ENABLED (Limit: 1GB${CACHE_TTL_DAYS ? `, TTL: ${CACHE_TTL_DAYS} days` : ''})`);
+        console.log(`Admin API: ${CACHE_ADMIN_TOKEN ? 'ENABLED' : 'DISABLED (set CACHE_ADMIN_TOKEN)'}`);
+        console.log(`LLM Proxy: ${proxy.enabled ? `ENABLED (${proxy.config.kind}, ${proxy.config.model})` : 'DISABLED (set LLM_API_KEY)'}`);
+        console.log(`=========================================\n`);
+    });
 });
\ No newline at end of file
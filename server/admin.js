@@ -0,0 +1,261 @@
+import readline from 'readline';
+import zlib from 'zlib';
+import { namespaceOf } from './namespaces.js';
+import { sendJson, hasBearerToken } from './httpUtils.js';
+import { IMAGE_TYPES } from './imageStore.js';
+
+// Admin routes under /api/admin, enabled only when CACHE_ADMIN_TOKEN is set.
+// Every request needs "Authorization: Bearer <token>".
+//
+//   GET    /api/admin/stats                 totals, plus entries/bytes/hits/misses per namespace
+//   GET    /api/admin/keys?ns=&prefix=&limit=   keys with size and last access
+//   DELETE /api/admin/key?key=...           one entry
+//   DELETE /api/admin/namespace?ns=...      a whole namespace
+//   POST   /api/admin/purge                 everything
+//   GET    /api/admin/export[?ns=][&gzip=1] NDJSON dump, image bytes inlined as base64
+//   POST   /api/admin/import                NDJSON from /export (send Content-Encoding: gzip if compressed)
+
+const EXPORT_FORMAT = 'nether-chronicles-cache';
+const EXPORT_VERSION = 1;
+const DEFAULT_KEY_LIMIT = 500;
+
+// Writes one line, waiting for the socket to drain so big exports don't pile up in memory.
+// Rejects once the stream is gone (the client hung up), since 'drain' would never come.
+function writeLine(stream, value) {
+    return new Promise((resolve, reject) => {
+        if (stream.destroyed) {
+            reject(new Error('Export stream closed'));
+            return;
+        }
+        if (stream.write(JSON.stringify(value) + '\n')) {
+            resolve();
+            return;
+        }
+        const settle = (error) => {
+            stream.off('drain', onDrain);
+            stream.off('close', onClose);
+            stream.off('error', settle);
+            if (error) reject(error);
+            else resolve();
+        };
+        const onDrain = () => settle();
+        const onClose = () => settle(new Error('Export stream closed'));
+        stream.on('drain', onDrain);
+        stream.on('close', onClose);
+        stream.on('error', settle);
+    });
+}
+
+export class AdminApi {
+    /**
+     * @param {object} options
+     * @param {string} [options.token] - Shared secret; without it every admin route answers 503
+     * @param {import('./cacheStore.js').CacheStore} options.cache
+     * @param {import('./imageStore.js').ImageStore} options.images
+     * @param {import('./namespaces.js').NamespaceCounters} options.counters
+     */
+    constructor({ token, cache, images, counters }) {
+        this.token = token;
+        this.cache = cache;
+        this.images = images;
+        this.counters = counters;
+    }
+
+    /** Handles the request if it is an admin route; returns false otherwise. */
+    async handle(req, res, url) {
+        if (!url.pathname.startsWith('/api/admin/')) return false;
+
+        if (!this.token) {
+            sendJson(res, 503, { success: false, error: 'Admin API disabled (set CACHE_ADMIN_TOKEN)' });
+            return true;
+        }
+        if (!hasBearerToken(req, this.token)) {
+            sendJson(res, 401, { success: false, error: 'Unauthorized' });
+            return true;
+        }
+
+        const route = `${req.method} ${url.pathname.slice('/api/admin'.length)}`;
+        try {
+            switch (route) {
+                case 'GET /stats': return this.stats(res);
+                case 'GET /keys': return this.keys(res, url);
+                case 'DELETE /key': return await this.deleteKey(res, url);
+                case 'DELETE /namespace': return await this.purge(res, url.searchParams.get('ns'));
+                case 'POST /purge': return await this.purge(res, null);
+                case 'GET /export': return await this.export(res, url);
+                case 'POST /import': return await this.import(req, res);
+                default:
+                    sendJson(res, 404, { success: false, error: 'Unknown admin route' });
+                    return true;
+            }
+        } catch (e) {
+            console.error(`[Admin] ${route} failed:`, e);
+            if (!res.headersSent) sendJson(res, 500, { success: false, error: e.message });
+            else res.destroy();
+            return true;
+        }
+    }
+
+    stats(res) {
+        const byNamespace = new Map();
+        const namespace = (ns) => {
+            if (!byNamespace.has(ns)) byNamespace.set(ns, { namespace: ns, entries: 0, bytes: 0, ...this.counters.get(ns) });
+            return byNamespace.get(ns);
+        };
+        for (const { key, bytes } of this.cache.entries()) {
+            const entry = namespace(namespaceOf(key));
+            entry.entries++;
+            entry.bytes += bytes;
+        }
+        this.counters.namespaces().forEach(namespace);
+
+        const namespaces = Array.from(byNamespace.values())
+            .map(ns => ({ ...ns, hitRatio: ns.hits + ns.misses > 0 ? ns.hits / (ns.hits + ns.misses) : null }))
+            .sort((a, b) => b.entries - a.entries);
+
+        sendJson(res, 200, {
+            success: true,
+            since: new Date(this.counters.since).toISOString(),
+            cache: { entries: this.cache.size, bytes: this.cache.totalBytes, maxBytes: this.cache.maxBytes },
+            images: { files: this.images.files.size, bytes: this.images.totalBytes, maxBytes: this.images.maxBytes },
+            namespaces
+        });
+        return true;
+    }
+
+    keys(res, url) {
+        const ns = url.searchParams.get('ns');
+        const prefix = url.searchParams.get('prefix') || '';
+        const limit = Number(url.searchParams.get('limit')) || DEFAULT_KEY_LIMIT;
+
+        // Most recently used first
+        const matching = this.cache.entries()
+            .filter(({ key }) => (!ns || namespaceOf(key) === ns) && key.startsWith(prefix))
+            .reverse();
+        const keys = matching.slice(0, limit).map(({ key, bytes, lastAccess, expiresAt }) => ({
+            key,
+            bytes,
+            lastAccess: new Date(lastAccess).toISOString(),
+            expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null
+        }));
+
+        sendJson(res, 200, { success: true, total: matching.length, keys });
+        return true;
+    }
+
+    async deleteKey(res, url) {
+        const key = url.searchParams.get('key');
+        if (!key) {
+            sendJson(res, 400, { success: false, error: 'Missing key' });
+            return true;
+        }
+        const removed = await this.cache.delete(key);
+        sendJson(res, removed ? 200 : 404, { success: removed, key });
+        return true;
+    }
+
+    // Image files are left alone: they are shared by hash and age out through their own LRU
+    async purge(res, ns) {
+        if (ns === '') {
+            sendJson(res, 400, { success: false, error: 'Missing ns' });
+            return true;
+        }
+        let removed = 0;
+        for (const { key } of this.cache.entries()) {
+            if ((ns === null || namespaceOf(key) === ns) && await this.cache.delete(key)) removed++;
+        }
+        console.log(`[Admin] Purged ${ns === null ? 'all namespaces' : `namespace ${ns}`} (${removed} entries)`);
+        sendJson(res, 200, { success: true, namespace: ns, removed });
+        return true;
+    }
+
+    async export(res, url) {
+        const ns = url.searchParams.get('ns');
+        const gzip = url.searchParams.get('gzip') === '1';
+        const stamp = new Date().toISOString().slice(0, 10);
+
+        res.writeHead(200, {
+            'Content-Type': gzip ? 'application/gzip' : 'application/x-ndjson',
+            'Content-Disposition': `attachment; filename="cache-${ns || 'all'}-${stamp}.ndjson${gzip ? '.gz' : ''}"`
+        });
+        const out = gzip ? zlib.createGzip() : res;
+        if (gzip) {
+            out.pipe(res);
+            res.on('close', () => out.destroy()); // pipe() alone would leave the gzip side waiting
+        }
+
+        let exported = 0;
+        try {
+            await writeLine(out, { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString() });
+            for (const { key } of this.cache.entries()) {
+                if (out.destroyed) break;
+                if (ns && namespaceOf(key) !== ns) continue;
+                const value = await this.cache.peek(key);
+                if (value === undefined) continue;
+                const line = { key, value };
+                if (value?.image) {
+                    const image = await this.images.read(value.image);
+                    if (!image) continue; // Dangling reference
+                    line.imageData = image.buffer.toString('base64');
+                }
+                await writeLine(out, line);
+                exported++;
+            }
+        } catch (e) {
+            if (!out.destroyed && !res.destroyed) throw e;
+        }
+        if (out.destroyed || res.destroyed) {
+            console.log(`[Admin] Export abandoned by the client after ${exported} entries`);
+            return true;
+        }
+        out.end();
+        console.log(`[Admin] Exported ${exported} entries${ns ? ` from ${ns}` : ''}`);
+        return true;
+    }
+
+    async import(req, res) {
+        const input = (req.headers['content-encoding'] || '').includes('gzip') ? req.pipe(zlib.createGunzip()) : req;
+        const lines = readline.createInterface({ input, crlfDelay: Infinity });
+        let imported = 0;
+        let skipped = 0;
+        let header = null;
+
+        for await (const raw of lines) {
+            if (!raw.trim()) continue;
+            const line = JSON.parse(raw);
+            if (!header) {
+                if (line.format !== EXPORT_FORMAT || line.version > EXPORT_VERSION) {
+                    throw new Error('Not a cache export');
+                }
+                header = line;
+                continue;
+            }
+            if (typeof line.key !== 'string' || line.value === undefined) {
+                skipped++;
+                continue;
+            }
+            if (line.value?.image) {
+                // Re-hash on import instead of trusting the exported hash
+                if (typeof line.imageData !== 'string' || !IMAGE_TYPES[line.value.type]) {
+                    skipped++;
+                    continue;
+                }
+                let stored;
+                try {
+                    stored = await this.images.put(Buffer.from(line.imageData, 'base64'), line.value.type);
+                } catch (e) {
+                    skipped++; // Not actually an image
+                    continue;
+                }
+                await this.cache.set(line.key, { image: stored.hash, type: stored.type });
+            } else {
+                await this.cache.set(line.key, line.value);
+            }
+            imported++;
+        }
+
+        console.log(`[Admin] Imported ${imported} entries (${skipped} skipped)`);
+        sendJson(res, 200, { success: true, imported, skipped });
+        return true;
+    }
+}
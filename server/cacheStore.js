@@ -0,0 +1,262 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { writeAtomic } from './fsUtils.js';
+
+// On-disk shared cache: one JSON file per entry, sharded by the first two hex chars of sha256(key).
+// Every write goes to a temp file and is renamed into place, so a crash never leaves a half-written entry.
+// The in-memory index (key -> file, bytes, lastAccess, expiresAt) is flushed to index.json shortly after
+// changes; on startup it is reconciled against the shard files, which remain the source of truth.
+
+const INDEX_FILE = 'index.json';
+const SHARDS_DIR = 'shards';
+const INDEX_FLUSH_DELAY_MS = 5000;
+const EVICT_TARGET_RATIO = 0.9; // Evict down to 90% of the budget so we don't evict on every write
+
+function fileNameFor(key) {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export class CacheStore {
+    /**
+     * @param {object} options
+     * @param {string} options.dir - Directory for index.json and the shard folders
+     * @param {number} options.maxBytes - Byte budget across all entries, as stored on disk
+     * @param {number} [options.ttlMs] - Entries expire this long after their last write (0 = never)
+     */
+    constructor({ dir, maxBytes, ttlMs = 0 }) {
+        this.dir = dir;
+        this.maxBytes = maxBytes;
+        this.ttlMs = ttlMs;
+        // Map iteration order doubles as LRU order: oldest first, re-inserted on every hit
+        this.index = new Map();
+        this.totalBytes = 0;
+        this.flushTimer = null;
+        this.locks = new Map(); // key -> tail of its pending write/delete chain
+    }
+
+    // --- Lifecycle ---
+
+    /** Loads the index and compacts the store: drops temp files, orphans, expired and over-budget entries. */
+    async open() {
+        await fsp.mkdir(path.join(this.dir, SHARDS_DIR), { recursive: true });
+
+        const saved = await this.readIndex();
+        const byFile = new Map(saved.map(entry => [entry.file, entry]));
+        const now = Date.now();
+        const recovered = [];
+        let removed = 0;
+
+        for (const shard of await fsp.readdir(path.join(this.dir, SHARDS_DIR))) {
+            const shardDir = path.join(this.dir, SHARDS_DIR, shard);
+            for (const file of await fsp.readdir(shardDir)) {
+                const filePath = path.join(shardDir, file);
+                if (file.endsWith('.tmp')) {
+                    // Left behind by a crash mid-write
+                    await fsp.rm(filePath, { force: true });
+                    continue;
+                }
+                const name = path.basename(file, '.json');
+                const { size } = await fsp.stat(filePath);
+                let entry = byFile.get(name);
+                if (!entry || entry.bytes !== size) {
+                    // Written (or rewritten) after the last index flush: recover the key from the file itself
+                    try {
+                        const { key, expiresAt = 0 } = JSON.parse(await fsp.readFile(filePath, 'utf8'));
+                        entry = { key, file: name, bytes: size, lastAccess: entry?.lastAccess || now, expiresAt };
+                    } catch (e) {
+                        entry = null;
+                    }
+                }
+                if (!entry || this.isExpired(entry, now)) {
+                    await fsp.rm(filePath, { force: true });
+                    removed++;
+                    continue;
+                }
+                recovered.push(entry);
+            }
+        }
+
+        recovered.sort((a, b) => a.lastAccess - b.lastAccess);
+        for (const entry of recovered) {
+            this.index.set(entry.key, entry);
+            this.totalBytes += entry.bytes;
+        }
+        await this.evictIfNeeded();
+        await this.flushIndex();
+
+        console.log(`[CacheStore] Opened ${this.index.size} entries (${(this.totalBytes / 1024 / 1024).toFixed(2)} MB), removed ${removed} stale files.`);
+    }
+
+    /** Writes the index synchronously; for shutdown handlers. */
+    closeSync() {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+        const indexPath = path.join(this.dir, INDEX_FILE);
+        fs.writeFileSync(`${indexPath}.tmp`, JSON.stringify(Array.from(this.index.values())));
+        fs.renameSync(`${indexPath}.tmp`, indexPath);
+    }
+
+    /** Imports entries from the old single-file cache_dump.json format. */
+    async importLegacyDump(dumpPath) {
+        const data = JSON.parse(await fsp.readFile(dumpPath, 'utf8'));
+        let imported = 0;
+        for (const [key, value] of Object.entries(data)) {
+            if (!this.index.has(key)) {
+                await this.set(key, value);
+                imported++;
+            }
+        }
+        return imported;
+    }
+
+    // --- Entries ---
+
+    has(key) {
+        const entry = this.index.get(key);
+        return !!entry && !this.isExpired(entry, Date.now());
+    }
+
+    /** Returns the stored value, or undefined on a miss. Counts as a use for LRU. */
+    async get(key) {
+        const entry = this.index.get(key);
+        if (!entry) return undefined;
+        if (this.isExpired(entry, Date.now())) {
+            await this.delete(key);
+            return undefined;
+        }
+
+        const value = await this.readValue(key, entry);
+        if (value !== undefined) this.touch(key, entry);
+        return value;
+    }
+
+    /** Like get(), but leaves the LRU order alone (for exports and inspection). */
+    async peek(key) {
+        const entry = this.index.get(key);
+        if (!entry || this.isExpired(entry, Date.now())) return undefined;
+        return this.readValue(key, entry);
+    }
+
+    async set(key, value) {
+        return this.withLock(key, async () => {
+            const file = fileNameFor(key);
+            const expiresAt = this.ttlMs > 0 ? Date.now() + this.ttlMs : 0;
+            const contents = JSON.stringify({ key, value, expiresAt });
+            const filePath = this.pathFor(file);
+
+            await fsp.mkdir(path.dirname(filePath), { recursive: true });
+            await writeAtomic(filePath, contents);
+
+            const previous = this.index.get(key);
+            if (previous) this.forget(key, previous);
+            const entry = { key, file, bytes: Buffer.byteLength(contents), lastAccess: Date.now(), expiresAt };
+            this.index.set(key, entry);
+            this.totalBytes += entry.bytes;
+            this.scheduleFlush();
+
+            await this.evictIfNeeded();
+        });
+    }
+
+    async delete(key) {
+        return this.withLock(key, async () => {
+            const entry = this.index.get(key);
+            if (!entry) return false;
+            this.forget(key, entry);
+            await fsp.rm(this.pathFor(entry.file), { force: true });
+            this.scheduleFlush();
+            return true;
+        });
+    }
+
+    /** Index entries (without values), oldest use first. */
+    entries() {
+        return Array.from(this.index.values());
+    }
+
+    get size() {
+        return this.index.size;
+    }
+
+    // --- Internals ---
+
+    pathFor(file) {
+        return path.join(this.dir, SHARDS_DIR, file.slice(0, 2), `${file}.json`);
+    }
+
+    isExpired(entry, now) {
+        return entry.expiresAt > 0 && entry.expiresAt <= now;
+    }
+
+    async readValue(key, entry) {
+        try {
+            const { value } = JSON.parse(await fsp.readFile(this.pathFor(entry.file), 'utf8'));
+            return value;
+        } catch (e) {
+            // File vanished or is unreadable; forget it
+            if (this.index.get(key) === entry) this.forget(key, entry);
+            return undefined;
+        }
+    }
+
+    touch(key, entry) {
+        entry.lastAccess = Date.now();
+        this.index.delete(key);
+        this.index.set(key, entry);
+        this.scheduleFlush();
+    }
+
+    forget(key, entry) {
+        this.index.delete(key);
+        this.totalBytes -= entry.bytes;
+    }
+
+    // Serializes writes and deletes per key so the index always matches the file that won
+    async withLock(key, task) {
+        const previous = this.locks.get(key) || Promise.resolve();
+        const run = previous.then(task, task);
+        const tail = run.catch(() => {});
+        this.locks.set(key, tail);
+        tail.then(() => {
+            if (this.locks.get(key) === tail) this.locks.delete(key);
+        });
+        return run;
+    }
+
+    async evictIfNeeded() {
+        if (this.totalBytes <= this.maxBytes) return;
+        const target = this.maxBytes * EVICT_TARGET_RATIO;
+        let evicted = 0;
+        for (const [key, entry] of this.index) {
+            if (this.totalBytes <= target) break;
+            this.forget(key, entry);
+            await fsp.rm(this.pathFor(entry.file), { force: true });
+            evicted++;
+        }
+        this.scheduleFlush();
+        console.log(`[CacheStore] Over budget, evicted ${evicted} least recently used entries.`);
+    }
+
+    async readIndex() {
+        try {
+            const saved = JSON.parse(await fsp.readFile(path.join(this.dir, INDEX_FILE), 'utf8'));
+            return Array.isArray(saved) ? saved : [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    scheduleFlush() {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flushIndex().catch(e => console.error("[CacheStore] Failed to write index:", e));
+        }, INDEX_FLUSH_DELAY_MS);
+    }
+
+    async flushIndex() {
+        await writeAtomic(path.join(this.dir, INDEX_FILE), JSON.stringify(Array.from(this.index.values())));
+    }
+}
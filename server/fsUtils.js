@@ -0,0 +1,11 @@
+import fsp from 'fs/promises';
+
+let tmpCounter = 0;
+
+// Write to a temp file next to the target and rename it into place, so readers (and crashes)
+// only ever see the old file or the complete new one
+export async function writeAtomic(filePath, contents) {
+    const tmpPath = `${filePath}.${process.pid}.${tmpCounter++}.tmp`;
+    await fsp.writeFile(tmpPath, contents);
+    await fsp.rename(tmpPath, filePath);
+}
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+export const JSON_BODY_LIMIT = 1024 * 1024; // 1MB: a turn's context with summary, or one story entry
+
+/** An error with the HTTP status it should be answered with. */
+export class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+/** Constant-time string comparison for secrets; always false without a token. */
+export function matchesToken(given, token) {
+    if (!token) return false;
+    const a = Buffer.from(given || '');
+    const b = Buffer.from(token);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Constant-time check of "Authorization: Bearer <token>"; always false without a token. */
+export function hasBearerToken(req, token) {
+    return matchesToken((req.headers['authorization'] || '').replace(/^Bearer\s+/i, ''), token);
+}
+
+export function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/** Buffers the request body; rejects with a 413 HttpError past `maxBytes`. */
+export function readBody(req, maxBytes = JSON_BODY_LIMIT) {
+    return new Promise((resolve, reject) => {
+        const declared = Number(req.headers['content-length']);
+        if (declared > maxBytes) {
+            reject(new HttpError(413, `Body larger than ${maxBytes} bytes`));
+            req.resume(); // Drain so the response can still be sent
+            return;
+        }
+
+        const chunks = [];
+        let received = 0;
+        req.on('data', chunk => {
+            received += chunk.length;
+            if (received > maxBytes) {
+                reject(new HttpError(413, `Body larger than ${maxBytes} bytes`));
+                req.removeAllListeners('data');
+                req.resume();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
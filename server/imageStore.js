@@ -0,0 +1,155 @@
+import fsp from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { writeAtomic } from './fsUtils.js';
+
+// Content-addressed image files: "<dir>/<first two hex chars>/<sha256>.<ext>".
+// The same picture uploaded under many cache keys is stored once. File mtime doubles as the
+// last-access time, so LRU order survives restarts without an index.
+
+export const IMAGE_TYPES = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif'
+};
+
+// Magic numbers; the declared Content-Type is never trusted on its own
+const SIGNATURES = [
+    { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46], at8: [0x57, 0x45, 0x42, 0x50] } // "RIFF....WEBP"
+];
+
+/** The image type `buffer` actually contains, or null if it isn't a supported image. */
+export function sniffImageType(buffer) {
+    const startsWith = (bytes, offset = 0) => bytes.every((byte, i) => buffer[offset + i] === byte);
+    const match = SIGNATURES.find(sig => startsWith(sig.bytes) && (!sig.at8 || startsWith(sig.at8, 8)));
+    return match ? match.type : null;
+}
+
+const TYPE_BY_EXT = Object.fromEntries(Object.entries(IMAGE_TYPES).map(([type, ext]) => [ext, type]));
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const EVICT_TARGET_RATIO = 0.9;
+
+export class ImageStore {
+    /**
+     * @param {object} options
+     * @param {string} options.dir - Root directory for the image files
+     * @param {number} options.maxBytes - Byte budget across all images
+     */
+    constructor({ dir, maxBytes }) {
+        this.dir = dir;
+        this.maxBytes = maxBytes;
+        // hash -> { file, type, bytes }; iteration order is LRU order, oldest first
+        this.files = new Map();
+        this.totalBytes = 0;
+        this.locks = new Map(); // hash -> tail of its pending put chain
+    }
+
+    async open() {
+        await fsp.mkdir(this.dir, { recursive: true });
+        const found = [];
+
+        for (const shard of await fsp.readdir(this.dir)) {
+            const shardDir = path.join(this.dir, shard);
+            for (const file of await fsp.readdir(shardDir)) {
+                const filePath = path.join(shardDir, file);
+                const [hash, ext] = file.split('.');
+                if (file.endsWith('.tmp') || !HASH_PATTERN.test(hash) || !TYPE_BY_EXT[ext]) {
+                    await fsp.rm(filePath, { force: true });
+                    continue;
+                }
+                const { size, mtimeMs } = await fsp.stat(filePath);
+                found.push({ hash, file: filePath, type: TYPE_BY_EXT[ext], bytes: size, mtimeMs });
+            }
+        }
+
+        found.sort((a, b) => a.mtimeMs - b.mtimeMs);
+        for (const { hash, file, type, bytes } of found) {
+            this.files.set(hash, { file, type, bytes });
+            this.totalBytes += bytes;
+        }
+        await this.evictIfNeeded();
+
+        console.log(`[ImageStore] Opened ${this.files.size} images (${(this.totalBytes / 1024 / 1024).toFixed(2)} MB).`);
+    }
+
+    has(hash) {
+        return this.files.has(hash);
+    }
+
+    /** Returns { file, type, bytes } for a stored image and marks it as recently used. */
+    get(hash) {
+        const entry = this.files.get(hash);
+        if (!entry) return null;
+        this.files.delete(hash);
+        this.files.set(hash, entry);
+        const now = new Date();
+        fsp.utimes(entry.file, now, now).catch(() => {});
+        return entry;
+    }
+
+    /** Reads an image's bytes without touching its LRU position (for exports). */
+    async read(hash) {
+        const entry = this.files.get(hash);
+        if (!entry) return null;
+        try {
+            return { type: entry.type, buffer: await fsp.readFile(entry.file) };
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /** Stores image bytes of a supported type; returns { hash, type }. The bytes decide the type. */
+    async put(buffer, declaredType) {
+        const type = sniffImageType(buffer);
+        if (!type) throw new Error(`Not a supported image (declared ${declaredType || 'nothing'})`);
+        if (declaredType && declaredType !== type) {
+            console.warn(`[ImageStore] Declared ${declaredType} but received ${type}, storing as ${type}`);
+        }
+        const ext = IMAGE_TYPES[type];
+
+        const hash = crypto.createHash('sha256').update(buffer).digest('hex');
+        // Two uploads of the same picture would both find it missing and count its bytes twice
+        return this.withLock(hash, async () => {
+            if (this.get(hash)) return { hash, type }; // Already stored, just touched
+
+            const file = path.join(this.dir, hash.slice(0, 2), `${hash}.${ext}`);
+            await fsp.mkdir(path.dirname(file), { recursive: true });
+            await writeAtomic(file, buffer);
+            this.files.set(hash, { file, type, bytes: buffer.length });
+            this.totalBytes += buffer.length;
+
+            await this.evictIfNeeded();
+            return { hash, type };
+        });
+    }
+
+    // Same scheme as CacheStore.withLock: one put per hash at a time
+    async withLock(hash, task) {
+        const previous = this.locks.get(hash) || Promise.resolve();
+        const run = previous.then(task, task);
+        const tail = run.catch(() => {});
+        this.locks.set(hash, tail);
+        tail.then(() => {
+            if (this.locks.get(hash) === tail) this.locks.delete(hash);
+        });
+        return run;
+    }
+
+    async evictIfNeeded() {
+        if (this.totalBytes <= this.maxBytes) return;
+        const target = this.maxBytes * EVICT_TARGET_RATIO;
+        let evicted = 0;
+        for (const [hash, entry] of this.files) {
+            if (this.totalBytes <= target) break;
+            this.files.delete(hash);
+            this.totalBytes -= entry.bytes;
+            await fsp.rm(entry.file, { force: true });
+            evicted++;
+        }
+        console.log(`[ImageStore] Over budget, evicted ${evicted} least recently used images.`);
+    }
+}
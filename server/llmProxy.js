@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { sendJson, readBody } from './httpUtils.js';
+import { generateText, generateImage, defaultBaseUrl, isSupportedKind } from './upstream.js';
+import { cacheWriteError } from './validation.js';
+import { namespaceOf } from './namespaces.js';
+import { MODEL_PROMPTS, buildSystemInstruction } from '../shared/modelPrompts.js';
+import { STORY_LIMITS } from '../shared/storyLimits.js';
+
+// Model calls made on behalf of the browser, so provider keys never leave the server.
+//
+//   GET  /api/proxy   { enabled, provider, models, imageModel } for the settings screen
+//   POST /api/story   { format?, scenarioId, language?, summary?, messages, model?, stream? } -> raw model text
+//                     (streamed as plain text chunks with stream: true; "X-Cache: HIT" when served from cache)
+//   POST /api/image   { prompt } -> { url }
+//
+// The system prompt is always the game's own (format "story": the scenario's turn prompt, "summary":
+// the summary instruction), so the key cannot be borrowed for anything but this game.
+//
+// The proxy caches what it produced under keys it derives from the request itself, in namespaces of
+// its own ("proxy.*", "img.proxy.*") that clients may not write to, so nobody can plant an answer.
+
+const MAX_MESSAGES = 200; // Recent turns plus repair rounds; real requests stay far below
+
+const DEFAULT_MODELS = {
+    gemini: { model: 'gemini-2.5-flash', imageModel: 'gemini-2.5-flash-image' },
+    openai: { model: 'gpt-4o', imageModel: 'gpt-4o-image' }
+};
+
+/**
+ * Reads the proxy configuration:
+ *   LLM_PROVIDER     "gemini" (default) or "openai" (any OpenAI-compatible endpoint)
+ *   LLM_API_KEY      falls back to GEMINI_API_KEY / OPENAI_API_KEY
+ *   LLM_BASE_URL     upstream override, e.g. a local mock
+ *   LLM_MODEL        default text model; LLM_MODELS is a comma list clients may pick from
+ *   LLM_IMAGE_MODEL  image model
+ */
+export function proxyConfigFromEnv(env) {
+    const kind = env.LLM_PROVIDER || 'gemini';
+    if (!isSupportedKind(kind)) {
+        console.error(`[LlmProxy] Unsupported LLM_PROVIDER "${kind}", proxy disabled.`);
+        return null;
+    }
+    const apiKey = env.LLM_API_KEY || (kind === 'openai' ? env.OPENAI_API_KEY : env.GEMINI_API_KEY);
+    if (!apiKey) return null;
+
+    const model = env.LLM_MODEL || DEFAULT_MODELS[kind].model;
+    const models = (env.LLM_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+    return {
+        kind,
+        apiKey,
+        baseUrl: (env.LLM_BASE_URL || defaultBaseUrl(kind)).replace(/\/+$/, ''),
+        model,
+        models: models.includes(model) ? models : [model, ...models],
+        imageModel: env.LLM_IMAGE_MODEL || DEFAULT_MODELS[kind].imageModel
+    };
+}
+
+/** Scenario packs by id, read from the same scenarios/*.json the client bundles. */
+export function loadScenarios(dir) {
+    const scenarios = new Map();
+    if (!fs.existsSync(dir)) return scenarios;
+    for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json'))) {
+        try {
+            const raw = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+            if (typeof raw?.id === 'string' && typeof raw.title === 'string') scenarios.set(raw.id, raw);
+        } catch (e) {
+            console.error(`[LlmProxy] Skipping scenario ${file}:`, e.message);
+        }
+    }
+    return scenarios;
+}
+
+const localize = (scenario, language) => ({ ...scenario, ...(scenario.i18n?.[language] || {}) });
+
+const slug = (text) => text.replace(/[^A-Za-z0-9._-]+/g, '_').slice(0, 80);
+const hashOf = (value) => crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+/** Whether `key` lies in a namespace only the proxy writes. */
+export function isProxyKey(key) {
+    const ns = namespaceOf(key);
+    return ns.startsWith('proxy.') || ns.startsWith('img.proxy.');
+}
+
+// The client repairs sloppy replies; the proxy only keeps ones that already pass the cache's write rules
+function parseStory(key, text) {
+    try {
+        const value = JSON.parse(text);
+        return cacheWriteError(key, value) ? null : value;
+    } catch (e) {
+        return null;
+    }
+}
+
+export class LlmProxy {
+    /**
+     * @param {object} options
+     * @param {ReturnType<typeof proxyConfigFromEnv>} options.config - null disables the proxy
+     * @param {import('./cacheStore.js').CacheStore} options.cache
+     * @param {import('./imageStore.js').ImageStore} options.images
+     * @param {Map<string, object>} options.scenarios - From loadScenarios()
+     */
+    constructor({ config, cache, images, scenarios }) {
+        this.config = config;
+        this.cache = cache;
+        this.images = images;
+        this.scenarios = scenarios;
+    }
+
+    get enabled() {
+        return !!this.config;
+    }
+
+    /** Handles the request if it is a proxy route; returns false otherwise. */
+    async handle(req, res, url) {
+        const route = `${req.method} ${url.pathname}`;
+        if (route !== 'GET /api/proxy' && route !== 'POST /api/story' && route !== 'POST /api/image') return false;
+
+        if (route === 'GET /api/proxy') {
+            sendJson(res, 200, this.config
+                ? { success: true, enabled: true, provider: this.config.kind, models: this.config.models, imageModel: this.config.imageModel }
+                : { success: true, enabled: false });
+            return true;
+        }
+        if (!this.config) {
+            sendJson(res, 503, { success: false, error: 'Server proxy disabled (set LLM_API_KEY)' });
+            return true;
+        }
+
+        let body;
+        try {
+            body = JSON.parse((await readBody(req)).toString('utf8'));
+        } catch (e) {
+            sendJson(res, e.status || 400, { success: false, error: e.status ? e.message : 'Invalid JSON' });
+            return true;
+        }
+
+        try {
+            if (route === 'POST /api/story') await this.story(res, body);
+            else await this.image(res, body);
+        } catch (e) {
+            console.error(`[LlmProxy] ${route} failed:`, e.message);
+            if (!res.headersSent) {
+                // Upstream rate limits stay 429 so the client backs off instead of reporting a broken server
+                const status = e.status === 429 ? 429 : e.name === 'TimeoutError' ? 504 : 502;
+                sendJson(res, status, { success: false, error: e.message, upstreamStatus: e.status });
+            } else {
+                // Mid-stream: cut the connection so the client sees a failed read, not a short story
+                res.destroy();
+            }
+        }
+        return true;
+    }
+
+    async story(res, { format = 'story', scenarioId, language = 'zh', summary = null, messages, model, stream }) {
+        if (format !== 'story' && format !== 'summary') {
+            sendJson(res, 400, { success: false, error: 'format must be "story" or "summary"' });
+            return;
+        }
+        const scenario = this.scenarios.get(scenarioId);
+        if (format === 'story' && !scenario) {
+            sendJson(res, 400, { success: false, error: 'Unknown scenarioId' });
+            return;
+        }
+        const wellFormed = Object.hasOwn(MODEL_PROMPTS, language)
+            && (summary === null || (typeof summary === 'string' && summary.length <= STORY_LIMITS.summary))
+            && Array.isArray(messages) && messages.length > 0 && messages.length <= MAX_MESSAGES
+            && messages.every(m => (m?.role === 'user' || m?.role === 'model') && typeof m.text === 'string');
+        if (!wellFormed) {
+            sendJson(res, 400, { success: false, error: 'Expected language, summary and messages: [{ role, text }]' });
+            return;
+        }
+
+        const request = {
+            model: this.config.models.includes(model) ? model : this.config.model,
+            systemInstruction: format === 'story'
+                ? buildSystemInstruction(language, localize(scenario, language), summary)
+                : MODEL_PROMPTS[language].summaryInstruction,
+            messages: messages.map(({ role, text }) => ({ role, text })),
+            format: format === 'story' ? 'story' : 'text'
+        };
+        // Summaries are not worth keeping; turns are, keyed by exactly what the model sees
+        const cacheKey = format === 'story' ? `proxy.${this.config.kind}.${slug(request.model)}/${hashOf(request)}` : null;
+
+        if (cacheKey) {
+            const cached = await this.cache.get(cacheKey);
+            if (cached?.narrative) {
+                res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Cache': 'HIT' });
+                res.end(JSON.stringify(cached));
+                return;
+            }
+        }
+
+        let text;
+        if (stream) {
+            // Headers go out with the first chunk, so an upstream failure before it can still be a 502
+            text = await generateText(this.config, {
+                ...request,
+                onChunk: (chunk) => {
+                    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Cache': 'MISS' });
+                    res.write(chunk);
+                }
+            });
+            if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Cache': 'MISS' });
+            res.end();
+        } else {
+            text = await generateText(this.config, request);
+            res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Cache': 'MISS' });
+            res.end(text);
+        }
+
+        const story = cacheKey ? parseStory(cacheKey, text) : null;
+        if (story) await this.cache.set(cacheKey, story);
+    }
+
+    async image(res, { prompt }) {
+        if (typeof prompt !== 'string' || !prompt) {
+            sendJson(res, 400, { success: false, error: 'Missing prompt' });
+            return;
+        }
+
+        const cacheKey = `img.proxy.${this.config.kind}.${slug(this.config.imageModel)}/${hashOf(prompt)}`;
+        const cached = await this.cache.get(cacheKey);
+        if (cached?.image && this.images.has(cached.image)) {
+            sendJson(res, 200, { success: true, url: `/api/image/${cached.image}`, cached: true });
+            return;
+        }
+        if (typeof cached?.url === 'string') {
+            sendJson(res, 200, { success: true, url: cached.url, cached: true });
+            return;
+        }
+
+        const result = await generateImage(this.config, prompt);
+        if (!result) {
+            sendJson(res, 200, { success: true, url: null });
+            return;
+        }
+
+        if (result.url) {
+            await this.cache.set(cacheKey, { url: result.url });
+            sendJson(res, 200, { success: true, url: result.url });
+            return;
+        }
+        const { hash, type } = await this.images.put(result.buffer, result.type);
+        await this.cache.set(cacheKey, { image: hash, type });
+        sendJson(res, 200, { success: true, url: `/api/image/${hash}` });
+    }
+}
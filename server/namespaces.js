@@ -0,0 +1,33 @@
+// Client keys look like "<namespace>/<hash>" (provider, model, prompt and schema version).
+// Keys from before namespaces have no prefix and are grouped as "legacy".
+
+export const LEGACY_NAMESPACE = 'legacy';
+
+export function namespaceOf(key) {
+    const slash = key.indexOf('/');
+    return slash === -1 ? LEGACY_NAMESPACE : key.slice(0, slash);
+}
+
+// Hit/miss counts per namespace since the server started
+export class NamespaceCounters {
+    constructor() {
+        this.since = Date.now();
+        this.counts = new Map(); // namespace -> { hits, misses }
+    }
+
+    record(key, hit) {
+        const ns = namespaceOf(key);
+        const count = this.counts.get(ns) || { hits: 0, misses: 0 };
+        if (hit) count.hits++;
+        else count.misses++;
+        this.counts.set(ns, count);
+    }
+
+    get(ns) {
+        return this.counts.get(ns) || { hits: 0, misses: 0 };
+    }
+
+    namespaces() {
+        return Array.from(this.counts.keys());
+    }
+}
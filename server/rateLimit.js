@@ -0,0 +1,58 @@
+// Per-client token buckets. A bucket holds up to `capacity` tokens and refills continuously at
+// `capacity / windowMs`; a request takes `cost` tokens or is refused with the time until it could pass.
+// The same class covers request rates (cost 1) and byte quotas (cost = bytes written).
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class TokenBucketLimiter {
+    /**
+     * @param {object} options
+     * @param {number} options.capacity - Burst size; 0 or less disables the limiter
+     * @param {number} options.windowMs - Time for an empty bucket to refill completely
+     */
+    constructor({ capacity, windowMs }) {
+        this.capacity = capacity;
+        this.refillPerMs = capacity / windowMs;
+        this.buckets = new Map(); // client -> { tokens, updatedAt }
+
+        // Full buckets carry no information; drop them so idle clients don't pile up
+        this.sweeper = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+        this.sweeper.unref();
+    }
+
+    /** Returns { allowed: true } or { allowed: false, retryAfterSec }. */
+    take(client, cost = 1) {
+        if (this.capacity <= 0) return { allowed: true };
+
+        const now = Date.now();
+        const bucket = this.buckets.get(client) || { tokens: this.capacity, updatedAt: now };
+        bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+        bucket.updatedAt = now;
+        this.buckets.set(client, bucket);
+
+        if (cost > this.capacity) return { allowed: false, retryAfterSec: null }; // Never fits
+        if (bucket.tokens >= cost) {
+            bucket.tokens -= cost;
+            return { allowed: true };
+        }
+        return { allowed: false, retryAfterSec: Math.ceil((cost - bucket.tokens) / this.refillPerMs / 1000) };
+    }
+
+    sweep() {
+        const now = Date.now();
+        for (const [client, bucket] of this.buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.capacity) {
+                this.buckets.delete(client);
+            }
+        }
+    }
+}
+
+/** Client identity for limiting: the socket address, or the first X-Forwarded-For hop behind a trusted proxy. */
+export function clientIp(req, trustProxy) {
+    if (trustProxy) {
+        const forwarded = (req.headers['x-forwarded-for'] || '').split(',')[0].trim();
+        if (forwarded) return forwarded;
+    }
+    return req.socket.remoteAddress || 'unknown';
+}
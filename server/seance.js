@@ -0,0 +1,361 @@
+import crypto from 'crypto';
+import { sendJson, readBody, hasBearerToken, matchesToken } from './httpUtils.js';
+import { IMAGE_TYPES } from './imageStore.js';
+
+// Séance rooms: one browser (the host) plays, everyone else in the room sees the same scene and
+// votes on its choices against a countdown. The host's GameService still does all the work; the
+// server only relays scenes and counts votes.
+//
+//   POST   /api/seance/rooms                  -> { code, hostToken }
+//   GET    /api/seance/rooms/<code>/events?client=&role=&name=[&token=]
+//                                             Server-Sent Events: a "state" event on every change,
+//                                             "closed" when the host ends the room
+//   POST   /api/seance/rooms/<code>/scene     host: { turn, narrative, choices, mood, isGameOver, image?, voteSeconds? }
+//   POST   /api/seance/rooms/<code>/vote      { client, turn, choice } (choice index, null takes the vote back)
+//   POST   /api/seance/rooms/<code>/resolve   host: end the countdown now
+//   DELETE /api/seance/rooms/<code>           host: close the room
+//
+// Host routes need "Authorization: Bearer <hostToken>" (the host's event stream passes it as
+// ?token=, EventSource can't set headers). Members are known by a client id their browser keeps,
+// so a dropped connection (EventSource reconnects by itself) comes back with its name and vote.
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread off a screen
+const CODE_LENGTH = 4;
+const CLIENT_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const ROLES = ['host', 'player', 'spectator'];
+
+const MAX_ROOMS = 100;
+const MAX_ROOMS_PER_IP = 3;
+const MAX_MEMBERS = 32;
+const MAX_NAME_LENGTH = 24;
+const MAX_CHOICES = 8;
+const MAX_NARRATIVE_LENGTH = 20000;
+const SCENE_BODY_LIMIT = 16 * 1024 * 1024; // A 10MB image, base64-encoded
+const DEFAULT_VOTE_SECONDS = 30;
+const MIN_VOTE_SECONDS = 5;
+const MAX_VOTE_SECONDS = 300;
+const HEARTBEAT_MS = 25 * 1000; // Keeps idle streams open through proxies
+const ROOM_IDLE_MS = 6 * 60 * 60 * 1000; // Rooms nobody is connected to are dropped after this
+const ROOM_UNCLAIMED_MS = 5 * 60 * 1000; // ...or after this if nobody ever connected at all
+
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+
+export class SeanceRooms {
+    /**
+     * @param {object} options
+     * @param {import('./imageStore.js').ImageStore} options.images - Where scene images uploaded by hosts go
+     * @param {import('./rateLimit.js').TokenBucketLimiter} options.writeQuota - Byte quota those uploads draw from
+     */
+    constructor({ images, writeQuota }) {
+        this.images = images;
+        this.writeQuota = writeQuota;
+        this.rooms = new Map(); // code -> room
+
+        this.ticker = setInterval(() => this.tick(), HEARTBEAT_MS);
+        this.ticker.unref();
+    }
+
+    /** Handles the request if it is a séance route; returns false otherwise. */
+    async handle(req, res, url, ip) {
+        if (!url.pathname.startsWith('/api/seance/')) return false;
+
+        if (req.method === 'POST' && url.pathname === '/api/seance/rooms') {
+            this.create(res, ip);
+            return true;
+        }
+
+        const match = url.pathname.match(/^\/api\/seance\/rooms\/([A-Z0-9]+)(?:\/(events|scene|vote|resolve))?$/);
+        const room = match && this.rooms.get(match[1]);
+        if (!room) {
+            sendJson(res, 404, { success: false, error: 'No such room' });
+            return true;
+        }
+
+        const route = `${req.method} ${match[2] || 'room'}`;
+        const hostOnly = route === 'POST scene' || route === 'POST resolve' || route === 'DELETE room';
+        if (hostOnly && !hasBearerToken(req, room.hostToken)) {
+            sendJson(res, 401, { success: false, error: 'Only the host can do that' });
+            return true;
+        }
+
+        try {
+            switch (route) {
+                case 'GET events': return this.subscribe(req, res, url, room);
+                case 'POST scene': return await this.scene(req, res, ip, room);
+                case 'POST vote': return await this.vote(req, res, room);
+                case 'POST resolve':
+                    this.resolve(room);
+                    sendJson(res, 200, { success: true });
+                    return true;
+                case 'DELETE room':
+                    this.close(room);
+                    sendJson(res, 200, { success: true });
+                    return true;
+                default:
+                    sendJson(res, 404, { success: false, error: 'Unknown séance route' });
+                    return true;
+            }
+        } catch (e) {
+            console.error(`[Seance] ${route} ${room.code} failed:`, e);
+            if (!res.headersSent) sendJson(res, e.status || 500, { success: false, error: e.message });
+            return true;
+        }
+    }
+
+    create(res, ip) {
+        if (this.rooms.size >= MAX_ROOMS) {
+            sendJson(res, 503, { success: false, error: 'Too many open rooms' });
+            return;
+        }
+        // At the per-address cap, a room of theirs that nobody is connected to (a closed tab) makes way
+        const opened = Array.from(this.rooms.values()).filter(room => room.ip === ip);
+        if (opened.length >= MAX_ROOMS_PER_IP) {
+            const abandoned = opened.filter(room => !this.connected(room)).sort((a, b) => a.touchedAt - b.touchedAt)[0];
+            if (!abandoned) {
+                sendJson(res, 429, { success: false, error: 'Too many rooms open from this address' });
+                return;
+            }
+            this.close(abandoned);
+        }
+        let code;
+        do {
+            code = Array.from(crypto.randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+        } while (this.rooms.has(code));
+
+        const room = {
+            code,
+            hostToken: crypto.randomBytes(24).toString('base64url'),
+            turn: 0,
+            scene: null,
+            vote: null, // { endsAt, votes: Map<client, index>, closed, winner, timer }
+            members: new Map(), // client -> { name, role, streams: Set<res> }
+            ip, // Who opened it, for the per-address cap
+            claimed: false, // Set once any event stream connects
+            touchedAt: Date.now()
+        };
+        this.rooms.set(code, room);
+        console.log(`[Seance] Room ${code} opened`);
+        sendJson(res, 200, { success: true, code, hostToken: room.hostToken });
+    }
+
+    subscribe(req, res, url, room) {
+        const client = url.searchParams.get('client') || '';
+        const role = url.searchParams.get('role') || 'player';
+        if (!CLIENT_PATTERN.test(client) || !ROLES.includes(role)) {
+            sendJson(res, 400, { success: false, error: 'Expected client id and role' });
+            return true;
+        }
+        if (role === 'host' && !matchesToken(url.searchParams.get('token'), room.hostToken)) {
+            sendJson(res, 401, { success: false, error: 'Invalid host token' });
+            return true;
+        }
+
+        let member = room.members.get(client);
+        if (!member) {
+            if (room.members.size >= MAX_MEMBERS) {
+                sendJson(res, 403, { success: false, error: 'Room is full' });
+                return true;
+            }
+            member = { name: '', role, streams: new Set() };
+            room.members.set(client, member);
+        }
+        member.role = role;
+        member.name = (url.searchParams.get('name') || '').trim().slice(0, MAX_NAME_LENGTH) || member.name;
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.write('retry: 3000\n\n');
+        member.streams.add(res);
+        room.claimed = true;
+        req.on('close', () => {
+            member.streams.delete(res);
+            room.touchedAt = Date.now();
+            // Spectators who leave are forgotten; players keep their seat and vote for when they reconnect
+            if (member.streams.size === 0 && member.role === 'spectator') room.members.delete(client);
+            this.broadcast(room);
+        });
+        this.broadcast(room);
+        return true;
+    }
+
+    async scene(req, res, ip, room) {
+        let body;
+        try {
+            body = JSON.parse((await readBody(req, SCENE_BODY_LIMIT)).toString('utf8'));
+        } catch (e) {
+            sendJson(res, e.status || 400, { success: false, error: e.status ? e.message : 'Invalid JSON' });
+            return true;
+        }
+
+        const { turn, narrative, choices, mood, isGameOver, image, voteSeconds } = body || {};
+        const wellFormed = Number.isInteger(turn) && typeof narrative === 'string' && narrative.length <= MAX_NARRATIVE_LENGTH
+            && Array.isArray(choices) && choices.length <= MAX_CHOICES && choices.every(c => typeof c === 'string' && c.length <= 200);
+        if (!wellFormed) {
+            sendJson(res, 400, { success: false, error: 'Expected turn, narrative and choices' });
+            return true;
+        }
+        if (turn < room.turn) {
+            sendJson(res, 409, { success: false, error: 'A newer scene was already published' });
+            return true;
+        }
+
+        const imageUrl = await this.storeImage(res, ip, image);
+        if (imageUrl === undefined) return true; // Already answered
+
+        const scene = { narrative, choices, mood: typeof mood === 'string' ? mood : 'eerie', isGameOver: isGameOver === true, image: imageUrl };
+        if (turn === room.turn && room.scene) {
+            // Same turn: the image arrived, or the text was corrected; votes stand
+            room.scene = scene;
+        } else {
+            this.clearVote(room);
+            room.turn = turn;
+            room.scene = scene;
+            if (choices.length > 0 && !scene.isGameOver) {
+                const seconds = clamp(Number(voteSeconds) || DEFAULT_VOTE_SECONDS, MIN_VOTE_SECONDS, MAX_VOTE_SECONDS);
+                room.vote = { endsAt: Date.now() + seconds * 1000, votes: new Map(), closed: false, winner: null, timer: null };
+                room.vote.timer = setTimeout(() => this.resolve(room), seconds * 1000);
+            }
+        }
+        room.touchedAt = Date.now();
+        this.broadcast(room);
+        sendJson(res, 200, { success: true, image: imageUrl });
+        return true;
+    }
+
+    // data: URLs go to the image store (object URLs mean nothing to other browsers); links pass through.
+    // Resolves to the URL to show (null for none), or undefined once an error response was sent.
+    async storeImage(res, ip, image) {
+        if (typeof image !== 'string' || !image) return null;
+        if (/^(https?:\/\/|\/)/.test(image)) return image;
+
+        const match = image.match(/^data:(image\/[a-z]+);base64,(.*)$/s);
+        if (!match || !IMAGE_TYPES[match[1]]) return null;
+        const buffer = Buffer.from(match[2], 'base64');
+        const quota = this.writeQuota.take(ip, buffer.length);
+        if (!quota.allowed) {
+            if (quota.retryAfterSec) res.setHeader('Retry-After', String(quota.retryAfterSec));
+            sendJson(res, 429, { success: false, error: 'Daily write quota exceeded', retryAfter: quota.retryAfterSec });
+            return undefined;
+        }
+        try {
+            const { hash } = await this.images.put(buffer, match[1]);
+            return `/api/image/${hash}`;
+        } catch (e) {
+            console.warn(`[Seance] Scene image rejected: ${e.message}`);
+            return null;
+        }
+    }
+
+    async vote(req, res, room) {
+        let body;
+        try {
+            body = JSON.parse((await readBody(req)).toString('utf8'));
+        } catch (e) {
+            sendJson(res, e.status || 400, { success: false, error: e.status ? e.message : 'Invalid JSON' });
+            return true;
+        }
+
+        const { client, turn, choice } = body || {};
+        const member = room.members.get(client);
+        if (!member || member.role !== 'player') {
+            sendJson(res, 403, { success: false, error: 'Only seated players vote' });
+            return true;
+        }
+        if (!room.vote || room.vote.closed || turn !== room.turn) {
+            sendJson(res, 409, { success: false, error: 'Voting is closed for this scene' });
+            return true;
+        }
+        if (choice === null) {
+            room.vote.votes.delete(client);
+        } else if (Number.isInteger(choice) && choice >= 0 && choice < room.scene.choices.length) {
+            room.vote.votes.set(client, choice);
+        } else {
+            sendJson(res, 400, { success: false, error: 'No such choice' });
+            return true;
+        }
+        room.touchedAt = Date.now();
+        this.broadcast(room);
+        sendJson(res, 200, { success: true });
+        return true;
+    }
+
+    /** Closes the vote: most votes wins, ties (and a silent table) are left to chance. */
+    resolve(room) {
+        const vote = room.vote;
+        if (!vote || vote.closed) return;
+        clearTimeout(vote.timer);
+
+        const tally = this.tally(room);
+        const top = Math.max(...tally);
+        const tied = tally.map((count, index) => count === top ? index : -1).filter(index => index >= 0);
+        vote.winner = tied.length > 0 ? tied[crypto.randomInt(tied.length)] : null;
+        vote.closed = true;
+        console.log(`[Seance] Room ${room.code} turn ${room.turn}: choice ${vote.winner} (${tally.join('/')})`);
+        this.broadcast(room);
+    }
+
+    close(room) {
+        this.clearVote(room);
+        this.rooms.delete(room.code);
+        room.members.forEach(member => member.streams.forEach(stream => {
+            stream.write('event: closed\ndata: {}\n\n');
+            stream.end();
+        }));
+        console.log(`[Seance] Room ${room.code} closed`);
+    }
+
+    clearVote(room) {
+        if (room.vote) clearTimeout(room.vote.timer);
+        room.vote = null;
+    }
+
+    tally(room) {
+        const tally = (room.scene?.choices || []).map(() => 0);
+        room.vote?.votes.forEach(index => {
+            if (index < tally.length) tally[index]++;
+        });
+        return tally;
+    }
+
+    // What one member sees; `you` carries their own vote so a reconnecting browser can show it again
+    snapshot(room, client) {
+        const member = room.members.get(client);
+        const vote = room.vote;
+        return {
+            code: room.code,
+            turn: room.turn,
+            scene: room.scene,
+            vote: vote ? { endsAt: vote.endsAt, tally: this.tally(room), closed: vote.closed, winner: vote.winner } : null,
+            members: Array.from(room.members.values()).map(m => ({ name: m.name, role: m.role, connected: m.streams.size > 0 })),
+            you: { role: member?.role || 'spectator', vote: vote?.votes.get(client) ?? null },
+            serverTime: Date.now()
+        };
+    }
+
+    broadcast(room) {
+        room.members.forEach((member, client) => {
+            if (member.streams.size === 0) return;
+            const event = `event: state\ndata: ${JSON.stringify(this.snapshot(room, client))}\n\n`;
+            member.streams.forEach(stream => stream.write(event));
+        });
+    }
+
+    connected(room) {
+        return Array.from(room.members.values()).some(member => member.streams.size > 0);
+    }
+
+    tick() {
+        const now = Date.now();
+        this.rooms.forEach(room => {
+            if (!this.connected(room) && now - room.touchedAt > (room.claimed ? ROOM_IDLE_MS : ROOM_UNCLAIMED_MS)) {
+                this.close(room);
+                return;
+            }
+            room.members.forEach(member => member.streams.forEach(stream => stream.write(': ping\n\n')));
+        });
+    }
+}
@@ -0,0 +1,174 @@
+// Minimal server-side clients for the model backends the proxy can hold keys for.
+// "gemini" speaks the Generative Language REST API, "openai" any OpenAI-compatible chat endpoint
+// (OpenAI itself, most proxies, and scripts/mock-upstream.js).
+
+const DEFAULT_BASE_URLS = {
+    gemini: 'https://generativelanguage.googleapis.com',
+    openai: 'https://api.openai.com/v1'
+};
+
+const MAX_OUTPUT_TOKENS = 2000;
+
+// Whole-call limits, streamed replies included; a stalled upstream would otherwise hold the
+// player's request open for as long as the connection lasts
+const TEXT_TIMEOUT_MS = 120_000;
+const IMAGE_TIMEOUT_MS = 180_000;
+
+export function defaultBaseUrl(kind) {
+    return DEFAULT_BASE_URLS[kind];
+}
+
+async function failIfNotOk(response, label) {
+    if (response.ok) return;
+    const detail = await response.text().catch(() => '');
+    const error = new Error(`${label} request failed (${response.status}): ${detail.slice(0, 300)}`);
+    error.status = response.status;
+    throw error;
+}
+
+// Reads "data: {...}" SSE frames and passes each parsed payload to `onEvent`
+async function readSse(body, onEvent) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+            try {
+                onEvent(JSON.parse(payload));
+            } catch (e) {
+                // Keep-alive comments or partial frames, skip
+            }
+        }
+    }
+}
+
+// --- Gemini ---
+
+async function geminiText({ apiKey, baseUrl, model, systemInstruction, messages, format, onChunk }) {
+    const method = onChunk ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    const response = await fetch(`${baseUrl}/v1beta/models/${model}:${method}`, {
+        method: 'POST',
+        signal: AbortSignal.timeout(TEXT_TIMEOUT_MS),
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+            systemInstruction: { parts: [{ text: systemInstruction }] },
+            contents: messages.map(m => ({ role: m.role === 'model' ? 'model' : 'user', parts: [{ text: m.text }] })),
+            generationConfig: format === 'story'
+                ? { responseMimeType: 'application/json', maxOutputTokens: MAX_OUTPUT_TOKENS }
+                : { maxOutputTokens: MAX_OUTPUT_TOKENS }
+        })
+    });
+    await failIfNotOk(response, 'Gemini');
+
+    const textOf = (data) => (data.candidates?.[0]?.content?.parts || []).map(p => p.text || '').join('');
+    if (!onChunk) return textOf(await response.json());
+
+    let text = '';
+    await readSse(response.body, data => {
+        const delta = textOf(data);
+        if (delta) {
+            text += delta;
+            onChunk(delta);
+        }
+    });
+    return text;
+}
+
+async function geminiImage({ apiKey, baseUrl, imageModel, prompt }) {
+    const response = await fetch(`${baseUrl}/v1beta/models/${imageModel}:generateContent`, {
+        method: 'POST',
+        signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS),
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] })
+    });
+    await failIfNotOk(response, 'Gemini image');
+
+    const data = await response.json();
+    const part = (data.candidates?.[0]?.content?.parts || []).find(p => p.inlineData);
+    if (!part) return null;
+    return { type: part.inlineData.mimeType || 'image/png', buffer: Buffer.from(part.inlineData.data, 'base64') };
+}
+
+// --- OpenAI-compatible ---
+
+async function openaiText({ apiKey, baseUrl, model, systemInstruction, messages, format, onChunk }) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal: AbortSignal.timeout(TEXT_TIMEOUT_MS),
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+        body: JSON.stringify({
+            model,
+            messages: [
+                { role: 'system', content: systemInstruction },
+                ...messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+            ],
+            ...(format === 'story' ? { response_format: { type: 'json_object' } } : {}),
+            stream: !!onChunk
+        })
+    });
+    await failIfNotOk(response, 'OpenAI');
+
+    if (!onChunk) {
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content || '';
+    }
+
+    let text = '';
+    await readSse(response.body, data => {
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) {
+            text += delta;
+            onChunk(delta);
+        }
+    });
+    return text;
+}
+
+// Chat-style image models answer with a markdown image or a bare link; data: URLs come back as bytes
+async function openaiImage({ apiKey, baseUrl, imageModel, prompt }) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS),
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+        body: JSON.stringify({ model: imageModel, messages: [{ role: 'user', content: prompt }], stream: false })
+    });
+    await failIfNotOk(response, 'OpenAI image');
+
+    const content = (await response.json()).choices?.[0]?.message?.content || '';
+    const link = (content.match(/!\[.*?\]\((.*?)\)/) || content.match(/((?:https?:\/\/|data:)[^\s)]+)/))?.[1];
+    if (!link) return null;
+
+    const inline = link.match(/^data:(image\/[a-z]+);base64,(.*)$/s);
+    if (inline) return { type: inline[1], buffer: Buffer.from(inline[2], 'base64') };
+    return { url: link };
+}
+
+const CLIENTS = {
+    gemini: { text: geminiText, image: geminiImage },
+    openai: { text: openaiText, image: openaiImage }
+};
+
+/** Returns the model's raw reply text; `onChunk` switches to streaming. */
+export function generateText(config, request) {
+    return CLIENTS[config.kind].text({ ...config, ...request });
+}
+
+/** Returns { type, buffer } for generated bytes, { url } for a hosted image, or null. */
+export function generateImage(config, prompt) {
+    return CLIENTS[config.kind].image({ ...config, prompt });
+}
+
+export function isSupportedKind(kind) {
+    return kind in CLIENTS;
+}
@@ -0,0 +1,73 @@
+// Shape checks for what clients may write into the shared cache. The client already validates
+// (services/storySchema.ts); this is the server refusing anything that couldn't have come from it.
+
+import { STORY_LIMITS as LIMITS } from '../shared/storyLimits.js';
+
+const KEY_PATTERN = /^(?:[A-Za-z0-9._-]{1,160}\/)?[0-9a-f]{64}$/;
+const IMAGE_NAMESPACE_PREFIX = 'img.';
+
+const STORY_FIELDS = new Set(['narrative', 'choices', 'visualPrompt', 'isGameOver', 'flashReveal', 'mood', 'inventoryUpdates', 'statUpdates']);
+
+const isString = (value, max) => typeof value === 'string' && value.length <= max;
+const isPlainObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+export function isValidKey(key) {
+    return typeof key === 'string' && KEY_PATTERN.test(key);
+}
+
+export function isImageKey(key) {
+    return key.startsWith(IMAGE_NAMESPACE_PREFIX);
+}
+
+function storyError(value) {
+    if (!isPlainObject(value)) return 'story must be an object';
+    const unknown = Object.keys(value).filter(field => !STORY_FIELDS.has(field));
+    if (unknown.length > 0) return `unknown story fields: ${unknown.join(', ')}`;
+
+    if (!isString(value.narrative, LIMITS.narrative) || !value.narrative.trim()) return 'narrative must be a non-empty string';
+    if (!Array.isArray(value.choices) || value.choices.length > LIMITS.choices
+        || !value.choices.every(choice => isString(choice, LIMITS.choice))) return 'choices must be a short list of strings';
+    if (typeof value.isGameOver !== 'boolean') return 'isGameOver must be a boolean';
+    if (value.flashReveal !== undefined && typeof value.flashReveal !== 'boolean') return 'flashReveal must be a boolean';
+    if (value.visualPrompt !== undefined && !isString(value.visualPrompt, LIMITS.visualPrompt)) return 'visualPrompt must be a string';
+    if (!isString(value.mood, LIMITS.mood)) return 'mood must be a string';
+
+    const inventory = value.inventoryUpdates;
+    if (inventory !== undefined) {
+        if (!isPlainObject(inventory)) return 'inventoryUpdates must be an object';
+        const { add = [], remove = [] } = inventory;
+        if (!Array.isArray(add) || add.length > LIMITS.items || !add.every(item =>
+            isPlainObject(item) && Object.values(item).every(field =>
+                typeof field === 'boolean' || isString(field, LIMITS.itemField)))) return 'inventoryUpdates.add is malformed';
+        if (!Array.isArray(remove) || remove.length > LIMITS.items
+            || !remove.every(name => isString(name, LIMITS.itemField))) return 'inventoryUpdates.remove is malformed';
+    }
+
+    const stats = value.statUpdates;
+    if (stats !== undefined) {
+        if (!isPlainObject(stats) || !Object.values(stats).every(Number.isFinite)) return 'statUpdates must map stats to numbers';
+    }
+    return null;
+}
+
+/**
+ * Returns why `data` may not be stored under `key`, or null if it may.
+ * Image keys take a remote { url }; everything else is a StoryResponse or a { summary }.
+ * (Image bytes go through PUT /api/image, never through /api/cache.)
+ */
+export function cacheWriteError(key, data) {
+    if (!isValidKey(key)) return 'Invalid key';
+
+    if (isImageKey(key)) {
+        if (!isPlainObject(data) || Object.keys(data).length !== 1 || !isString(data.url, LIMITS.url)
+            || !/^https?:\/\//.test(data.url)) return 'Image entries must be { url: "https://..." }';
+        return null;
+    }
+
+    if (isPlainObject(data) && 'summary' in data) {
+        return Object.keys(data).length === 1 && isString(data.summary, LIMITS.summary) && data.summary.trim()
+            ? null
+            : 'Summary entries must be { summary: "..." }';
+    }
+    return storyError(data);
+}
@@ -1,7 +1,31 @@
+import { Mood } from '../types';
+
+// Procedural settings for the ambient bed of each mood. 'calm' has none: silence is the point.
+interface MoodProfile {
+  freqs: number[];
+  wave: OscillatorType;
+  detune: number;     // Cents of random spread per oscillator
+  cutoff: number;     // Lowpass cutoff for the drone
+  lfoRate: number;    // Volume "breathing" speed in Hz
+  droneGain: number;
+  noiseGain: number;  // Filtered noise bed (wind through paper windows)
+  whisperGain: number; // Band-passed, swept noise that reads as distant murmuring
+}
+
+const MOOD_PROFILES: Record<Exclude<Mood, 'calm'>, MoodProfile> = {
+  eerie:      { freqs: [55, 58, 110], wave: 'sawtooth', detune: 4, cutoff: 200, lfoRate: 0.15, droneGain: 0.05, noiseGain: 0.004, whisperGain: 0.01 },
+  tense:      { freqs: [73.4, 77.8, 146.8], wave: 'sawtooth', detune: 12, cutoff: 450, lfoRate: 0.6, droneGain: 0.045, noiseGain: 0.012, whisperGain: 0 },
+  sad:        { freqs: [55, 65.4, 82.4], wave: 'triangle', detune: 2, cutoff: 300, lfoRate: 0.08, droneGain: 0.06, noiseGain: 0.003, whisperGain: 0 },
+  terrifying: { freqs: [41.2, 43.6, 61.7, 87.3], wave: 'sawtooth', detune: 30, cutoff: 900, lfoRate: 2.5, droneGain: 0.04, noiseGain: 0.03, whisperGain: 0.03 }
+};
+
+const CROSSFADE_SECONDS = 4;
+
 export class AudioService {
   private ctx: AudioContext | null = null;
-  private droneNodes: OscillatorNode[] = [];
-  private gainNodes: GainNode[] = [];
+  private layers: Map<Mood, GainNode> = new Map(); // One output bus per mood, built lazily
+  private noiseBuffer: AudioBuffer | null = null;
+  private currentMood: Mood = 'eerie';
   private isInitialized = false;
 
   constructor() {
@@ -13,49 +37,131 @@ export class AudioService {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     this.ctx = new AudioContextClass();
     this.isInitialized = true;
-    this.startDrone();
+    this.crossfadeTo(this.currentMood);
+  }
+
+  /**
+   * Crossfades the ambient bed to match the story's mood.
+   * Safe to call before init(); the mood is applied once audio starts.
+   */
+  setMood(mood: Mood) {
+    if (!mood || mood === this.currentMood) return;
+    this.currentMood = mood;
+    this.crossfadeTo(mood);
   }
 
-  // Generates a low frequency horror drone
-  private startDrone() {
+  private crossfadeTo(mood: Mood) {
     if (!this.ctx) return;
+    if (mood !== 'calm' && !this.layers.has(mood)) {
+      this.layers.set(mood, this.buildLayer(MOOD_PROFILES[mood as keyof typeof MOOD_PROFILES] || MOOD_PROFILES.eerie));
+    }
 
-    // Create 3 oscillators for a dissonant chord
-    const freqs = [55, 58, 110]; // Low A, Bb (dissonant), A2
-    
-    freqs.forEach(f => {
-      const osc = this.ctx!.createOscillator();
-      const gain = this.ctx!.createGain();
-      
-      osc.type = 'sawtooth';
-      osc.frequency.setValueAtTime(f, this.ctx!.currentTime);
-      
-      // Low pass filter to make it "muffled" like through a wall
-      const filter = this.ctx!.createBiquadFilter();
-      filter.type = 'lowpass';
-      filter.frequency.value = 200;
+    const t = this.ctx.currentTime;
+    this.layers.forEach((bus, layerMood) => {
+      bus.gain.cancelScheduledValues(t);
+      bus.gain.setValueAtTime(bus.gain.value, t);
+      bus.gain.linearRampToValueAtTime(layerMood === mood ? 1 : 0, t + CROSSFADE_SECONDS);
+    });
+  }
+
+  // Builds a silent bus with drone, noise and whisper voices; crossfadeTo() brings it up
+  private buildLayer(profile: MoodProfile): GainNode {
+    const ctx = this.ctx!;
+    const bus = ctx.createGain();
+    bus.gain.value = 0;
+    bus.connect(ctx.destination);
+
+    // Dissonant drone, muffled "like through a wall"
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = profile.cutoff;
+    filter.connect(bus);
+
+    profile.freqs.forEach(f => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = profile.wave;
+      osc.frequency.value = f;
+      osc.detune.value = (Math.random() * 2 - 1) * profile.detune;
 
       // LFO for volume modulation (unsettling breathing effect)
-      const lfo = this.ctx!.createOscillator();
+      const lfo = ctx.createOscillator();
       lfo.type = 'sine';
-      lfo.frequency.value = 0.1 + Math.random() * 0.2; // Very slow
-      const lfoGain = this.ctx!.createGain();
-      lfoGain.gain.value = 0.1; // Modulate volume slightly
+      lfo.frequency.value = profile.lfoRate * (0.7 + Math.random() * 0.6);
+      const lfoGain = ctx.createGain();
+      lfoGain.gain.value = profile.droneGain * 0.8;
 
-      osc.connect(filter);
-      filter.connect(gain);
+      gain.gain.value = profile.droneGain;
+      osc.connect(gain);
+      gain.connect(filter);
       lfo.connect(lfoGain);
       lfoGain.connect(gain.gain);
-      
-      gain.gain.value = 0.05; // Very quiet base volume
-      gain.connect(this.ctx!.destination);
-      
+
       osc.start();
       lfo.start();
-      
-      this.droneNodes.push(osc, lfo);
-      this.gainNodes.push(gain);
     });
+
+    if (profile.noiseGain > 0) {
+      const noise = this.createNoiseSource();
+      const noiseFilter = ctx.createBiquadFilter();
+      noiseFilter.type = 'lowpass';
+      noiseFilter.frequency.value = 600;
+      const noiseGain = ctx.createGain();
+      noiseGain.gain.value = profile.noiseGain;
+      noise.connect(noiseFilter);
+      noiseFilter.connect(noiseGain);
+      noiseGain.connect(bus);
+      noise.start();
+    }
+
+    if (profile.whisperGain > 0) {
+      const whisper = this.createNoiseSource();
+      const band = ctx.createBiquadFilter();
+      band.type = 'bandpass';
+      band.frequency.value = 1800;
+      band.Q.value = 6;
+
+      // Sweep the band around so it moves like breath against teeth
+      const sweep = ctx.createOscillator();
+      sweep.frequency.value = 0.3 + Math.random() * 0.4;
+      const sweepDepth = ctx.createGain();
+      sweepDepth.gain.value = 900;
+      sweep.connect(sweepDepth);
+      sweepDepth.connect(band.frequency);
+
+      // Slow swell so the murmuring comes and goes
+      const whisperGain = ctx.createGain();
+      whisperGain.gain.value = profile.whisperGain;
+      const swell = ctx.createOscillator();
+      swell.frequency.value = 0.05 + Math.random() * 0.1;
+      const swellDepth = ctx.createGain();
+      swellDepth.gain.value = profile.whisperGain;
+      swell.connect(swellDepth);
+      swellDepth.connect(whisperGain.gain);
+
+      whisper.connect(band);
+      band.connect(whisperGain);
+      whisperGain.connect(bus);
+      whisper.start();
+      sweep.start();
+      swell.start();
+    }
+
+    return bus;
+  }
+
+  private createNoiseSource(): AudioBufferSourceNode {
+    const ctx = this.ctx!;
+    if (!this.noiseBuffer) {
+      const length = ctx.sampleRate * 2;
+      this.noiseBuffer = ctx.createBuffer(1, length, ctx.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    const source = ctx.createBufferSource();
+    source.buffer = this.noiseBuffer;
+    source.loop = true;
+    return source;
   }
 
   playHeartbeat() {
@@ -1,12 +1,36 @@
 
-import { StoryResponse, ChatHistoryItem } from '../types';
-
-const L1_CACHE_KEY_TEXT = 'nether_chronicles_l1_text';
-const L1_CACHE_KEY_IMG = 'nether_chronicles_l1_img';
-const MAX_LOCAL_ITEMS = 50; // Keep local storage light
+import { StoryResponse, ChatHistoryItem, PlayerStats, Language } from '../types';
+import { validateStoryResponse, isFallbackResponse } from './storySchema';
+import { L1Store, dataUrlToBlob } from './l1Store';
+import { keyedHistory, normalizeFreeText } from './freeText';
+
+// Namespaces end up in keys ("<namespace>/<hash>"), keep them to URL-safe characters
+const sanitizeSegment = (value: string) => (value || 'default').replace(/[^a-zA-Z0-9._-]+/g, '_');
+
+export interface NamespaceParts {
+  provider: string;
+  model: string;
+  promptHash: string;
+  schemaVersion: number;
+}
+
+/**
+ * Text namespace, e.g. "v3.gemini.gemini-2.5-flash.p1a2b3c4d". With `shareAcrossModels`
+ * the provider/model part becomes "any"; prompt and schema changes always split it.
+ */
+export const buildTextNamespace = ({ provider, model, promptHash, schemaVersion }: NamespaceParts, shareAcrossModels: boolean): string =>
+  shareAcrossModels
+    ? `v${schemaVersion}.any.p${promptHash}`
+    : `v${schemaVersion}.${sanitizeSegment(provider)}.${sanitizeSegment(model)}.p${promptHash}`;
+
+export const buildImageNamespace = (provider: string, imageModel: string, shareAcrossModels: boolean): string =>
+  shareAcrossModels ? 'img.any' : `img.${sanitizeSegment(provider)}.${sanitizeSegment(imageModel)}`;
 
 export class CacheService {
   private isEnabled: boolean;
+  private l1 = new L1Store();
+  private textNamespace = 'default';
+  private imageNamespace = 'img.default';
 
   constructor(enabled: boolean = true) {
     this.isEnabled = enabled;
@@ -16,46 +40,74 @@ export class CacheService {
     this.isEnabled = enabled;
   }
 
+  public setNamespaces(textNamespace: string, imageNamespace: string) {
+    if (textNamespace !== this.textNamespace || imageNamespace !== this.imageNamespace) {
+      console.log(`[CacheService] Namespaces: ${textNamespace} / ${imageNamespace}`);
+    }
+    this.textNamespace = textNamespace;
+    this.imageNamespace = imageNamespace;
+  }
+
   // Generate a consistent SHA-256 hash for the current game state
-  public async generateKey(history: ChatHistoryItem[], choice: string, inventory: string[]): Promise<string> {
+  public async generateKey(history: ChatHistoryItem[], choice: string, inventory: string[], stats: PlayerStats, scenarioId: string, language: Language): Promise<string> {
     // Inventory order doesn't matter for gameplay logic usually, but matters for hash consistency. Sort it.
     const sortedInventory = [...inventory].sort();
     
-    // We only care about the actual text content for the hash
-    const cleanHistory = history.map(h => ({ role: h.role, text: h.text }));
+    // We only care about the actual text content for the hash, typed actions in normalized form
+    const cleanHistory = keyedHistory(history);
+    const last = history[history.length - 1];
+    const keyedChoice = last?.freeText && last.text === choice ? normalizeFreeText(choice) : choice;
     
+    // Packs can share an opening choice text, so the scenario keeps their entries apart;
+    // the language does the same for the Chinese and English tellings of one pack
     const payload = JSON.stringify({
+      sc: scenarioId,
+      l: language,
       h: cleanHistory,
-      c: choice,
-      i: sortedInventory
+      c: keyedChoice,
+      i: sortedInventory,
+      s: [stats.sanity, stats.vitality]
     });
 
-    return this.sha256(payload);
+    return `${this.textNamespace}/${await this.sha256(payload)}`;
   }
 
   public async generateImageKey(prompt: string): Promise<string> {
-    return this.sha256(prompt);
+    return `${this.imageNamespace}/${await this.sha256(prompt)}`;
+  }
+
+  // Summaries depend only on the turns they fold, so the same past always maps to the same key
+  public async generateSummaryKey(foldedHistory: ChatHistoryItem[], language: Language): Promise<string> {
+    const cleanHistory = keyedHistory(foldedHistory);
+    const hash = await this.sha256(JSON.stringify({ summary: cleanHistory, l: language }));
+    return `${this.textNamespace}/${hash}`;
   }
 
   // --- GET ---
 
-  public async getStory(key: string): Promise<StoryResponse | null> {
-    // 1. Try L1 (Local)
-    const local = this.getFromLocalStorage(L1_CACHE_KEY_TEXT, key);
+  // `shared: false` keeps an entry in L1 only (e.g. turns after a typed action)
+  public async getStory(key: string, shared: boolean = true): Promise<StoryResponse | null> {
+    // 1. Try L1 (IndexedDB)
+    const local = await this.l1.getText(key);
     if (local) {
-      console.log(`[CacheService] L1 Hit (Text): ${key.substring(0, 8)}...`);
-      return local as StoryResponse;
+      const valid = validateStoryResponse(local).value;
+      if (valid && !isFallbackResponse(local)) {
+        console.log(`[CacheService] L1 Hit (Text): ${key.substring(0, 8)}...`);
+        return valid;
+      }
     }
 
     // 2. Try L2 (Shared Server)
-    if (this.isEnabled) {
+    if (this.isEnabled && shared) {
       try {
         const remote = await this.fetchFromServer(key);
-        if (remote) {
+        // Older clients cached fallbacks and malformed output; treat those as misses
+        const valid = remote && !isFallbackResponse(remote) ? validateStoryResponse(remote).value : null;
+        if (valid) {
           console.log(`[CacheService] L2 Hit (Text): ${key.substring(0, 8)}...`);
           // Update L1 with L2 data for faster next access
-          this.saveToLocalStorage(L1_CACHE_KEY_TEXT, key, remote);
-          return remote as StoryResponse;
+          this.l1.putText(key, valid);
+          return valid;
         }
       } catch (e) {
         // Silent fail is expected if server.js isn't running
@@ -66,10 +118,11 @@ export class CacheService {
     return null;
   }
 
+  /** Returns a URL for `<img>`: an object URL for images held in L1, otherwise the remote URL. */
   public async getImage(key: string): Promise<string | null> {
     // 1. Try L1
-    const local = this.getFromLocalStorage(L1_CACHE_KEY_IMG, key);
-    if (local && typeof local === 'string') {
+    const local = await this.l1.getImageUrl(key);
+    if (local) {
       console.log(`[CacheService] L1 Hit (Image): ${key.substring(0, 8)}...`);
       return local;
     }
@@ -78,11 +131,30 @@ export class CacheService {
     if (this.isEnabled) {
       try {
         const remote = await this.fetchFromServer(key);
-        // Assuming server returns { data: "base64..." } or just the string value wrapped
-        if (remote && remote.data) {
+        // { image: sha256 } for uploaded bytes, { url } for remote images, { data } from older servers
+        const url = remote?.image ? `/api/image/${remote.image}` : remote?.url || remote?.data;
+        if (typeof url === 'string') {
            console.log(`[CacheService] L2 Hit (Image): ${key.substring(0, 8)}...`);
-           this.saveToLocalStorage(L1_CACHE_KEY_IMG, key, remote.data);
-           return remote.data;
+           // Server image URLs are immutable, so the browser's HTTP cache keeps the bytes
+           return this.l1.putImage(key, url);
+        }
+      } catch (e) {
+        // Silent fail
+      }
+    }
+    return null;
+  }
+
+  public async getSummary(key: string, shared: boolean = true): Promise<string | null> {
+    const local = await this.l1.getText(key);
+    if (typeof local === 'string') return local;
+
+    if (this.isEnabled && shared) {
+      try {
+        const remote = await this.fetchFromServer(key);
+        if (remote && typeof remote.summary === 'string') {
+          this.l1.putText(key, remote.summary);
+          return remote.summary;
         }
       } catch (e) {
         // Silent fail
@@ -93,54 +165,48 @@ export class CacheService {
 
   // --- SET ---
 
-  public async setStory(key: string, data: StoryResponse) {
+  public async setStory(key: string, data: StoryResponse, shared: boolean = true) {
+    // Only well-formed model output is worth sharing
+    if (isFallbackResponse(data) || !validateStoryResponse(data).value) {
+      console.warn(`[CacheService] Refusing to cache invalid story: ${key.substring(0, 8)}...`);
+      return;
+    }
+
     // 1. Save L1
-    this.saveToLocalStorage(L1_CACHE_KEY_TEXT, key, data);
+    this.l1.putText(key, data);
 
     // 2. Save L2
-    if (this.isEnabled) {
+    if (this.isEnabled && shared) {
       this.postToServer(key, data).catch(() => {});
     }
   }
 
-  public async setImage(key: string, base64Data: string) {
-    // 1. Save L1
-    this.saveToLocalStorage(L1_CACHE_KEY_IMG, key, base64Data);
-
-    // 2. Save L2
-    if (this.isEnabled) {
-      this.postToServer(key, { data: base64Data }).catch(() => {});
+  public async setSummary(key: string, summary: string, shared: boolean = true) {
+    this.l1.putText(key, summary);
+    if (this.isEnabled && shared) {
+      this.postToServer(key, { summary }).catch(() => {});
     }
   }
 
-  // --- Helpers ---
-
-  private getFromLocalStorage(storeKey: string, itemKey: string): any | null {
-    try {
-      const store = JSON.parse(localStorage.getItem(storeKey) || "{}");
-      return store[itemKey] || null;
-    } catch (e) { return null; }
-  }
+  /** Stores a freshly generated image (data: or remote URL); returns the URL to display. */
+  public async setImage(key: string, imageUrl: string): Promise<string> {
+    // 1. Save L2: generated images are uploaded as binary, remote ones only as their URL.
+    // Images from the server proxy are already stored there.
+    if (this.isEnabled && !imageUrl.includes('/api/image/')) {
+      const blob = imageUrl.startsWith('data:') ? dataUrlToBlob(imageUrl) : null;
+      (blob ? this.uploadImage(key, blob) : this.postToServer(key, { url: imageUrl })).catch(() => {});
+    }
 
-  private saveToLocalStorage(storeKey: string, itemKey: string, data: any) {
+    // 2. Save L1
     try {
-      const store = JSON.parse(localStorage.getItem(storeKey) || "{}");
-      const keys = Object.keys(store);
-      
-      // LRU-ish: Delete random old keys if full
-      if (keys.length >= MAX_LOCAL_ITEMS) {
-        delete store[keys[0]];
-      }
-      
-      store[itemKey] = data;
-      localStorage.setItem(storeKey, JSON.stringify(store));
+      return await this.l1.putImage(key, imageUrl);
     } catch (e) {
-      // Quota exceeded? Clear all.
-      console.warn("[CacheService] LocalStorage Quota Exceeded. Clearing cache.");
-      localStorage.removeItem(storeKey);
+      return imageUrl;
     }
   }
 
+  // --- Helpers ---
+
   private async fetchFromServer(key: string): Promise<any | null> {
     // Protocol: GET /api/cache?key=...
     // Uses relative path, assuming server.js serves this app
@@ -162,6 +228,15 @@ export class CacheService {
     });
   }
 
+  private async uploadImage(key: string, blob: Blob) {
+    // Protocol: PUT /api/image?key=... body: raw image bytes
+    await fetch(`/api/image?key=${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': blob.type },
+      body: blob
+    });
+  }
+
   private async sha256(message: string): Promise<string> {
     const msgUint8 = new TextEncoder().encode(message);
     const hashBuffer = await crypto.subtle.digest('SHA-256', msgUint8);
@@ -0,0 +1,99 @@
+import { ChatHistoryItem, Language } from '../types';
+import { CacheService } from './cacheService';
+import { isPersonalHistory } from './freeText';
+import { STORY_LIMITS } from '../shared/storyLimits';
+import { CallOptions } from './gameService';
+
+// Older turns are folded in fixed-size chunks so the fold boundary (and with it
+// the summary cache key) only moves every FOLD_CHUNK_TURNS turns.
+const FOLD_CHUNK_TURNS = 4;
+const MIN_RECENT_TURNS = 2;
+
+export interface ContextWindow {
+  summary: string | null; // "前情提要" of everything before `recent`
+  recent: ChatHistoryItem[]; // Sent verbatim
+}
+
+export type Summarizer = (previousSummary: string | null, turns: ChatHistoryItem[], options: CallOptions) => Promise<string>;
+
+// Rough token estimate: CJK characters are about one token each, other text about four chars per token
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+const estimateHistoryTokens = (items: ChatHistoryItem[]) =>
+  items.reduce((sum, item) => sum + estimateTokens(item.text), 0);
+
+// A turn is the player's choice (if any) plus the model's reply
+const splitTurns = (history: ChatHistoryItem[]): ChatHistoryItem[][] => {
+  const turns: ChatHistoryItem[][] = [];
+  let current: ChatHistoryItem[] = [];
+  history.forEach(item => {
+    current.push(item);
+    if (item.role === 'model') {
+      turns.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) turns.push(current); // Trailing choice awaiting a reply
+  return turns;
+};
+
+export class ContextManager {
+  constructor(private cacheService: CacheService, private summarize: Summarizer) {}
+
+  /**
+   * Keeps the last `recentTurns` turns verbatim and folds older ones into a
+   * cached rolling summary (written in `language`) whenever the history exceeds `tokenBudget`.
+   * `options` go to the summarizer, so a prefetched turn's summaries are cancelled and budgeted with it.
+   */
+  async build(history: ChatHistoryItem[], language: Language, tokenBudget: number, recentTurns: number, options: CallOptions = {}): Promise<ContextWindow> {
+    if (estimateHistoryTokens(history) <= tokenBudget) {
+      return { summary: null, recent: history };
+    }
+
+    const turns = splitTurns(history);
+    const keep = Math.max(MIN_RECENT_TURNS, recentTurns);
+    let foldedTurns = Math.floor(Math.max(0, turns.length - keep) / FOLD_CHUNK_TURNS) * FOLD_CHUNK_TURNS;
+
+    // Still over budget with the configured window: fold further, a chunk at a time
+    while (turns.length - foldedTurns > MIN_RECENT_TURNS + FOLD_CHUNK_TURNS - 1 &&
+           estimateHistoryTokens(turns.slice(foldedTurns).flat()) > tokenBudget) {
+      foldedTurns += FOLD_CHUNK_TURNS;
+    }
+
+    if (foldedTurns === 0) {
+      return { summary: null, recent: history };
+    }
+
+    // Build the summary chunk by chunk; every prefix is cached on its own,
+    // so the next fold only has to summarize the newest chunk.
+    let summary: string | null = null;
+    try {
+      for (let end = FOLD_CHUNK_TURNS; end <= foldedTurns; end += FOLD_CHUNK_TURNS) {
+        const folded = turns.slice(0, end).flat();
+        const key = await this.cacheService.generateSummaryKey(folded, language);
+        const shared = !isPersonalHistory(folded);
+        const cached = await this.cacheService.getSummary(key, shared);
+        if (cached) {
+          summary = cached;
+          continue;
+        }
+
+        const chunk = turns.slice(end - FOLD_CHUNK_TURNS, end).flat();
+        console.log(`[ContextManager] Folding turns ${end - FOLD_CHUNK_TURNS + 1}-${end} into summary...`);
+        summary = (await this.summarize(summary, chunk, options)).trim().slice(0, STORY_LIMITS.summary);
+        if (summary) this.cacheService.setSummary(key, summary, shared);
+      }
+    } catch (e) {
+      // A prefetch is dropped instead (cancelled, over budget or failed); the player's own turn retries it
+      if (options.prefetch) throw e;
+      // A failed summary shouldn't cost the turn; send everything like before
+      console.warn("[ContextManager] Summary failed, sending full history", e);
+      return { summary: null, recent: history };
+    }
+
+    return { summary: summary || null, recent: turns.slice(foldedTurns).flat() };
+  }
+}
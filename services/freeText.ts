@@ -0,0 +1,25 @@
+import { ChatHistoryItem } from '../types';
+
+export const MAX_FREE_TEXT_LENGTH = 60;
+
+/**
+ * Canonical form of a typed action, so "推开门。" and " 推开门 " hash to the same
+ * cache key: full-width forms folded, whitespace collapsed, trailing punctuation dropped.
+ * Only keys use it; the story shows the action as the player typed it.
+ */
+export const normalizeFreeText = (input: string): string =>
+  input
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s.,!?;:~。，！？；：…、]+$/, '')
+    .slice(0, MAX_FREE_TEXT_LENGTH)
+    .toLowerCase();
+
+/** History as it goes into cache keys: typed actions normalized, everything else verbatim. */
+export const keyedHistory = (history: ChatHistoryItem[]) =>
+  history.map(h => ({ role: h.role, text: h.freeText ? normalizeFreeText(h.text) : h.text }));
+
+// Anything downstream of a typed action is specific to that player and stays out of the shared L2 cache
+export const isPersonalHistory = (history: ChatHistoryItem[]): boolean =>
+  history.some(item => item.freeText === true);
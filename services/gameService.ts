@@ -1,86 +1,69 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { StoryResponse, ChatHistoryItem, GameSettings } from "../types";
-import { CacheService } from "./cacheService";
-
-const SYSTEM_INSTRUCTION = `
-你是一位深谙**中式民俗恐怖 (Chinese Folklore Horror)** 的文字游戏主理人。
-风格参考：纸嫁衣、港式僵尸片、中式怪谈。
-
-**核心机制：**
-1. **物品与解谜 (Inventory & Puzzles)**:
-   - 你需要管理玩家的背包。如果玩家获得了重要道具（如：锈迹斑斑的钥匙、染血的符咒），在 JSON 中返回 \`inventoryUpdates: { add: ["物品名"] }\`。
-   - 如果玩家消耗了物品（如：用钥匙开门），返回 \`inventoryUpdates: { remove: ["物品名"] }\`。
-   - **谜题**：设置障碍，需要特定物品才能通过。如果玩家没有该物品，提示缺少的线索，不要直接让其通过。
-
-2. **核心美学**：
-   - **阴冷**：不要大喊大叫，要写“阴风刺骨”，“脊背发凉”。
-   - **民俗**：使用纸人、棺材、绣花鞋、红白喜事、灵位、香炉、黑狗血等意象。
-   - **模糊**：不要看清楚鬼的样子，要写“眼角的余光看到...”，“镜子里多了一个人影”。
-
-**严禁：**
-1. 绝对不要在 JSON 中包含 base64 图片数据。
-2. 绝对不要输出 Markdown 代码块标记（如 \`\`\`json）。只输出纯 JSON 字符串。
-
-**输出 JSON 格式：**
-{
-  "narrative": "剧情文本，约100字。尽量精简有力。",
-  "choices": ["选项1", "选项2"],
-  "visualPrompt": "Chinese folklore horror, faded and desaturated, soft low contrast, washed-out dark reds and grays, paper talismans, ancestral shrine, subtle grain, vintage film, not pure black, misty eerie atmosphere",
-  "isGameOver": boolean,
-  "flashReveal": boolean,
-  "inventoryUpdates": { "add": [], "remove": [] },
-  "mood": "eerie" | "tense" | "terrifying"
+import { StoryResponse, ChatHistoryItem, GameSettings, PlayerStats, InventoryItem, Scenario, SessionFile } from "../types";
+import { CacheService, buildImageNamespace, buildTextNamespace } from "./cacheService";
+import { StreamingStoryParser } from "./streamParser";
+import { resolveProvider, ProviderDescriptor, withRetry } from "./providers";
+import { parseStoryResponse, createFallbackResponse, STORY_SCHEMA_VERSION } from "./storySchema";
+import { ContextManager } from "./contextManager";
+import { INITIAL_STATS, describeStats } from "./statRules";
+import { describeInventory, inventoryNames } from "./inventory";
+import { isPersonalHistory } from "./freeText";
+import { DEFAULT_SCENARIO_ID, getScenario, getStartingInventory, localizeScenario } from "./scenarioService";
+import { getPrompts, isSanityBreakChoice, promptFingerprint } from "./prompts";
+import { buildSystemInstruction } from "../shared/modelPrompts";
+import { PrefetchScheduler, PrefetchBudgetExceeded, isMeteredConnection } from "./prefetchScheduler";
+import { SessionRecorder, turnFingerprint, callFingerprint } from "./sessionRecorder";
+
+// Receives the narrative decoded so far while a response is still streaming
+export type NarrativeListener = (partialNarrative: string) => void;
+
+// How many times a malformed reply is sent back to the model with its validation errors
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Retries for rate limits, network errors and timeouts (prefetches don't retry)
+const MAX_CALL_RETRIES = 3;
+
+// Prefetching: branches generated at once, and what one session may spend on them.
+// Cache hits are free; each model call costs its units.
+const PREFETCH_CONCURRENCY = 2;
+const PREFETCH_BUDGET = 40;
+const PREFETCH_TEXT_COST = 1;
+const PREFETCH_IMAGE_COST = 3;
+
+/** For background calls: cancellation, and charging model calls to the prefetch budget. */
+export interface CallOptions {
+  signal?: AbortSignal;
+  prefetch?: boolean;
 }
-`;
-
-// Helper to safely parse JSON and provide a fallback if it fails
-const safeParse = (text: string): StoryResponse => {
-  try {
-    // Try to find JSON object if embedded in text
-    const match = text.match(/\{[\s\S]*\}/);
-    const jsonStr = match ? match[0] : text;
-    const parsed = JSON.parse(jsonStr);
-    
-    // Ensure critical fields exist
-    if (!parsed.choices || !Array.isArray(parsed.choices)) {
-      parsed.choices = [];
-    }
-    if (!parsed.narrative) {
-      parsed.narrative = "......";
-    }
-    return parsed;
-  } catch (e) {
-    console.error("JSON Parse Error. Raw text snippet:", text.substring(0, 200));
-    // Return safe fallback so the game doesn't hang
-    return {
-      narrative: "（周围的空气突然变得粘稠，文字似乎被某种力量扭曲了...）\n\n似乎有些不对劲。请尝试集中精神（重试）。",
-      choices: ["重新凝视黑暗 (重试)"],
-      visualPrompt: "static noise, glitch, darkness",
-      isGameOver: false,
-      flashReveal: false,
-      mood: 'tense'
-    };
-  }
-};
+
 
 const STORAGE_KEY_SETTINGS = "nether_chronicles_settings";
 
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+const DEFAULT_CONTEXT_RECENT_TURNS = 6;
+
 export class GameService {
   private settings: GameSettings;
-  private geminiClient: GoogleGenAI | null = null;
   private cacheService: CacheService;
+  private contextManager: ContextManager;
+  private scenario: Scenario = getScenario(DEFAULT_SCENARIO_ID);
+  private prefetcher = new PrefetchScheduler(PREFETCH_CONCURRENCY, PREFETCH_BUDGET);
+  private recorder = new SessionRecorder();
   
   // In-memory Promise Deduping (prevents double-fetching the exact same request in the same session)
   private pendingRequests: Map<string, Promise<StoryResponse>> = new Map();
   private pendingImages: Map<string, Promise<string | null>> = new Map();
+  // Which of those are prefetches: they run without retries, so a player joining one retries on its own
+  private prefetching = new WeakSet<Promise<unknown>>();
 
   constructor(settings: GameSettings) {
     this.settings = settings;
     // Default to true if undefined in legacy settings
     const cacheEnabled = settings.useSharedCache !== false; 
     this.cacheService = new CacheService(cacheEnabled);
-    this.initClient();
+    this.refreshCacheNamespaces();
+    this.recorder.enabled = settings.recordSession === true;
+    this.contextManager = new ContextManager(this.cacheService, this.summarizeTurns.bind(this));
   }
 
   // --- Persistence ---
@@ -106,56 +89,86 @@ export class GameService {
   public updateSettings(newSettings: GameSettings) {
     this.settings = newSettings;
     this.cacheService.setEnabled(newSettings.useSharedCache);
-    this.initClient();
+    this.refreshCacheNamespaces();
+    this.recorder.enabled = newSettings.recordSession === true;
     this.saveSettingsToStorage();
   }
 
-  private initClient() {
-    if (this.settings.provider === 'gemini') {
-      const key = this.settings.apiKey || process.env.API_KEY;
-      if (key) {
-        const options: any = { apiKey: key };
-        if (this.settings.baseUrl) {
-          options.baseUrl = this.settings.baseUrl;
-        }
-        this.geminiClient = new GoogleGenAI(options);
-      }
-    } else {
-      this.geminiClient = null;
-    }
+  // A different model, prompt or response schema must not be served another one's cached output
+  private refreshCacheNamespaces() {
+    const provider = resolveProvider(this.settings);
+    const providerId = provider?.id || this.settings.provider; // Offline fallback summaries stay in its own namespace
+    const share = this.settings.shareCacheAcrossModels === true;
+    this.cacheService.setNamespaces(
+      buildTextNamespace({
+        provider: providerId,
+        model: this.settings.model || provider?.defaultModel || '',
+        promptHash: promptFingerprint(this.settings.language),
+        schemaVersion: STORY_SCHEMA_VERSION
+      }, share),
+      buildImageNamespace(providerId, this.settings.imageModel || provider?.defaultImageModel || '', share)
+    );
+  }
+
+  /** Pack for the next requests: its opening, system prompt additions and image aesthetic. */
+  public setScenario(scenario: Scenario) {
+    this.scenario = scenario;
+  }
+
+  // Without a key for the selected backend the offline script answers, rather than the first turn failing
+  private getActiveProvider(): ProviderDescriptor {
+    const provider = resolveProvider(this.settings);
+    if (!provider) throw new Error(`Unknown provider: ${this.settings.provider}`);
+    return provider;
   }
 
   // --- Core Logic ---
 
   /**
    * Main entry point to get next story segment.
-   * Checks cache first, then API.
+   * Checks cache first, then API. Pass `onNarrative` to receive the narrative
+   * progressively while the model is still writing it.
    */
-  async continueStory(history: ChatHistoryItem[], choice: string, inventory: string[]): Promise<StoryResponse> {
+  async continueStory(history: ChatHistoryItem[], choice: string, inventory: InventoryItem[], stats: PlayerStats, onNarrative?: NarrativeListener, options: CallOptions = {}): Promise<StoryResponse> {
+    // Scripted turns are instant and deterministic: nothing to cache or dedupe
+    if (this.getActiveProvider().scripted) {
+        return this.fetchStory(history, choice, inventory, stats, onNarrative, options);
+    }
+
     // 1. Calculate Cache Key (Hash of State)
-    const cacheKey = await this.cacheService.generateKey(history, choice, inventory);
+    const cacheKey = await this.cacheService.generateKey(history, choice, inventoryNames(inventory), stats, this.scenario.id, this.settings.language);
 
     // 2. Check Pending Requests (In-memory dedupe)
-    if (this.pendingRequests.has(cacheKey)) {
-        return this.pendingRequests.get(cacheKey)!;
+    const pending = this.pendingRequests.get(cacheKey);
+    if (pending) {
+        if (options.prefetch || !this.prefetching.has(pending)) return pending;
+        // Joining a prefetch: if it fails (cancelled, out of budget, or an error it had no retries for),
+        // the player's turn fetches on its own with the usual retries
+        return pending.catch(() => this.continueStory(history, choice, inventory, stats, onNarrative, options));
     }
 
+    // Typed actions are personal: keep them (and everything after them) out of the shared cache
+    const shared = !isPersonalHistory(history);
+
     // 3. Define the async fetch operation
     const fetchOperation = async (): Promise<StoryResponse> => {
         try {
-            // A. Check Permanent Cache (L1 LocalStorage & L2 Server)
-            const cachedResponse = await this.cacheService.getStory(cacheKey);
+            // A. Check Permanent Cache (L1 LocalStorage & L2 Server); a recorded session has to see every model reply
+            const cachedResponse = this.recorder.enabled ? null : await this.cacheService.getStory(cacheKey, shared);
             if (cachedResponse) {
                 return cachedResponse;
             }
 
             // B. Cache Miss -> Call API
+            if (options.prefetch && !this.prefetcher.charge(PREFETCH_TEXT_COST)) throw new PrefetchBudgetExceeded();
             console.log(`[GameService] Cache MISS. Fetching from LLM...`);
-            const response = await this.fetchStory(history, choice, inventory);
+            const response = await this.fetchStory(history, choice, inventory, stats, onNarrative, options);
             
-            // C. Save to Cache (Only if successful)
+            // C. Save to Cache (Only if successful, a fallback must never be replayed to anyone)
             // We do this in background (don't await) to speed up UI
-            this.cacheService.setStory(cacheKey, response);
+            if (!response.isFallback) {
+                this.cacheService.setStory(cacheKey, response, shared);
+            }
             
             return response;
         } finally {
@@ -166,212 +179,235 @@ export class GameService {
     // 4. Store promise and execute
     const promise = fetchOperation();
     this.pendingRequests.set(cacheKey, promise);
+    if (options.prefetch) this.prefetching.add(promise);
     return promise;
   }
 
+  // --- Prefetching ---
+
   /**
-   * Triggers background loading for all provided choices.
+   * Queues background generation of each choice's next turn, then of its scene image.
+   * `history` is the story so far, without the choice.
    */
-  preloadChoices(history: ChatHistoryItem[], choices: string[], inventory: string[]) {
-    console.log(`[GameService] Preloading ${choices.length} choices...`);
-    choices.forEach(async (choice) => {
-        try {
-            // 1. Preload Text
-            const response = await this.continueStory(history, choice, inventory);
-            
-            // 2. Preload Image (Chain the request)
-            if (response.visualPrompt) {
-               this.generateImage(response.visualPrompt).catch(err => {
-                   console.warn("Background image gen failed", err);
-               });
-            }
-        } catch (err) {
-            // Silent fail for preloads
+  preloadChoices(history: ChatHistoryItem[], choices: string[], inventory: InventoryItem[], stats: PlayerStats) {
+    const mode = this.settings.prefetchMode || 'auto';
+    if (mode === 'off' || this.getActiveProvider().scripted) return;
+    if (mode === 'auto' && isMeteredConnection()) {
+      console.log("[GameService] Metered connection, not prefetching");
+      return;
+    }
+
+    console.log(`[GameService] Prefetching ${choices.length} choices...`);
+    choices.forEach(choice => {
+      this.prefetcher.schedule(choice, 'text', async (signal) => {
+        // The same history handleChoice will send, so the prefetch lands under the turn's cache key
+        const turnHistory: ChatHistoryItem[] = [...history, { role: 'user', text: choice }];
+        const response = await this.continueStory(turnHistory, choice, inventory, stats, undefined, { signal, prefetch: true });
+        if (response.visualPrompt && !response.isFallback) {
+          this.prefetcher.schedule(choice, 'image', async (imageSignal) => {
+            await this.generateImage(response.visualPrompt, { signal: imageSignal, prefetch: true });
+          });
         }
+      });
     });
   }
 
-  private async fetchStory(history: ChatHistoryItem[], choice: string, inventory: string[]): Promise<StoryResponse> {
+  /** The player is looking at this choice (hover/focus): its branch goes first. */
+  prioritizePrefetch(choice: string | null) {
+    this.prefetcher.prioritize(choice);
+  }
+
+  /** Aborts prefetches for every branch except `keepChoice` (all of them when omitted). */
+  cancelPrefetch(keepChoice: string | null = null) {
+    this.prefetcher.cancel(keepChoice);
+  }
+
+  /** New game or loaded save: drop the old session's prefetches and refill the budget. */
+  beginSession() {
+    this.prefetcher.cancel();
+    this.prefetcher.resetBudget();
+  }
+
+  private async fetchStory(history: ChatHistoryItem[], choice: string, inventory: InventoryItem[], stats: PlayerStats, onNarrative?: NarrativeListener, options: CallOptions = {}): Promise<StoryResponse> {
+     const language = this.settings.language;
+     const prompts = getPrompts(language);
+     const scenario = localizeScenario(this.scenario, language);
      const actualChoice = choice.includes("重试") ? "继续" : choice;
      
-     let messages: any[] = [];
-     
      // Inject Inventory context into the User Prompt
-     const inventoryContext = inventory.length > 0 
-       ? ` (当前背包物品: ${inventory.join(', ')})` 
-       : " (当前背包为空)";
+     const inventoryContext = describeInventory(inventory, language);
        
-     const prompt = `我选择了: ${actualChoice}。${inventoryContext}`;
-
-     if (this.settings.provider === 'openai') {
-       messages = history.map(h => ({ role: h.role === 'model' ? 'assistant' : 'user', content: h.text }));
-       messages.push({ role: 'user', content: prompt });
-       return this.callOpenAI(messages);
-     } else {
-       // Gemini Format
-       messages = history.map(h => ({ role: h.role, parts: [{ text: h.text }] }));
-       messages.push({ role: 'user', parts: [{ text: prompt }] });
-       return this.callGemini(messages);
+     const statContext = describeStats(stats, language);
+
+     const last = history[history.length - 1];
+     const isFreeText = last?.role === 'user' && last.freeText === true && last.text === choice;
+
+     let prompt = `${prompts.chose(actualChoice)}${inventoryContext}${statContext}`;
+     if (choice === "START_GAME") prompt = scenario.openingPrompt;
+     else if (isFreeText) prompt = `${prompts.attempt(choice)}${inventoryContext}${statContext}`;
+     else if (isSanityBreakChoice(choice)) prompt = `${prompts.sanityBreak}${inventoryContext}${statContext}`;
+
+     // Long runs: older turns are replaced by a cached "前情提要" (cache keys still use the full history)
+     const context = await this.contextManager.build(
+       history,
+       language,
+       this.settings.contextTokenBudget || DEFAULT_CONTEXT_TOKEN_BUDGET,
+       this.settings.contextRecentTurns || DEFAULT_CONTEXT_RECENT_TURNS,
+       options
+     );
+     const systemInstruction = buildSystemInstruction(language, scenario, context.summary);
+     const messages: ChatHistoryItem[] = [...context.recent, { role: 'user', text: prompt }];
+
+     // Streaming: surface the narrative as it is written, parse the whole object at the end.
+     // A retried call starts over with a fresh parser, replacing what the failed one showed.
+     const streamTo = (listener: NarrativeListener) => {
+       const parser = new StreamingStoryParser();
+       return (text: string) => {
+         if (parser.push(text)) listener(parser.narrative);
+       };
+     };
+
+     const provider = this.getActiveProvider();
+     const turnKey = await turnFingerprint(history, choice);
+     for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+       const raw = await this.recorder.capture({
+         kind: 'story',
+         fingerprint: turnKey,
+         provider: provider.id,
+         model: this.settings.model || provider.defaultModel,
+         prefetch: options.prefetch,
+         turn: { scenarioId: scenario.id, history, choice, inventory, stats, attempt }
+       }, () => this.withRetries(options, () => provider.story.generateStory({
+         systemInstruction,
+         messages,
+         settings: this.settings,
+         onChunk: attempt === 0 && onNarrative ? streamTo(onNarrative) : undefined,
+         signal: options.signal,
+         scenarioId: scenario.id,
+         summary: context.summary,
+         turnKey
+       })));
+
+       const result = parseStoryResponse(raw || "", language);
+       if (result.repairs.length > 0) {
+         console.warn("[GameService] Repaired model output:", result.repairs);
+       }
+       if (result.value) return result.value;
+
+       // Re-ask: show the model what it wrote and exactly what was wrong with it
+       console.warn(`[GameService] Invalid model output (attempt ${attempt + 1}):`, result.errors, (raw || "").substring(0, 200));
+       messages.push(
+         { role: 'model', text: raw || "" },
+         { role: 'user', text: prompts.repair(result.errors) }
+       );
      }
-  }
 
-  async startNewGame(): Promise<StoryResponse> {
-    // We treat "START_GAME" as a special choice
-    const emptyInventory: string[] = [];
-    return this.continueStory([], "START_GAME", emptyInventory);
+     // Return safe fallback so the game doesn't hang
+     return createFallbackResponse(language);
   }
 
-  // --- API Providers ---
-
-  private async callGemini(contents: any[]): Promise<StoryResponse> {
-    if (!this.geminiClient) throw new Error("Gemini Client not initialized");
-    
-    // For "START_GAME", we need to inject the system prompt as the first user message if history is empty? 
-    // Actually the logic in continueStory passes history. 
-    // If it's START_GAME, history is empty.
-    
-    // Check if it's start
-    const isStart = contents.length === 1 && contents[0].parts[0].text === "START_GAME";
-    const promptText = isStart 
-        ? "游戏开始。背景：中元节深夜，我独自回到了荒废已久的老宅。大门虚掩。请开始第一幕。"
-        : contents[contents.length-1].parts[0].text;
-
-    // Replace the simple "START_GAME" text with actual prompt if it's the start
-    if (isStart) {
-        contents[0].parts[0].text = promptText;
-    }
+  private async summarizeTurns(previousSummary: string | null, turns: ChatHistoryItem[], options: CallOptions): Promise<string> {
+    const prompts = getPrompts(this.settings.language);
+    const transcript = turns
+      .map(t => t.role === 'model' ? t.text : `${t.freeText ? prompts.transcriptAction : prompts.transcriptChoice}${t.text}`)
+      .join('\n\n');
+
+    const provider = this.getActiveProvider();
+    const messages: ChatHistoryItem[] = [{ role: 'user', text: prompts.summaryRequest(previousSummary, transcript) }];
+    if (options.prefetch && !this.prefetcher.charge(PREFETCH_TEXT_COST)) throw new PrefetchBudgetExceeded();
+    return this.recorder.capture({
+      kind: 'summary',
+      fingerprint: await callFingerprint('summary', messages),
+      provider: provider.id,
+      model: this.settings.model || provider.defaultModel,
+      prefetch: options.prefetch
+    }, () => this.withRetries(options, () => provider.story.generateStory({
+      systemInstruction: prompts.summaryInstruction,
+      messages,
+      settings: this.settings,
+      format: 'text',
+      signal: options.signal
+    })));
+  }
 
-    const response = await this.geminiClient.models.generateContent({
-      model: this.settings.model || "gemini-2.5-flash",
-      contents: contents,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        maxOutputTokens: 2000,
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            narrative: { type: Type.STRING },
-            choices: { type: Type.ARRAY, items: { type: Type.STRING } },
-            visualPrompt: { type: Type.STRING },
-            isGameOver: { type: Type.BOOLEAN },
-            flashReveal: { type: Type.BOOLEAN },
-            inventoryUpdates: {
-                type: Type.OBJECT,
-                properties: {
-                    add: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    remove: { type: Type.ARRAY, items: { type: Type.STRING } }
-                }
-            },
-            mood: { type: Type.STRING }
-          }
-        }
+  private withRetries<T>(options: CallOptions, call: () => Promise<T>): Promise<T> {
+    return withRetry(call, {
+      retries: options.prefetch ? 0 : MAX_CALL_RETRIES,
+      signal: options.signal,
+      onRetry: (error, delayMs, attempt) => {
+        console.warn(`[GameService] ${error.message}; retry ${attempt}/${MAX_CALL_RETRIES} in ${Math.round(delayMs)}ms`);
       }
     });
+  }
 
-    return safeParse(response.text || "{}");
+  async startNewGame(onNarrative?: NarrativeListener): Promise<StoryResponse> {
+    // We treat "START_GAME" as a special choice
+    const scenario = localizeScenario(this.scenario, this.settings.language);
+    return this.continueStory([], "START_GAME", getStartingInventory(scenario), INITIAL_STATS, onNarrative);
   }
 
-  private async callOpenAI(messages: any[]): Promise<StoryResponse> {
-    const key = this.settings.apiKey;
-    const baseUrl = this.settings.baseUrl || "https://api.openai.com/v1";
-    
-    if (!key) throw new Error("OpenAI API Key required");
+  // --- Images ---
 
-    // Handle Start Game
-    if (messages.length === 1 && messages[0].content.includes("START_GAME")) {
-        messages[0].content = "游戏开始。背景：中元节深夜，我独自回到了荒废已久的老宅。大门虚掩。请开始第一幕。";
-    }
+  private buildImagePrompt(prompt: string): string {
+    return this.scenario.aesthetic + prompt;
+  }
 
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${key}`
-      },
-      body: JSON.stringify({
-        model: this.settings.model || "gpt-4o",
-        messages: [
-          { role: "system", content: SYSTEM_INSTRUCTION },
-          ...messages
-        ],
-        response_format: { type: "json_object" }
-      })
-    });
+  /** Cache key the scene image for `prompt` is (or will be) stored under. */
+  async getImageKey(prompt: string): Promise<string> {
+    return this.cacheService.generateImageKey(this.buildImagePrompt(prompt));
+  }
 
-    const data = await response.json();
-    if (data.error) throw new Error(data.error.message);
-    const content = data.choices[0].message.content;
-    
-    return safeParse(content);
+  /** A scene image that was already generated, by its cache key; never calls the model. */
+  async getCachedImage(imageKey: string): Promise<string | null> {
+    return this.cacheService.getImage(imageKey);
   }
 
-  async generateImage(prompt: string): Promise<string | null> {
-    const aesthetic = "Chinese folklore horror, faded, desaturated, soft low contrast, washed-out dark reds and grays, subtle film grain, paper talismans, ancestral shrine details, not pure black, muted dark grays and browns, misty eerie atmosphere, lo-fi, security camera style, ";
-    const finalPrompt = aesthetic + prompt;
+  async generateImage(prompt: string, options: CallOptions = {}): Promise<string | null> {
+    const finalPrompt = this.buildImagePrompt(prompt);
+    const provider = this.getActiveProvider();
+    if (provider.scripted) {
+        const scriptedImage = provider.image;
+        return scriptedImage ? this.captureImage(provider, finalPrompt, options, () => scriptedImage.generateImage({ prompt: finalPrompt, settings: this.settings })) : null;
+    }
     
     // 1. Calculate Key
     const cacheKey = await this.cacheService.generateImageKey(finalPrompt);
 
     // 2. Check Pending
-    if (this.pendingImages.has(cacheKey)) {
-        return this.pendingImages.get(cacheKey)!;
+    const pending = this.pendingImages.get(cacheKey);
+    if (pending) {
+        if (options.prefetch || !this.prefetching.has(pending)) return pending;
+        return pending.catch(() => this.generateImage(prompt, options));
     }
 
     const fetchOp = async (): Promise<string | null> => {
         try {
              // A. Check L1/L2 Cache
-             const cached = await this.cacheService.getImage(cacheKey);
+             const cached = this.recorder.enabled ? null : await this.cacheService.getImage(cacheKey);
              if (cached) {
                  return cached;
              }
              
              // B. Generate
              console.log(`[GameService] Generating Image for key: ${cacheKey.substring(0,8)}...`);
-             let imageUrl: string | null = null;
-             
-             if (this.geminiClient && this.settings.provider === 'gemini') {
-                 // Gemini
-                 const response = await this.geminiClient.models.generateContent({
-                     model: this.settings.imageModel || "gemini-2.5-flash-image",
-                     contents: { parts: [{ text: finalPrompt }] }
-                 });
-                 for (const part of response.candidates?.[0]?.content?.parts || []) {
-                    if (part.inlineData) {
-                        imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-                    }
-                 }
-             } else if (this.settings.provider === 'openai' && this.settings.apiKey) {
-                 // OpenAI Chat Image
-                 const baseUrl = this.settings.baseUrl || "https://api.openai.com/v1";
-                 const resp = await fetch(`${baseUrl}/chat/completions`, {
-                    method: 'POST',
-                    headers: { 
-                        'Authorization': `Bearer ${this.settings.apiKey}`, 
-                        'Content-Type': 'application/json' 
-                    },
-                    body: JSON.stringify({ 
-                        model: this.settings.imageModel || "gpt-4o-image",
-                        messages: [{ role: "user", content: finalPrompt }],
-                        stream: false
-                    })
-                 });
-                 const data = await resp.json();
-                 if (data.choices?.length > 0) {
-                     const content = data.choices[0].message.content;
-                     const linkMatch = content.match(/!\[.*?\]\((.*?)\)/) || content.match(/(https?:\/\/[^\s]+)/);
-                     if (linkMatch) imageUrl = linkMatch[1];
-                     else if (content.length < 5000) imageUrl = content.trim(); 
-                 }
-             }
-
-             // C. Save Cache
+             const imageProvider = this.getActiveProvider().image;
+             if (!imageProvider) return null;
+             if (options.prefetch && !this.prefetcher.charge(PREFETCH_IMAGE_COST)) throw new PrefetchBudgetExceeded();
+             const imageUrl = await this.captureImage(provider, finalPrompt, options, () => this.withRetries(options, () => imageProvider.generateImage({
+                 prompt: finalPrompt,
+                 settings: this.settings,
+                 signal: options.signal
+             })));
+
+             // C. Save Cache; base64 images come back as object URLs so state doesn't carry megabytes of data
              if (imageUrl) {
-                 this.cacheService.setImage(cacheKey, imageUrl);
+                 return this.cacheService.setImage(cacheKey, imageUrl);
              }
-             return imageUrl;
+             return null;
 
         } catch (e) {
+            // Failed prefetches reject, so whoever joined them can retry
+            if (options.prefetch) throw e;
             console.error("Image Gen Failed", e);
             return null;
         } finally {
@@ -381,6 +417,29 @@ export class GameService {
 
     const promise = fetchOp();
     this.pendingImages.set(cacheKey, promise);
+    if (options.prefetch) this.prefetching.add(promise);
     return promise;
   }
-}
\ No newline at end of file
+
+  private async captureImage(provider: ProviderDescriptor, finalPrompt: string, options: CallOptions, call: () => Promise<string | null>): Promise<string | null> {
+    return this.recorder.capture({
+      kind: 'image',
+      fingerprint: await callFingerprint('image', finalPrompt),
+      provider: provider.id,
+      model: this.settings.imageModel || provider.defaultImageModel || '',
+      prefetch: options.prefetch,
+      prompt: finalPrompt
+    }, call);
+  }
+
+  // --- Session recording ---
+
+  /** Everything recorded since recording was switched on (or last cleared), or null if nothing was. */
+  exportSession(): SessionFile | null {
+    return this.recorder.size > 0 ? this.recorder.toFile(this.settings) : null;
+  }
+
+  clearSession() {
+    this.recorder.clear();
+  }
+}
@@ -0,0 +1,284 @@
+import { Language, ProviderErrorKind } from '../types';
+
+// UI strings. Model-facing text lives in services/prompts.ts.
+const ZH = {
+  locale: 'zh-CN',
+  // Title screen
+  gameTitle: "幽冥录",
+  tagline: "佩戴耳机 · 关灯体验",
+  audioHint: "(Please enable audio)",
+  start: "入局",
+  continue: "继续",
+  load: "残卷",
+  // In-game
+  save: "封存",
+  rewind: "回溯",
+  retry: "重新凝视 (重试)",
+  explored: "曾行此路",
+  restart: "重新轮回",
+  connectionError: "与彼岸的连接断开了... (Connection Error)",
+  apiError: "心中的恐惧让你无法前行... (API Error: Please Retry)",
+  authError: "门上的符咒不认得你... (API Key 无效或缺失，请检查设定)",
+  rateLimitError: "彼岸人满，稍后再来叩门... (请求过于频繁，请稍候重试)",
+  quotaError: "供奉的香火已经燃尽... (API 额度用尽，请检查账户或更换服务商)",
+  timeoutError: "回音迟迟未至... (请求超时)",
+  badOutputError: "低语含混，无法辨认... (模型回复无法解析)",
+  openSettings: "打开设定 (Settings)",
+  offlineFallback: "未配置 API Key，正在使用离线剧本 (Offline)",
+  freeTextPlaceholder: "你想做什么？",
+  freeTextSubmit: "行",
+  // Stats
+  vitality: "阳气",
+  sanity: "理智",
+  // Inventory
+  inventory: "行囊",
+  inventoryEmpty: "行囊空空...",
+  keyItem: "关键之物",
+  consumable: "用后即失",
+  noDescription: "看不真切，只觉得它冰凉刺骨。",
+  examine: "检查 (Examine)",
+  // Save slots
+  saveTitle: "封存 (Save)",
+  loadTitle: "残卷 (Load)",
+  defaultSlotName: (n: number) => `第${n}卷`,
+  autosaveName: "自动存档",
+  saved: "已落笔封存。",
+  saveFailed: "存档失败，残卷已满或存储空间不足。",
+  slotsFull: "存档已满，请覆盖旧档",
+  slotName: "存档名...",
+  newSlot: "新建",
+  noSaves: "尚无残卷...",
+  turnCount: (n: number) => `第 ${n} 幕`,
+  finished: " · 已终局",
+  loadSlot: "读取",
+  overwrite: "覆盖",
+  deleteSlot: "焚毁",
+  close: "[ 合上 ]",
+  // Story tree
+  rewindTitle: "回溯 (Rewind)",
+  rewindHint: "择一旧时之处，重做抉择。走过的路不会再惊动彼岸。",
+  opening: "开篇",
+  quoteChoice: (choice: string) => `「${choice}」`,
+  ending: "· 终",
+  noNodes: "尚无足迹...",
+  // Storybook
+  storybookTitle: "绘卷 (Storybook)",
+  storybookExportHtml: "装裱成卷 (HTML)",
+  storybookExportZip: "誊为文稿 (Markdown)",
+  storybookExporting: "正在装裱……",
+  storybookExportFailed: "装裱失败，请重试。",
+  storybookOpen: "展阅绘卷",
+  storybookOpenFailed: "无法读取此绘卷。",
+  storybookGained: (items: string[]) => `得：${items.join('、')}`,
+  storybookLost: (items: string[]) => `失：${items.join('、')}`,
+  storybookPage: (n: number, total: number) => `${n} / ${total}`,
+  storybookPrev: "前页",
+  storybookNext: "后页",
+  storybookEnd: "—— 终 ——",
+  // Séance
+  seanceOpen: "开坛",
+  seanceJoin: "入座",
+  seanceTitle: "扶乩 (Séance)",
+  seanceCode: "坛号",
+  seanceShareHint: "众人在标题画面点“入座”，输入坛号即可同观此局、共同抉择。",
+  seanceName: "名号...",
+  seanceSpectate: "只旁观，不投票",
+  seanceEnter: "入座",
+  seanceJoinFailed: "找不到此坛，或坛中已满。",
+  seanceOpenFailed: "开坛失败，请确认 server.js 正在运行。",
+  seancePresent: (players: number, spectators: number) => `${players} 人在座 · ${spectators} 人旁观`,
+  seanceHost: "坛主",
+  seanceAnonymous: "无名氏",
+  seanceCountdown: (seconds: number) => `${seconds} 秒后揭晓`,
+  seanceRevealNow: "立即揭晓",
+  seanceEnd: "散坛",
+  seanceLeave: "离席",
+  seanceWinner: (choice: string) => `众意所向：「${choice}」`,
+  seanceWaiting: "坛主正在请示……",
+  seanceReconnecting: "与坛断了联系，正在重连……",
+  seanceClosed: "此坛已散。",
+  seanceSpectating: "旁观中",
+  seanceVotes: (n: number) => `${n} 票`,
+  // Settings
+  settingsTitle: "天机设定 (Settings)",
+  language: "语言 (Language)",
+  provider: "服务商 (Provider)",
+  textModel: "文字模型 (Text Model)",
+  imageModel: "绘图模型 (Image Model)",
+  optional: "(Optional)",
+  contextBudget: "上下文预算 (Tokens)",
+  recentTurns: "保留回合 (Recent Turns)",
+  contextHint: "超出预算时，较早的剧情会被折叠为“前情提要”。",
+  freeText: "自由行动 (Free Actions)",
+  freeTextHint: "在选项下方显示输入框，可以写下任意举动。此类剧情只保存在本机，不进入共享缓存。",
+  sharedCache: "共享缓存 (Shared Cache)",
+  sharedCacheHint: "启用后优先使用服务器缓存，减少 API 消耗。",
+  offlineHint: "按内置剧本进行：不联网、不消耗额度，每次走向相同。",
+  crossModelCache: "跨模型复用 (Share Across Models)",
+  crossModelCacheHint: "复用其他服务商或模型生成过的剧情与画面。关闭时，每个模型各用一份缓存。",
+  prefetch: "预读分支 (Prefetch)",
+  prefetchAuto: "自动",
+  prefetchAlways: "总是",
+  prefetchOff: "关闭",
+  prefetchHint: "提前生成各选项的后续剧情与画面。“自动”在省流模式或移动网络下暂停。",
+  recordSession: "录制会话 (Record Session)",
+  recordSessionHint: "记录每次请求与模型的原始回复，供测试回放。录制期间不读取缓存，每一幕都会向模型请求。",
+  downloadSession: "下载录像",
+  loadSession: "载入录像",
+  sessionEmpty: "尚未录下任何内容。",
+  sessionLoaded: (count: number) => `已载入 ${count} 条记录，服务商已切换为回放。`,
+  sessionLoadFailed: "无法读取此录像文件。",
+  replayHint: "逐字重现录像中的回复，不联网。按录制时的顺序做出相同选择即可复现。",
+  replayMissing: "尚未载入录像，正在使用离线剧本 (Replay)",
+  done: "[ 完成设定 ]"
+};
+
+export type UIStrings = typeof ZH;
+
+const EN: UIStrings = {
+  locale: 'en-US',
+  gameTitle: "幽冥录",
+  tagline: "Headphones on · Lights off",
+  audioHint: "(Please enable audio)",
+  start: "Enter",
+  continue: "Continue",
+  load: "Records",
+  save: "Seal",
+  rewind: "Rewind",
+  retry: "Look again (Retry)",
+  explored: "walked before",
+  restart: "Begin Again",
+  connectionError: "The line to the other side has gone dead... (Connection Error)",
+  apiError: "Fear holds you in place... (API Error: Please Retry)",
+  authError: "The talisman on the door does not know you... (Missing or invalid API key: check Settings)",
+  rateLimitError: "Too many knock at the other side... (Rate limited: wait a moment, then retry)",
+  quotaError: "The incense has burned out... (API quota used up: check billing or switch provider)",
+  timeoutError: "No echo comes back... (Request timed out)",
+  badOutputError: "The whispers are too garbled to make out... (Unreadable model reply)",
+  openSettings: "Open Settings",
+  offlineFallback: "No API key set: playing the offline script",
+  freeTextPlaceholder: "What do you do?",
+  freeTextSubmit: "Go",
+  vitality: "Vitality",
+  sanity: "Sanity",
+  inventory: "Satchel",
+  inventoryEmpty: "Your satchel is empty...",
+  keyItem: "Key item",
+  consumable: "Single use",
+  noDescription: "You can't make it out. It only feels cold to the bone.",
+  examine: "Examine",
+  saveTitle: "Seal (Save)",
+  loadTitle: "Records (Load)",
+  defaultSlotName: (n: number) => `Record ${n}`,
+  autosaveName: "Autosave",
+  saved: "Sealed.",
+  saveFailed: "Saving failed: all slots are taken or storage is full.",
+  slotsFull: "All slots taken, overwrite an old one",
+  slotName: "Save name...",
+  newSlot: "New",
+  noSaves: "No records yet...",
+  turnCount: (n: number) => `Scene ${n}`,
+  finished: " · Ended",
+  loadSlot: "Load",
+  overwrite: "Overwrite",
+  deleteSlot: "Burn",
+  close: "[ Close ]",
+  rewindTitle: "Rewind",
+  rewindHint: "Pick a place you have been and choose again. Paths already walked won't disturb the other side again.",
+  opening: "Opening",
+  quoteChoice: (choice: string) => `"${choice}"`,
+  ending: "· End",
+  noNodes: "No footsteps yet...",
+  storybookTitle: "Storybook",
+  storybookExportHtml: "Bind as Storybook (HTML)",
+  storybookExportZip: "Copy as Manuscript (Markdown)",
+  storybookExporting: "Binding...",
+  storybookExportFailed: "Export failed, please try again.",
+  storybookOpen: "Open Storybook",
+  storybookOpenFailed: "Could not read this storybook.",
+  storybookGained: (items: string[]) => `Gained: ${items.join(', ')}`,
+  storybookLost: (items: string[]) => `Lost: ${items.join(', ')}`,
+  storybookPage: (n: number, total: number) => `${n} / ${total}`,
+  storybookPrev: "Previous",
+  storybookNext: "Next",
+  storybookEnd: "— The End —",
+  seanceOpen: "Séance",
+  seanceJoin: "Join Séance",
+  seanceTitle: "Séance",
+  seanceCode: "Room",
+  seanceShareHint: "Others pick \"Join Séance\" on the title screen and enter the room code to watch this run and vote on every choice.",
+  seanceName: "Your name...",
+  seanceSpectate: "Only watch, don't vote",
+  seanceEnter: "Take a Seat",
+  seanceJoinFailed: "No such room, or it is full.",
+  seanceOpenFailed: "Could not open a room. Is server.js running?",
+  seancePresent: (players: number, spectators: number) => `${players} seated · ${spectators} watching`,
+  seanceHost: "Host",
+  seanceAnonymous: "Nameless",
+  seanceCountdown: (seconds: number) => `Revealed in ${seconds}s`,
+  seanceRevealNow: "Reveal Now",
+  seanceEnd: "End Séance",
+  seanceLeave: "Leave",
+  seanceWinner: (choice: string) => `The table chose: "${choice}"`,
+  seanceWaiting: "The host is consulting the spirits...",
+  seanceReconnecting: "Lost the room, reconnecting...",
+  seanceClosed: "The séance has ended.",
+  seanceSpectating: "Watching",
+  seanceVotes: (n: number) => `${n} ${n === 1 ? 'vote' : 'votes'}`,
+  settingsTitle: "Settings",
+  language: "Language",
+  provider: "Provider",
+  textModel: "Text Model",
+  imageModel: "Image Model",
+  optional: "(Optional)",
+  contextBudget: "Context Budget (Tokens)",
+  recentTurns: "Recent Turns",
+  contextHint: "Past the budget, older scenes are folded into a \"story so far\".",
+  freeText: "Free Actions",
+  freeTextHint: "Show a text box under the choices to write any action. Those scenes stay on this device and never enter the shared cache.",
+  sharedCache: "Shared Cache",
+  sharedCacheHint: "Prefer the server cache to save API calls.",
+  offlineHint: "Plays a bundled script: no network, no API spend, and the same branches every time.",
+  crossModelCache: "Share Across Models",
+  crossModelCacheHint: "Reuse scenes and images generated by other providers or models. When off, every model keeps its own cache.",
+  prefetch: "Prefetch",
+  prefetchAuto: "Auto",
+  prefetchAlways: "Always",
+  prefetchOff: "Off",
+  prefetchHint: "Generates what follows each choice ahead of time. Auto pauses on data saver or cellular connections.",
+  recordSession: "Record Session",
+  recordSessionHint: "Keeps every request and the model's raw reply for replay in playtests. The cache is bypassed while recording, so every scene is asked of the model.",
+  downloadSession: "Download Recording",
+  loadSession: "Load Recording",
+  sessionEmpty: "Nothing recorded yet.",
+  sessionLoaded: (count: number) => `Loaded ${count} recorded calls; provider switched to Replay.`,
+  sessionLoadFailed: "Could not read this recording.",
+  replayHint: "Serves the recorded replies byte for byte, offline. Make the same choices in the same order to reproduce the run.",
+  replayMissing: "No recording loaded: playing the offline script",
+  done: "[ Done ]"
+};
+
+const STRINGS: Record<Language, UIStrings> = { zh: ZH, en: EN };
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'zh', label: '中文' },
+  { id: 'en', label: 'English' }
+];
+
+export const getStrings = (language?: Language): UIStrings => STRINGS[language || 'zh'] || ZH;
+
+/** The message shown when a turn fails, by what went wrong. */
+export const errorMessage = (kind: ProviderErrorKind, t: UIStrings): string => {
+  switch (kind) {
+    case 'auth': return t.authError;
+    case 'rate-limit': return t.rateLimitError;
+    case 'quota': return t.quotaError;
+    case 'network': return t.connectionError;
+    case 'timeout': return t.timeoutError;
+    case 'bad-output': return t.badOutputError;
+    default: return t.apiError;
+  }
+};
+
+/** Errors the player fixes in SettingsModal rather than by retrying. */
+export const needsSettings = (kind: ProviderErrorKind) => kind === 'auth' || kind === 'quota';
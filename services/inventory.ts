@@ -0,0 +1,72 @@
+import { InventoryItem, InventoryItemUpdate, StoryResponse, Language } from '../types';
+import { getPrompts } from './prompts';
+
+export const normalizeItemName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+export const toInventoryItem = (update: InventoryItemUpdate): InventoryItem => {
+  const name = normalizeItemName(update.name);
+  return {
+    id: name,
+    name,
+    description: update.description?.trim() || "",
+    ...(update.iconPrompt ? { iconPrompt: update.iconPrompt } : {}),
+    ...(update.consumable ? { consumable: true } : {}),
+    ...(update.key ? { key: true } : {})
+  };
+};
+
+/**
+ * Applies a turn's inventoryUpdates. Re-adding an item already carried only
+ * fills in details the model didn't give the first time.
+ */
+export const applyInventoryUpdates = (
+  inventory: InventoryItem[],
+  updates: StoryResponse['inventoryUpdates']
+): InventoryItem[] => {
+  let next = [...inventory];
+
+  updates?.add?.forEach(update => {
+    const item = toInventoryItem(update);
+    const idx = next.findIndex(i => i.id === item.id);
+    if (idx === -1) {
+      next.push(item);
+    } else {
+      const existing = next[idx];
+      next[idx] = { ...item, ...existing, description: existing.description || item.description };
+    }
+  });
+
+  if (updates?.remove?.length) {
+    const removed = new Set(updates.remove.map(normalizeItemName));
+    next = next.filter(item => !removed.has(item.id));
+  }
+
+  return next;
+};
+
+/** Names only: what cache keys hash, so keys match the ones from string inventories. */
+export const inventoryNames = (inventory: InventoryItem[]): string[] => inventory.map(item => item.name);
+
+/** Prompt context, flags included so the model remembers what is a key or consumable. */
+export const describeInventory = (inventory: InventoryItem[], language?: Language): string => {
+  const prompts = getPrompts(language);
+  const labels = inventory.map(item => {
+    const flags = [item.key && prompts.itemFlags.key, item.consumable && prompts.itemFlags.consumable].filter(Boolean);
+    return flags.length > 0 ? `${item.name}[${flags.join('/')}]` : item.name;
+  });
+  return prompts.inventory(labels);
+};
+
+// Saves and story trees from before items had details stored plain names
+export const migrateInventory = (raw: unknown): InventoryItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(entry => {
+      if (typeof entry === 'string') return toInventoryItem({ name: entry });
+      if (entry && typeof entry === 'object' && typeof (entry as any).name === 'string') {
+        return toInventoryItem(entry as InventoryItemUpdate);
+      }
+      return null;
+    })
+    .filter((item): item is InventoryItem => item !== null && item.name.length > 0);
+};
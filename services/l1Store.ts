@@ -0,0 +1,223 @@
+// IndexedDB-backed L1 cache: one store for text (story turns, summaries), one for images.
+// Each store is an LRU bounded by bytes; images are kept as Blobs and handed out as object URLs.
+
+const DB_NAME = "nether_chronicles_l1";
+const DB_VERSION = 2; // 2: records migrated from localStorage under bare-hash keys are purged
+
+export type L1StoreName = 'text' | 'image';
+
+const BYTE_BUDGETS: Record<L1StoreName, number> = {
+  text: 5 * 1024 * 1024,    // ~ thousands of turns
+  image: 150 * 1024 * 1024  // ~ a few hundred scenes
+};
+
+// localStorage stores from before IndexedDB. Their bare-hash keys predate cache namespaces, so no
+// lookup could ever hit them; they are dropped rather than moved over.
+const LEGACY_STORE_KEYS = ['nether_chronicles_l1_text', 'nether_chronicles_l1_summary', 'nether_chronicles_l1_img'];
+
+interface L1Record {
+  key: string;
+  value: any;         // Text: the cached object. Image: a Blob, or a remote URL string
+  bytes: number;
+  lastAccess: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const textBytes = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+// "data:image/png;base64,...." -> Blob; anything else (remote URLs) is kept as-is
+export const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match) return null;
+  const [, mime = 'application/octet-stream', isBase64, payload] = match;
+  if (!isBase64) return new Blob([decodeURIComponent(payload)], { type: mime });
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export class L1Store {
+  private db: Promise<IDBDatabase | null>;
+  private usage: Record<L1StoreName, number> = { text: 0, image: 0 };
+  // Image key -> object URL handed out this session. Never revoked: a scene, the storybook export
+  // or a replay may still show one after its record is evicted or replaced. They go with the page.
+  private objectUrls = new Map<string, string>();
+
+  constructor() {
+    this.db = this.open();
+  }
+
+  // --- Text ---
+
+  public async getText(key: string): Promise<any | null> {
+    const record = await this.read('text', key);
+    return record ? record.value : null;
+  }
+
+  public async putText(key: string, value: unknown) {
+    await this.write('text', { key, value, bytes: textBytes(value) + key.length, lastAccess: Date.now() });
+  }
+
+  // --- Images ---
+
+  /** An `<img>`-ready URL: an object URL for stored Blobs, or the remote URL itself. */
+  public async getImageUrl(key: string): Promise<string | null> {
+    const record = await this.read('image', key);
+    if (!record) return null;
+    if (typeof record.value === 'string') return record.value;
+    const existing = this.objectUrls.get(key);
+    if (existing) return existing;
+    const url = URL.createObjectURL(record.value as Blob);
+    this.objectUrls.set(key, url);
+    return url;
+  }
+
+  /** Stores a data: URL as a Blob (or a remote URL as-is) and returns the URL to display. */
+  public async putImage(key: string, data: string): Promise<string> {
+    const blob = data.startsWith('data:') ? dataUrlToBlob(data) : null;
+    const value = blob || data;
+    await this.write('image', { key, value, bytes: blob ? blob.size : data.length, lastAccess: Date.now() });
+    if (!blob) return data;
+
+    // One URL per key: a key stands for one prompt's image, so a repeated put reuses the URL already
+    // handed out instead of minting (and, as they are never revoked, leaking) another
+    const existing = this.objectUrls.get(key);
+    if (existing) return existing;
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(key, url);
+    return url;
+  }
+
+  // --- Internals ---
+
+  private async open(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return null;
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        (['text', 'image'] as L1StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+          } else if (event.oldVersion < 2) {
+            // Every live key is "<namespace>/<hash>"; anything else came from the old migration
+            const cursorRequest = request.transaction!.objectStore(name).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              if (!String(cursor.key).includes('/')) cursor.delete();
+              cursor.continue();
+            };
+          }
+        });
+      };
+      const db = await requestToPromise(request);
+      await this.measure(db);
+      this.dropLegacyStores();
+      return db;
+    } catch (e) {
+      // Private browsing modes may refuse IndexedDB; the cache just becomes L2-only
+      console.warn("[L1Store] IndexedDB unavailable, local cache disabled", e);
+      return null;
+    }
+  }
+
+  private async measure(db: IDBDatabase) {
+    for (const name of ['text', 'image'] as L1StoreName[]) {
+      const records: L1Record[] = await requestToPromise(db.transaction(name).objectStore(name).getAll());
+      this.usage[name] = records.reduce((sum, r) => sum + r.bytes, 0);
+    }
+  }
+
+  private dropLegacyStores() {
+    try {
+      const found = LEGACY_STORE_KEYS.filter(key => localStorage.getItem(key) !== null);
+      found.forEach(key => localStorage.removeItem(key));
+      if (found.length > 0) console.log(`[L1Store] Dropped ${found.length} legacy localStorage caches`);
+    } catch (e) {
+      // localStorage can be unavailable too; nothing to clean up then
+    }
+  }
+
+  private async read(name: L1StoreName, key: string): Promise<L1Record | null> {
+    const db = await this.db;
+    if (!db) return null;
+    try {
+      const tx = db.transaction(name, 'readwrite');
+      const store = tx.objectStore(name);
+      const record: L1Record | undefined = await requestToPromise(store.get(key));
+      if (!record) return null;
+      // Touch for LRU
+      store.put({ ...record, lastAccess: Date.now() });
+      await transactionDone(tx);
+      return record;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private async write(name: L1StoreName, record: L1Record) {
+    const db = await this.db;
+    if (!db) return;
+    if (record.bytes > BYTE_BUDGETS[name]) return; // Would evict everything else
+
+    try {
+      const tx = db.transaction(name, 'readwrite');
+      const store = tx.objectStore(name);
+      const previous: L1Record | undefined = await requestToPromise(store.get(record.key));
+      store.put(record);
+      await transactionDone(tx);
+      this.usage[name] += record.bytes - (previous?.bytes || 0);
+    } catch (e) {
+      console.warn(`[L1Store] Write to ${name} failed`, e);
+      return;
+    }
+
+    if (this.usage[name] > BYTE_BUDGETS[name]) await this.evict(db, name);
+  }
+
+  // Drop least recently used entries until the store is back under ~90% of its budget
+  private async evict(db: IDBDatabase, name: L1StoreName) {
+    const target = BYTE_BUDGETS[name] * 0.9;
+    const tx = db.transaction(name, 'readwrite');
+    const cursorRequest = tx.objectStore(name).index('lastAccess').openCursor();
+    let evicted = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || this.usage[name] <= target) return;
+      const record = cursor.value as L1Record;
+      cursor.delete();
+      this.usage[name] -= record.bytes;
+      evicted++;
+      cursor.continue();
+    };
+
+    try {
+      await transactionDone(tx);
+      console.log(`[L1Store] Evicted ${evicted} ${name} entries`);
+    } catch (e) {
+      console.warn(`[L1Store] Eviction in ${name} failed`, e);
+    }
+  }
+}
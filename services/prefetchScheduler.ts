@@ -0,0 +1,106 @@
+import { isAbortError } from './providers/errors';
+
+// Background generation of the branches the player might pick next.
+// Tasks run a few at a time: text before images, the hovered branch before the others.
+// Picking a choice aborts every other branch; model calls made for prefetches draw on a budget.
+
+export type PrefetchKind = 'text' | 'image';
+
+interface PrefetchTask {
+  branch: string;
+  kind: PrefetchKind;
+  seq: number;
+  run: (signal: AbortSignal) => Promise<void>;
+  controller: AbortController;
+}
+
+/** Thrown by a prefetch that would need a model call once the session's budget is spent. */
+export class PrefetchBudgetExceeded extends Error {
+  constructor() {
+    super("Prefetch budget exhausted");
+    this.name = 'PrefetchBudgetExceeded';
+  }
+}
+
+export class PrefetchScheduler {
+  private queue: PrefetchTask[] = [];
+  private running = new Set<PrefetchTask>();
+  private hovered: string | null = null;
+  private seq = 0;
+  private spent = 0;
+
+  constructor(private concurrency: number, private budget: number) {}
+
+  public schedule(branch: string, kind: PrefetchKind, run: (signal: AbortSignal) => Promise<void>) {
+    this.queue.push({ branch, kind, seq: this.seq++, run, controller: new AbortController() });
+    this.pump();
+  }
+
+  /** Moves a branch's queued work to the front (the player is looking at that choice). */
+  public prioritize(branch: string | null) {
+    this.hovered = branch;
+  }
+
+  /** Drops queued work and aborts running work, except for `keepBranch`. */
+  public cancel(keepBranch: string | null = null) {
+    const stale = (task: PrefetchTask) => task.branch !== keepBranch;
+    this.queue.filter(stale).forEach(task => task.controller.abort());
+    this.queue = this.queue.filter(task => !stale(task));
+    this.running.forEach(task => {
+      if (stale(task)) task.controller.abort();
+    });
+    this.hovered = null;
+  }
+
+  /** Reserves `cost` units of the budget for a model call; false once it is spent. */
+  public charge(cost: number): boolean {
+    if (this.spent + cost > this.budget) return false;
+    this.spent += cost;
+    return true;
+  }
+
+  /** A new game or a loaded save starts a new session. */
+  public resetBudget() {
+    this.spent = 0;
+  }
+
+  // Text before images, then the hovered branch, then first come first served
+  private compare(a: PrefetchTask, b: PrefetchTask): number {
+    const kind = (task: PrefetchTask) => task.kind === 'text' ? 0 : 1;
+    const hover = (task: PrefetchTask) => task.branch === this.hovered ? 0 : 1;
+    return (kind(a) - kind(b)) || (hover(a) - hover(b)) || (a.seq - b.seq);
+  }
+
+  private next(): PrefetchTask | undefined {
+    if (this.queue.length === 0) return undefined;
+    let best = 0;
+    for (let i = 1; i < this.queue.length; i++) {
+      if (this.compare(this.queue[i], this.queue[best]) < 0) best = i;
+    }
+    return this.queue.splice(best, 1)[0];
+  }
+
+  private pump() {
+    while (this.running.size < this.concurrency) {
+      const task = this.next();
+      if (!task) return;
+      this.running.add(task);
+      task.run(task.controller.signal)
+        .catch(e => {
+          if (e instanceof PrefetchBudgetExceeded) console.log("[PrefetchScheduler] Budget spent, skipping");
+          else if (!isAbortError(e)) console.warn("[PrefetchScheduler] Prefetch failed", e);
+        })
+        .finally(() => {
+          this.running.delete(task);
+          this.pump();
+        });
+    }
+  }
+}
+
+/** Data saver on, or a cellular / 2G link (where the browser tells us; navigator.connection isn't everywhere). */
+export const isMeteredConnection = (): boolean => {
+  const connection = (navigator as any).connection;
+  if (!connection) return false;
+  return connection.saveData === true || connection.type === 'cellular' || /(^|-)2g$/.test(connection.effectiveType || '');
+};
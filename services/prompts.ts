@@ -0,0 +1,120 @@
+import { Language } from '../types';
+import { MODEL_PROMPTS } from '../shared/modelPrompts';
+
+// Everything the model reads, per language. UI strings live in services/i18n.ts.
+export interface PromptSet {
+  system: string;
+  summaryInstruction: string;
+  sanityBreak: string;
+  chose: (choice: string) => string;
+  attempt: (action: string) => string;
+  scenarioHeader: (title: string) => string;
+  summaryHeader: string;
+  repair: (errors: string[]) => string;
+  // What was wrong with a reply, listed in the repair prompt
+  schemaErrors: {
+    notObject: string;
+    narrative: string;
+    choices: string;
+    noChoices: string;
+    inventoryUpdates: string;
+    notJson: (detail: string) => string;
+  };
+  summaryRequest: (previousSummary: string | null, transcript: string) => string;
+  transcriptChoice: string;
+  transcriptAction: string;
+  inventory: (labels: string[]) => string;
+  itemFlags: { key: string; consumable: string };
+  stats: (sanity: number, vitality: number, max: number) => string;
+  // Player-side text that becomes part of the history
+  examine: (itemName: string) => string;
+  reconnect: string;
+  sanityBreakChoice: string;
+  epitaph: string;
+  fallbackNarrative: string;
+  fallbackChoice: string;
+}
+
+const ZH: PromptSet = {
+  ...MODEL_PROMPTS.zh,
+  sanityBreak: "我的理智彻底崩断了。请写一段“崩溃”场景：幻觉与现实交错，我做出了不受控制的举动，醒来时身处一个说不清的地方，并付出了某种代价（丢失一件物品或损耗阳气）。不要结束游戏，给出新的选项。",
+  chose: (choice) => `我选择了: ${choice}。`,
+  attempt: (action) => `我尝试: ${action}。`,
+  repair: (errors) => `你上一条输出不符合格式要求：\n- ${errors.join('\n- ')}\n请只输出修正后的完整 JSON 对象，不要包含任何其他文字。`,
+  schemaErrors: {
+    notObject: "顶层必须是一个 JSON 对象",
+    narrative: "narrative 必须是非空字符串",
+    choices: "choices 必须是字符串数组",
+    noChoices: "游戏未结束时 choices 至少需要一个选项",
+    inventoryUpdates: "inventoryUpdates 必须形如 { \"add\": [{ \"name\": \"物品名\", \"description\": \"...\" }], \"remove\": [\"物品名\"] }",
+    notJson: (detail) => `输出不是合法的 JSON (${detail})`
+  },
+  summaryRequest: (previousSummary, transcript) => previousSummary
+    ? `已有的前情提要：\n${previousSummary}\n\n之后发生的剧情：\n${transcript}\n\n请输出合并后的新前情提要。`
+    : `剧情：\n${transcript}\n\n请输出前情提要。`,
+  transcriptChoice: "【玩家选择】",
+  transcriptAction: "【玩家行动】",
+  inventory: (labels) => labels.length > 0 ? ` (当前背包物品: ${labels.join(', ')})` : " (当前背包为空)",
+  itemFlags: { key: '关键', consumable: '消耗品' },
+  stats: (sanity, vitality, max) => ` (理智: ${sanity}/${max}, 阳气: ${vitality}/${max})`,
+  examine: (itemName) => `检查 ${itemName}`,
+  reconnect: "尝试重新连接",
+  sanityBreakChoice: "（理智崩断……）",
+  epitaph: "最后一缕阳气从你口鼻间散去。烛火熄了，你再也没有醒来。",
+  fallbackNarrative: "（周围的空气突然变得粘稠，文字似乎被某种力量扭曲了...）\n\n似乎有些不对劲。请尝试集中精神（重试）。",
+  fallbackChoice: "重新凝视黑暗 (重试)"
+};
+
+const EN: PromptSet = {
+  ...MODEL_PROMPTS.en,
+  sanityBreak: "My mind has snapped. Write a breakdown scene: hallucination and reality bleed together, I do something I cannot control, and I come to somewhere I cannot name, having paid a price (a lost item or lost vitality). Do not end the game; offer new choices.",
+  chose: (choice) => `I choose: ${choice}.`,
+  attempt: (action) => `I try: ${action}.`,
+  repair: (errors) => `Your last output did not follow the required format:\n- ${errors.join('\n- ')}\nOutput only the corrected, complete JSON object and nothing else.`,
+  schemaErrors: {
+    notObject: "The top level must be a JSON object",
+    narrative: "narrative must be a non-empty string",
+    choices: "choices must be an array of strings",
+    noChoices: "choices needs at least one option while the game is not over",
+    inventoryUpdates: "inventoryUpdates must look like { \"add\": [{ \"name\": \"item name\", \"description\": \"...\" }], \"remove\": [\"item name\"] }",
+    notJson: (detail) => `The output is not valid JSON (${detail})`
+  },
+  summaryRequest: (previousSummary, transcript) => previousSummary
+    ? `Story so far:\n${previousSummary}\n\nWhat happened since:\n${transcript}\n\nOutput the merged story so far.`
+    : `Story:\n${transcript}\n\nOutput the story so far.`,
+  transcriptChoice: "[Player chose] ",
+  transcriptAction: "[Player did] ",
+  inventory: (labels) => labels.length > 0 ? ` (Inventory: ${labels.join(', ')})` : " (Inventory is empty)",
+  itemFlags: { key: 'key', consumable: 'consumable' },
+  stats: (sanity, vitality, max) => ` (Sanity: ${sanity}/${max}, Vitality: ${vitality}/${max})`,
+  examine: (itemName) => `Examine ${itemName}`,
+  reconnect: "Try to reconnect",
+  sanityBreakChoice: "(Your mind gives way...)",
+  epitaph: "The last breath of warmth leaves your lips. The candle goes out, and you never wake again.",
+  fallbackNarrative: "(The air turns thick and the words twist, as if something is pulling at them...)\n\nSomething is wrong. Try to steady yourself (retry).",
+  fallbackChoice: "Stare into the dark again (Retry)"
+};
+
+const PROMPTS: Record<Language, PromptSet> = { zh: ZH, en: EN };
+
+export const getPrompts = (language?: Language): PromptSet => PROMPTS[language || 'zh'] || ZH;
+
+// FNV-1a, enough to notice that a prompt was edited
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Changes whenever the instructions the model works from change, which retires old cache entries. */
+export const promptFingerprint = (language?: Language): string => {
+  const prompts = getPrompts(language);
+  return fnv1a([prompts.system, prompts.summaryInstruction, prompts.sanityBreak].join('\u0000'));
+};
+
+/** Break choices of every language, so a run that switched language still recognizes them. */
+export const isSanityBreakChoice = (choice: string | null): boolean =>
+  choice !== null && Object.values(PROMPTS).some(p => p.sanityBreakChoice === choice);
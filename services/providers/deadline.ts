@@ -0,0 +1,40 @@
+import { TimeoutError, toProviderError } from './errors';
+
+export const STORY_TIMEOUT_MS = 60_000; // Streamed calls: the longest gap between chunks
+export const IMAGE_TIMEOUT_MS = 120_000;
+
+export interface Deadline {
+  signal: AbortSignal; // Pass to fetch / the SDK
+  extend(): void; // Restart the clock; streaming calls do this on every chunk
+}
+
+/**
+ * Runs one provider call under a timeout, also aborting when the caller's `signal` does.
+ * Whatever it throws comes out typed: TimeoutError, another ProviderError, or the caller's AbortError.
+ */
+export async function withDeadline<T>(label: string, timeoutMs: number, signal: AbortSignal | undefined, call: (deadline: Deadline) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const extend = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const forwardAbort = () => controller.abort();
+
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort);
+  extend();
+  try {
+    return await call({ signal: controller.signal, extend });
+  } catch (e) {
+    if (timedOut) throw new TimeoutError(`${label} did not answer within ${timeoutMs / 1000}s`);
+    throw toProviderError(label, e);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
@@ -0,0 +1,137 @@
+import { ProviderErrorKind } from '../../types';
+
+// What went wrong with a model call, in terms the UI can act on: auth and quota need the
+// player to change something, rate limits / network / timeouts are worth retrying.
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ProviderErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** Missing, invalid or unauthorized API key. */
+export class AuthError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+    this.name = 'AuthError';
+  }
+}
+
+/** Too many requests right now; `retryAfterMs` comes from the Retry-After header when there is one. */
+export class RateLimitError extends ProviderError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, status = 429) {
+    super('rate-limit', message, status);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** Out of credits or over the billing quota: waiting won't help. */
+export class QuotaError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('quota', message, status);
+    this.name = 'QuotaError';
+  }
+}
+
+/** The request never got an answer, or the backend is down (5xx). */
+export class NetworkError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('network', message, status);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TimeoutError extends ProviderError {
+  constructor(message: string) {
+    super('timeout', message);
+    this.name = 'TimeoutError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** The backend answered, but not with anything we can read. */
+export class BadOutputError extends ProviderError {
+  constructor(message: string) {
+    super('bad-output', message);
+    this.name = 'BadOutputError';
+  }
+}
+
+const AUTH_PATTERN = /api[ _-]?key (?:not valid|invalid)|invalid[ _-]api[ _-]key|incorrect api key|API_KEY_INVALID|unauthori[sz]ed/i;
+const QUOTA_PATTERN = /insufficient[ _]quota|billing|credit|payment required/i;
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Maps an HTTP status (plus the backend's message, which is sometimes more specific) to an error. */
+export function errorFromStatus(label: string, status: number, detail: string, retryAfterMs?: number): ProviderError {
+  const message = `${label} request failed (${status})${detail ? `: ${detail.slice(0, 300)}` : ''}`;
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(detail)) return new AuthError(message, status);
+  if (status === 402 || QUOTA_PATTERN.test(detail)) return new QuotaError(message, status);
+  if (status === 429) return new RateLimitError(message, retryAfterMs, status);
+  if (status === 408) return new TimeoutError(message);
+  if (status >= 500) return new NetworkError(message, status);
+  return new ProviderError('unknown', message, status);
+}
+
+/** Builds the error for a non-2xx response, pulling the message out of the usual JSON error shapes. */
+export async function errorFromResponse(label: string, response: Response): Promise<ProviderError> {
+  let detail = '';
+  try {
+    detail = await response.text();
+    const body = JSON.parse(detail);
+    const code = body.error?.code || body.error?.type;
+    detail = body.error?.message || (typeof body.error === 'string' ? body.error : detail);
+    if (typeof code === 'string' && !detail.includes(code)) detail += ` [${code}]`; // e.g. insufficient_quota
+  } catch (e) {
+    // Not JSON, keep the raw text
+  }
+  return errorFromStatus(label, response.status, detail, parseRetryAfter(response.headers.get('Retry-After')));
+}
+
+export const isAbortError = (e: unknown) => e instanceof Error && e.name === 'AbortError';
+
+/**
+ * Normalizes whatever a provider call threw. Aborts pass through untouched (they are the
+ * caller's doing); SDK errors carrying an HTTP status and failed fetches get typed.
+ */
+export function toProviderError(label: string, e: unknown): unknown {
+  if (e instanceof ProviderError || isAbortError(e)) return e;
+  const status = (e as { status?: unknown })?.status;
+  const message = e instanceof Error ? e.message : String(e);
+  if (typeof status === 'number' && status >= 400) return errorFromStatus(label, status, message);
+  if (e instanceof TypeError) return new NetworkError(`${label} unreachable: ${message}`); // fetch() failing outright
+  return e;
+}
+
+export const errorKindOf = (e: unknown): ProviderErrorKind => e instanceof ProviderError ? e.kind : 'unknown';
@@ -0,0 +1,125 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { GameSettings } from "../../types";
+import { MOODS } from "../storySchema";
+import { ProviderDescriptor, StoryRequest, ImageRequest } from "./types";
+import { AuthError } from "./errors";
+import { withDeadline, STORY_TIMEOUT_MS, IMAGE_TIMEOUT_MS } from "./deadline";
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    narrative: { type: Type.STRING },
+    choices: { type: Type.ARRAY, items: { type: Type.STRING } },
+    visualPrompt: { type: Type.STRING },
+    isGameOver: { type: Type.BOOLEAN },
+    flashReveal: { type: Type.BOOLEAN },
+    inventoryUpdates: {
+        type: Type.OBJECT,
+        properties: {
+            add: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        description: { type: Type.STRING },
+                        iconPrompt: { type: Type.STRING },
+                        consumable: { type: Type.BOOLEAN },
+                        key: { type: Type.BOOLEAN }
+                    },
+                    required: ["name"]
+                }
+            },
+            remove: { type: Type.ARRAY, items: { type: Type.STRING } }
+        }
+    },
+    statUpdates: {
+        type: Type.OBJECT,
+        properties: {
+            sanity: { type: Type.NUMBER },
+            vitality: { type: Type.NUMBER }
+        }
+    },
+    mood: { type: Type.STRING, enum: MOODS }
+  },
+  required: ["narrative", "choices", "isGameOver", "mood"]
+};
+
+// Clients are cheap but not free; reuse one per key/baseUrl pair
+let cachedClient: { id: string; client: GoogleGenAI } | null = null;
+
+const getClient = (settings: GameSettings): GoogleGenAI => {
+  const key = settings.apiKey || process.env.API_KEY;
+  if (!key) throw new AuthError("Gemini API key missing");
+
+  const id = `${key}|${settings.baseUrl || ''}`;
+  if (cachedClient?.id !== id) {
+    const options: any = { apiKey: key };
+    if (settings.baseUrl) {
+      options.baseUrl = settings.baseUrl;
+    }
+    cachedClient = { id, client: new GoogleGenAI(options) };
+  }
+  return cachedClient.client;
+};
+
+// The SDK throws ApiErrors carrying the HTTP status; withDeadline turns them into typed errors
+async function generateStory({ systemInstruction, messages, settings, onChunk, format = 'story', signal }: StoryRequest): Promise<string> {
+  const client = getClient(settings);
+  return withDeadline('Gemini', STORY_TIMEOUT_MS, signal, async ({ signal, extend }) => {
+    const request = {
+      model: settings.model || "gemini-2.5-flash",
+      contents: messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      config: format === 'story'
+        ? { systemInstruction, responseMimeType: "application/json", maxOutputTokens: 2000, responseSchema: RESPONSE_SCHEMA, abortSignal: signal }
+        : { systemInstruction, maxOutputTokens: 2000, abortSignal: signal }
+    };
+
+    if (onChunk) {
+      let text = "";
+      const stream = await client.models.generateContentStream(request);
+      for await (const chunk of stream) {
+        extend();
+        if (chunk.text) {
+          text += chunk.text;
+          onChunk(chunk.text);
+        }
+      }
+      return text;
+    }
+
+    const response = await client.models.generateContent(request);
+    return response.text || (format === 'story' ? "{}" : "");
+  });
+}
+
+async function generateImage({ prompt, settings, signal }: ImageRequest): Promise<string | null> {
+  const client = getClient(settings);
+  const response = await withDeadline('Gemini', IMAGE_TIMEOUT_MS, signal, ({ signal }) => client.models.generateContent({
+    model: settings.imageModel || "gemini-2.5-flash-image",
+    contents: { parts: [{ text: prompt }] },
+    config: { abortSignal: signal }
+  }));
+
+  let imageUrl: string | null = null;
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      imageUrl = `data:image/png;base64,${part.inlineData.data}`;
+    }
+  }
+  return imageUrl;
+}
+
+export const geminiProvider: ProviderDescriptor = {
+  id: 'gemini',
+  label: 'Gemini',
+  story: { generateStory },
+  image: { generateImage },
+  defaultModel: 'gemini-2.5-flash',
+  defaultImageModel: 'gemini-2.5-flash-image',
+  models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite-latest', 'gemini-3-pro-preview'],
+  requiresApiKey: false, // Falls back to GEMINI_API_KEY when the build embeds it (EMBED_API_KEY=true)
+  hasCredentials: (settings) => !!(settings.apiKey || process.env.API_KEY),
+  baseUrlPlaceholder: "https://generativelanguage.googleapis.com",
+  apiKeyPlaceholder: "使用系统环境变量或输入..."
+};
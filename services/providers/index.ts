@@ -0,0 +1,21 @@
+import { registerProvider } from './registry';
+import { geminiProvider } from './geminiProvider';
+import { openaiProvider } from './openaiProvider';
+import { ollamaProvider } from './ollamaProvider';
+import { serverProvider } from './serverProvider';
+import { offlineProvider } from './offlineProvider';
+import { replayProvider } from './replayProvider';
+
+// Built-in backends. New ones only need a descriptor and a registerProvider() call.
+registerProvider(geminiProvider);
+registerProvider(openaiProvider);
+registerProvider(ollamaProvider);
+registerProvider(serverProvider);
+registerProvider(offlineProvider);
+registerProvider(replayProvider);
+
+export { registerProvider, getProvider, listProviders, resolveProvider, OFFLINE_PROVIDER_ID } from './registry';
+export type { ProviderDescriptor, StoryProvider, ImageProvider, StoryRequest, ImageRequest } from './types';
+export { ProviderError, AuthError, RateLimitError, QuotaError, NetworkError, TimeoutError, BadOutputError, errorKindOf, isAbortError } from './errors';
+export { withRetry } from './retry';
+export { loadReplaySession, getReplaySession } from './replayProvider';
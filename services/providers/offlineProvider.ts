@@ -0,0 +1,196 @@
+/// <reference types="vite/client" />
+import { ChatHistoryItem, Language, Mood, PlayerStats, StoryResponse } from "../../types";
+import { MOODS } from "../storySchema";
+import { DEFAULT_SCENARIO_ID } from "../scenarioService";
+import { ProviderDescriptor, StoryRequest, ImageRequest } from "./types";
+
+// Plays a hand-authored branching script from /offline instead of asking a model. Answers are
+// deterministic, so this backs the game when no API key is configured, demos, and end-to-end tests.
+//
+// A script is { scenario, start, summary, unknown, nodes: { id: node }, i18n? }. A node holds the
+// StoryResponse fields plus `choices: [{ text, next }]` and an optional bundled `image`; its
+// `i18n.<language>` overrides narrative, choices (as plain strings, same order) and inventoryUpdates.
+
+interface ScriptChoice {
+  text: string;
+  next: string;
+}
+
+interface ScriptNode {
+  narrative: string;
+  choices: ScriptChoice[];
+  mood: Mood;
+  visualPrompt: string;
+  image?: string; // Served from /public, e.g. "/offline/gate.svg"
+  isGameOver: boolean;
+  flashReveal: boolean;
+  inventoryUpdates?: StoryResponse['inventoryUpdates'];
+  statUpdates?: Partial<PlayerStats>;
+  i18n?: Partial<Record<Language, { narrative?: string; choices?: string[]; inventoryUpdates?: StoryResponse['inventoryUpdates'] }>>;
+}
+
+interface OfflineScript {
+  scenario: string;
+  start: string;
+  summary: string; // Stands in for the "story so far" when old turns get folded
+  unknown: string; // Reply to anything the script has no branch for (typed actions, examining items...)
+  nodes: Record<string, ScriptNode>;
+  i18n?: Partial<Record<Language, { summary?: string; unknown?: string }>>;
+}
+
+const modules = import.meta.glob('../../offline/*.json', { eager: true, import: 'default' });
+
+const parseNode = (raw: any): ScriptNode | null => {
+  if (!raw || typeof raw.narrative !== 'string' || !Array.isArray(raw.choices)) return null;
+  return {
+    narrative: raw.narrative,
+    choices: raw.choices.filter((c: any) => typeof c?.text === 'string' && typeof c?.next === 'string'),
+    mood: MOODS.includes(raw.mood) ? raw.mood : 'eerie',
+    visualPrompt: typeof raw.visualPrompt === 'string' ? raw.visualPrompt : "",
+    image: typeof raw.image === 'string' ? raw.image : undefined,
+    isGameOver: raw.isGameOver === true,
+    flashReveal: raw.flashReveal === true,
+    inventoryUpdates: raw.inventoryUpdates,
+    statUpdates: raw.statUpdates,
+    i18n: raw.i18n
+  };
+};
+
+const parseScript = (path: string, raw: any): OfflineScript | null => {
+  if (!raw || typeof raw.scenario !== 'string' || typeof raw.start !== 'string' || !raw.nodes) {
+    console.warn(`[OfflineProvider] Skipping ${path}: needs scenario, start and nodes`);
+    return null;
+  }
+  const nodes: Record<string, ScriptNode> = {};
+  for (const [id, node] of Object.entries(raw.nodes)) {
+    const parsed = parseNode(node);
+    if (parsed) nodes[id] = parsed;
+    else console.warn(`[OfflineProvider] ${path}: skipping malformed node "${id}"`);
+  }
+  if (!nodes[raw.start]) {
+    console.warn(`[OfflineProvider] Skipping ${path}: start node "${raw.start}" missing`);
+    return null;
+  }
+  for (const [id, node] of Object.entries(nodes)) {
+    node.choices.filter(c => !nodes[c.next]).forEach(c => console.warn(`[OfflineProvider] ${path}: "${id}" leads to missing node "${c.next}"`));
+  }
+  return {
+    scenario: raw.scenario,
+    start: raw.start,
+    summary: typeof raw.summary === 'string' ? raw.summary : "",
+    unknown: typeof raw.unknown === 'string' ? raw.unknown : "……",
+    nodes,
+    i18n: raw.i18n
+  };
+};
+
+const SCRIPTS: OfflineScript[] = Object.entries(modules)
+  .map(([path, raw]) => parseScript(path, raw))
+  .filter((s): s is OfflineScript => s !== null);
+
+// Packs without a script of their own play the default pack's
+const scriptFor = (scenarioId?: string): OfflineScript | undefined =>
+  SCRIPTS.find(s => s.scenario === scenarioId) || SCRIPTS.find(s => s.scenario === DEFAULT_SCENARIO_ID) || SCRIPTS[0];
+
+const choiceLabels = (node: ScriptNode, language: Language): string[] =>
+  node.choices.map((choice, i) => node.i18n?.[language]?.choices?.[i] || choice.text);
+
+const allChoiceLabels = (node: ScriptNode, index: number): string[] => [
+  node.choices[index].text,
+  ...Object.values(node.i18n || {}).map(overrides => overrides?.choices?.[index]).filter((label): label is string => !!label)
+];
+
+const toResponse = (node: ScriptNode, language: Language): StoryResponse => {
+  const overrides = node.i18n?.[language];
+  return {
+    narrative: overrides?.narrative || node.narrative,
+    choices: choiceLabels(node, language),
+    visualPrompt: node.visualPrompt,
+    isGameOver: node.isGameOver,
+    flashReveal: node.flashReveal,
+    mood: node.mood,
+    ...(node.inventoryUpdates ? { inventoryUpdates: overrides?.inventoryUpdates || node.inventoryUpdates } : {}),
+    ...(node.statUpdates ? { statUpdates: node.statUpdates } : {})
+  };
+};
+
+// Choice labels are matched in every language, so switching language mid-run keeps the branch
+const nextNodeFor = (script: OfflineScript, choice: string): ScriptNode | undefined => {
+  for (const node of Object.values(script.nodes)) {
+    const index = node.choices.findIndex((_, i) => allChoiceLabels(node, i).includes(choice));
+    if (index >= 0) return script.nodes[node.choices[index].next];
+  }
+  return undefined;
+};
+
+// Where the player is standing: the last scene shown that came from the script (skipping "unknown" replies)
+const currentNodeFor = (script: OfflineScript, messages: ChatHistoryItem[]): ScriptNode => {
+  const nodes = Object.values(script.nodes);
+  for (const message of [...messages].reverse()) {
+    if (message.role !== 'model') continue;
+    const found = nodes.find(node =>
+      node.narrative === message.text || Object.values(node.i18n || {}).some(overrides => overrides?.narrative === message.text));
+    if (found) return found;
+  }
+  return script.nodes[script.start];
+};
+
+/**
+ * The player's choice is the history item just before the prompt GameService appends;
+ * a conversation without any earlier turn is the opening.
+ */
+function playTurn(script: OfflineScript, messages: ChatHistoryItem[], language: Language): StoryResponse {
+  const hasPlayed = messages.some(m => m.role === 'model');
+  const choice = messages.length >= 2 ? messages[messages.length - 2] : undefined;
+  if (!hasPlayed || choice?.role !== 'user') return toResponse(script.nodes[script.start], language);
+
+  const next = nextNodeFor(script, choice.text);
+  if (next) return toResponse(next, language);
+
+  const current = currentNodeFor(script, messages);
+  return {
+    narrative: script.i18n?.[language]?.unknown || script.unknown,
+    choices: choiceLabels(current, language),
+    visualPrompt: "", // Keep the scene as it is
+    isGameOver: false,
+    flashReveal: false,
+    mood: current.mood
+  };
+}
+
+async function generateStory({ messages, settings, onChunk, format = 'story', scenarioId }: StoryRequest): Promise<string> {
+  const script = scriptFor(scenarioId);
+  if (!script) throw new Error("No offline scripts found in /offline");
+  const language = settings.language || 'zh';
+
+  if (format === 'text') return script.i18n?.[language]?.summary || script.summary;
+
+  const text = JSON.stringify(playTurn(script, messages, language));
+  // Stream in slices so the offline game exercises the same path as a real model
+  if (onChunk) {
+    for (let i = 0; i < text.length; i += 48) onChunk(text.slice(i, i + 48));
+  }
+  return text;
+}
+
+// Scene prompts arrive with the pack's aesthetic in front, so match on the node's prompt as a suffix
+async function generateImage({ prompt }: ImageRequest): Promise<string | null> {
+  for (const script of SCRIPTS) {
+    const node = Object.values(script.nodes).find(n => n.image && n.visualPrompt && prompt.endsWith(n.visualPrompt));
+    if (node) return node.image!;
+  }
+  return null;
+}
+
+export const offlineProvider: ProviderDescriptor = {
+  id: 'offline',
+  label: 'Offline',
+  story: { generateStory },
+  image: { generateImage },
+  defaultModel: '',
+  models: [],
+  requiresApiKey: false,
+  usesApiKey: false,
+  scripted: true,
+  baseUrlPlaceholder: ""
+};
@@ -0,0 +1,95 @@
+import { GameSettings } from "../../types";
+import { ProviderDescriptor, StoryRequest } from "./types";
+import { BadOutputError, ProviderError, errorFromResponse } from "./errors";
+import { withDeadline } from "./deadline";
+
+// Local Ollama server, native API (not the OpenAI-compatible shim)
+const DEFAULT_BASE_URL = "http://localhost:11434";
+const STORY_TIMEOUT_MS = 180_000; // The first call after a while also loads the model into memory
+
+const baseUrlOf = (settings: GameSettings) => (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+// /api/chat streams NDJSON: one {"message": {"content": "..."}, "done": false} object per line
+async function readStream(body: ReadableStream<Uint8Array>, onChunk: (text: string) => void, onFrame: () => void): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onFrame();
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let frame;
+      try {
+        frame = JSON.parse(line);
+      } catch (e) {
+        throw new BadOutputError("Ollama sent a stream frame that is not JSON");
+      }
+      if (frame.error) throw new ProviderError('unknown', `Ollama: ${frame.error}`);
+      const content = frame.message?.content;
+      if (content) {
+        text += content;
+        onChunk(content);
+      }
+      if (frame.done) return text;
+    }
+  }
+  return text;
+}
+
+async function generateStory({ systemInstruction, messages, settings, onChunk, format = 'story', signal }: StoryRequest): Promise<string> {
+  return withDeadline('Ollama', STORY_TIMEOUT_MS, signal, async ({ signal, extend }) => {
+    const response = await fetch(`${baseUrlOf(settings)}/api/chat`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model || ollamaProvider.defaultModel,
+        messages: [
+          { role: "system", content: systemInstruction },
+          ...messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+        ],
+        ...(format === 'story' ? { format: "json" } : {}),
+        stream: !!onChunk
+      })
+    });
+
+    if (!response.ok) throw await errorFromResponse('Ollama', response);
+
+    if (onChunk && response.body) {
+      return readStream(response.body, onChunk, extend);
+    }
+
+    const data = await response.json().catch(() => {
+      throw new BadOutputError("Ollama returned a body that is not JSON");
+    });
+    return data.message?.content || (format === 'story' ? "{}" : "");
+  });
+}
+
+async function listModels(settings: GameSettings): Promise<string[]> {
+  const response = await fetch(`${baseUrlOf(settings)}/api/tags`);
+  if (!response.ok) return [];
+  const data = await response.json();
+  return (data.models || []).map((m: { name: string }) => m.name);
+}
+
+export const ollamaProvider: ProviderDescriptor = {
+  id: 'ollama',
+  label: 'Ollama',
+  story: { generateStory },
+  // No image backend: the scene image stays as it is
+  defaultModel: 'qwen2.5:7b',
+  models: ['qwen2.5:7b', 'qwen2.5:14b', 'llama3.1:8b'],
+  requiresApiKey: false,
+  baseUrlPlaceholder: DEFAULT_BASE_URL,
+  apiKeyPlaceholder: "本地服务无需密钥",
+  listModels
+};
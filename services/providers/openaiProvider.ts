@@ -0,0 +1,128 @@
+import { ProviderDescriptor, StoryRequest, ImageRequest } from "./types";
+import { AuthError, BadOutputError, errorFromResponse, errorFromStatus } from "./errors";
+import { withDeadline, STORY_TIMEOUT_MS, IMAGE_TIMEOUT_MS } from "./deadline";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+// Reads an OpenAI SSE stream ("data: {...}" lines, terminated by "data: [DONE]")
+async function readStream(body: ReadableStream<Uint8Array>, onChunk: (text: string) => void, onFrame: () => void): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onFrame();
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("data:")) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === "[DONE]") return text;
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onChunk(delta);
+        }
+      } catch (e) {
+        // Keep-alive comments or partial frames, skip
+      }
+    }
+  }
+  return text;
+}
+
+// Non-streamed replies: { choices: [{ message: { content } }] }, or an { error } some proxies send with a 200
+async function readMessage(response: Response): Promise<string> {
+  let data: any;
+  try {
+    data = await response.json();
+  } catch (e) {
+    throw new BadOutputError("OpenAI returned a body that is not JSON");
+  }
+  if (data.error) throw errorFromStatus('OpenAI', response.status, data.error.message || String(data.error));
+  const content = data.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new BadOutputError("OpenAI reply has no message content");
+  return content;
+}
+
+async function generateStory({ systemInstruction, messages, settings, onChunk, format = 'story', signal }: StoryRequest): Promise<string> {
+  const key = settings.apiKey;
+  const baseUrl = settings.baseUrl || DEFAULT_BASE_URL;
+
+  if (!key) throw new AuthError("OpenAI API Key required");
+
+  return withDeadline('OpenAI', STORY_TIMEOUT_MS, signal, async ({ signal, extend }) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${key}`
+      },
+      body: JSON.stringify({
+        model: settings.model || "gpt-4o",
+        messages: [
+          { role: "system", content: systemInstruction },
+          ...messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+        ],
+        ...(format === 'story' ? { response_format: { type: "json_object" } } : {}),
+        stream: !!onChunk
+      })
+    });
+
+    if (!response.ok) throw await errorFromResponse('OpenAI', response);
+    if (onChunk && response.body) {
+      return readStream(response.body, onChunk, extend);
+    }
+    return readMessage(response);
+  });
+}
+
+async function generateImage({ prompt, settings, signal }: ImageRequest): Promise<string | null> {
+  if (!settings.apiKey) return null;
+
+  // OpenAI Chat Image
+  const baseUrl = settings.baseUrl || DEFAULT_BASE_URL;
+  return withDeadline('OpenAI', IMAGE_TIMEOUT_MS, signal, async ({ signal }) => {
+    const resp = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+          'Authorization': `Bearer ${settings.apiKey}`,
+          'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+          model: settings.imageModel || "gpt-4o-image",
+          messages: [{ role: "user", content: prompt }],
+          stream: false
+      })
+    });
+    if (!resp.ok) throw await errorFromResponse('OpenAI', resp);
+    const content = await readMessage(resp);
+    const linkMatch = content.match(/!\[.*?\]\((.*?)\)/) || content.match(/(https?:\/\/[^\s]+)/);
+    if (linkMatch) return linkMatch[1];
+    if (content.length < 5000) return content.trim();
+    return null;
+  });
+}
+
+export const openaiProvider: ProviderDescriptor = {
+  id: 'openai',
+  label: 'OpenAI',
+  story: { generateStory },
+  image: { generateImage },
+  defaultModel: 'gpt-4o',
+  defaultImageModel: 'gpt-4o-image',
+  models: ['gpt-4o', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+  requiresApiKey: true,
+  hasCredentials: (settings) => !!settings.apiKey,
+  baseUrlPlaceholder: DEFAULT_BASE_URL,
+  apiKeyPlaceholder: "sk-..."
+};
@@ -0,0 +1,25 @@
+import { GameSettings, LLMProvider } from '../../types';
+import { ProviderDescriptor } from './types';
+
+const providers: Map<LLMProvider, ProviderDescriptor> = new Map();
+
+export function registerProvider(descriptor: ProviderDescriptor) {
+  providers.set(descriptor.id, descriptor);
+}
+
+export function getProvider(id: LLMProvider): ProviderDescriptor | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): ProviderDescriptor[] {
+  return Array.from(providers.values());
+}
+
+export const OFFLINE_PROVIDER_ID: LLMProvider = 'offline';
+
+/** The backend that will actually answer: the selected one, or the offline script when it has no key to call with. */
+export function resolveProvider(settings: GameSettings): ProviderDescriptor | undefined {
+  const selected = providers.get(settings.provider);
+  if (selected?.hasCredentials && !selected.hasCredentials(settings)) return providers.get(OFFLINE_PROVIDER_ID) || selected;
+  return selected;
+}
@@ -0,0 +1,76 @@
+import { SessionEntry, SessionFile } from "../../types";
+import { callFingerprint } from "../sessionRecorder";
+import { ProviderError } from "./errors";
+import { ProviderDescriptor, StoryRequest, ImageRequest } from "./types";
+
+// Serves a recorded session (see services/sessionRecorder.ts) back without touching the network.
+// Calls are matched by fingerprint; a turn asked for more than once gets its recorded outputs in
+// order (first reply, then the repair rounds), and the last one again once they run out.
+
+interface LoadedSession {
+  file: SessionFile;
+  byFingerprint: Map<string, SessionEntry[]>;
+  served: Map<string, number>;
+}
+
+let session: LoadedSession | null = null;
+
+export function loadReplaySession(file: SessionFile) {
+  const byFingerprint = new Map<string, SessionEntry[]>();
+  // Prefetches were generated alongside the real turns; the player's own calls come first
+  const ordered = [...file.entries].sort((a, b) => Number(!!a.prefetch) - Number(!!b.prefetch) || a.seq - b.seq);
+  ordered.forEach(entry => {
+    const list = byFingerprint.get(entry.fingerprint) || [];
+    list.push(entry);
+    byFingerprint.set(entry.fingerprint, list);
+  });
+  session = { file, byFingerprint, served: new Map() };
+  console.log(`[ReplayProvider] Loaded ${file.entries.length} recorded calls`);
+}
+
+export const getReplaySession = (): SessionFile | null => session?.file || null;
+
+function nextEntry(fingerprint: string): SessionEntry {
+  const entries = session?.byFingerprint.get(fingerprint);
+  if (!session || !entries) throw new ProviderError('unknown', "Replay: this request was not recorded");
+  const served = session.served.get(fingerprint) || 0;
+  session.served.set(fingerprint, served + 1);
+  return entries[Math.min(served, entries.length - 1)];
+}
+
+// Recorded failures are thrown again with their kind, but never retried
+function replayOutput(entry: SessionEntry) {
+  if ('error' in entry.output) throw new ProviderError(entry.output.error.kind, `Replay: ${entry.output.error.message}`);
+  return entry.output;
+}
+
+async function generateStory({ messages, onChunk, format = 'story', turnKey }: StoryRequest): Promise<string> {
+  const fingerprint = format === 'story' && turnKey ? turnKey : await callFingerprint('summary', messages);
+  const output = replayOutput(nextEntry(fingerprint));
+  const raw = 'raw' in output ? output.raw : "";
+  if (onChunk) {
+    for (let i = 0; i < raw.length; i += 48) onChunk(raw.slice(i, i + 48));
+  }
+  return raw;
+}
+
+async function generateImage({ prompt }: ImageRequest): Promise<string | null> {
+  const entries = session?.byFingerprint.get(await callFingerprint('image', prompt));
+  if (!entries) return null; // Not every scene had its image recorded; keep the current one
+  const output = replayOutput(entries[0]);
+  return 'url' in output ? output.url : null;
+}
+
+export const replayProvider: ProviderDescriptor = {
+  id: 'replay',
+  label: 'Replay',
+  story: { generateStory },
+  image: { generateImage },
+  defaultModel: '',
+  models: [],
+  requiresApiKey: false,
+  usesApiKey: false,
+  hasCredentials: () => session !== null, // Nothing loaded: play offline rather than fail every turn
+  scripted: true,
+  baseUrlPlaceholder: ""
+};
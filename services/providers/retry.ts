@@ -0,0 +1,48 @@
+import { ProviderError, RateLimitError } from './errors';
+
+export interface RetryOptions {
+  retries: number; // Extra attempts after the first
+  signal?: AbortSignal; // Aborts the wait between attempts too
+  onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void;
+}
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15_000;
+const MAX_RETRY_AFTER_MS = 30_000; // A server asking for longer than this gets the error shown instead
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+});
+
+// Exponential backoff with jitter (half fixed, half random), or what Retry-After asked for
+function delayFor(error: ProviderError, attempt: number): number | null {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs + Math.random() * 250 : null;
+  }
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+/** Runs `operation`, retrying the errors worth retrying (rate limits, network, timeouts). */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, { retries, signal, onRetry }: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (e) {
+      if (!(e instanceof ProviderError) || !e.retryable || attempt >= retries) throw e;
+      const delay = delayFor(e, attempt);
+      if (delay === null) throw e;
+      onRetry?.(e, delay, attempt + 1);
+      await sleep(delay, signal);
+    }
+  }
+}
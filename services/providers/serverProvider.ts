@@ -0,0 +1,87 @@
+import { GameSettings } from "../../types";
+import { ProviderDescriptor, StoryRequest, ImageRequest } from "./types";
+import { BadOutputError, errorFromResponse } from "./errors";
+import { withDeadline, STORY_TIMEOUT_MS, IMAGE_TIMEOUT_MS } from "./deadline";
+
+// Goes through server.js (/api/story, /api/image): the provider key lives in the server's
+// environment, and the server keeps its own cache of what it generated.
+
+const baseUrlOf = (settings: GameSettings) => (settings.baseUrl || '').replace(/\/+$/, '');
+
+// The server writes the system prompt itself from the scenario, language and summary: a turn is
+// "story", and the only free-text call the game makes is folding old turns into a "summary"
+async function generateStory({ messages, settings, onChunk, format = 'story', signal, scenarioId, summary }: StoryRequest): Promise<string> {
+  return withDeadline('Server proxy', STORY_TIMEOUT_MS, signal, async ({ signal, extend }) => {
+    const response = await fetch(`${baseUrlOf(settings)}/api/story`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        format: format === 'story' ? 'story' : 'summary',
+        scenarioId,
+        language: settings.language,
+        summary: summary || null,
+        messages: messages.map(m => ({ role: m.role, text: m.text })),
+        model: settings.model || undefined,
+        stream: !!onChunk
+      })
+    });
+    if (!response.ok) throw await errorFromResponse('Server proxy', response);
+
+    // Plain text body either way; streamed replies just arrive in pieces
+    if (onChunk && response.body) {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let text = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        extend();
+        const chunk = decoder.decode(value, { stream: true });
+        if (chunk) {
+          text += chunk;
+          onChunk(chunk);
+        }
+      }
+      return text;
+    }
+    return response.text();
+  });
+}
+
+async function generateImage({ prompt, settings, signal }: ImageRequest): Promise<string | null> {
+  return withDeadline('Server proxy', IMAGE_TIMEOUT_MS, signal, async ({ signal }) => {
+    const response = await fetch(`${baseUrlOf(settings)}/api/image`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt })
+    });
+    if (!response.ok) throw await errorFromResponse('Server proxy', response);
+    const data = await response.json().catch(() => {
+      throw new BadOutputError("Server proxy returned a body that is not JSON");
+    });
+    if (!data.url) return null;
+    return data.url.startsWith('/') ? `${baseUrlOf(settings)}${data.url}` : data.url;
+  });
+}
+
+async function listModels(settings: GameSettings): Promise<string[]> {
+  const response = await fetch(`${baseUrlOf(settings)}/api/proxy`);
+  if (!response.ok) return [];
+  const data = await response.json();
+  return data.enabled ? data.models || [] : [];
+}
+
+export const serverProvider: ProviderDescriptor = {
+  id: 'server',
+  label: 'Server',
+  story: { generateStory },
+  image: { generateImage },
+  defaultModel: '', // Whatever the server is configured with
+  models: [],
+  requiresApiKey: false,
+  usesApiKey: false,
+  baseUrlPlaceholder: "留空即本站 (same origin)",
+  listModels
+};
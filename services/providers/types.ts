@@ -0,0 +1,46 @@
+import { ChatHistoryItem, GameSettings, LLMProvider } from '../../types';
+
+export interface StoryRequest {
+  systemInstruction: string;
+  messages: ChatHistoryItem[]; // Full conversation, ending with the player's prompt
+  settings: GameSettings;
+  onChunk?: (text: string) => void; // When set, stream and report raw text as it arrives
+  format?: 'story' | 'text'; // 'story' (default) enforces the StoryResponse JSON, 'text' is free prose
+  signal?: AbortSignal; // Aborted when a prefetched branch goes stale
+  scenarioId?: string; // Pack being played; the offline provider picks its script by it, the server proxy its system prompt
+  summary?: string | null; // Summary of folded turns, already part of systemInstruction
+  turnKey?: string; // Stable id of the turn (history + choice); the replay provider looks recordings up by it
+}
+
+export interface ImageRequest {
+  prompt: string; // Final prompt, aesthetic already applied
+  settings: GameSettings;
+  signal?: AbortSignal;
+}
+
+/** Turns a conversation into the model's raw reply. Parsing is GameService's job. */
+export interface StoryProvider {
+  generateStory(request: StoryRequest): Promise<string>;
+}
+
+/** Returns a displayable image URL (data URL or remote), or null if nothing was produced. */
+export interface ImageProvider {
+  generateImage(request: ImageRequest): Promise<string | null>;
+}
+
+export interface ProviderDescriptor {
+  id: LLMProvider;
+  label: string;
+  story: StoryProvider;
+  image?: ImageProvider; // Providers without one keep the current scene image
+  defaultModel: string;
+  defaultImageModel?: string;
+  models: string[]; // Suggestions shown in SettingsModal
+  requiresApiKey: boolean;
+  usesApiKey?: boolean; // false hides the key field (the server proxy keeps its own)
+  hasCredentials?: (settings: GameSettings) => boolean; // false: nothing to call with, play offline instead
+  scripted?: boolean; // Answers from a bundled script or a recording: no model or base URL to set, nothing worth caching
+  baseUrlPlaceholder: string;
+  apiKeyPlaceholder?: string;
+  listModels?: (settings: GameSettings) => Promise<string[]>; // Ask the backend what it has installed
+}
@@ -0,0 +1,227 @@
+import { StoryResponse, SaveGame, SaveSlotMeta, SaveSnapshot } from '../types';
+import { buildLinearTree, createStoryTree } from './storyTree';
+import { INITIAL_STATS } from './statRules';
+import { migrateInventory } from './inventory';
+import { DEFAULT_SCENARIO_ID } from './scenarioService';
+
+const STORAGE_KEY_SAVE_INDEX = "nether_chronicles_saves";
+const STORAGE_KEY_SAVE_PREFIX = "nether_chronicles_save_";
+
+export const AUTOSAVE_SLOT_ID = "autosave";
+export const SAVE_VERSION = 5;
+export const MAX_SAVE_SLOTS = 8; // Named slots, the autosave slot is extra
+
+const THUMBNAIL_WIDTH = 160;
+const EXCERPT_LENGTH = 60;
+
+// Fill in anything an older StoryResponse shape may be missing
+const restoreResponse = (raw: any): StoryResponse | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  return {
+    narrative: typeof raw.narrative === 'string' ? raw.narrative : "......",
+    choices: Array.isArray(raw.choices) ? raw.choices : [],
+    visualPrompt: typeof raw.visualPrompt === 'string' ? raw.visualPrompt : "",
+    isGameOver: raw.isGameOver === true,
+    flashReveal: false, // Never replay a jumpscare on load
+    inventoryUpdates: raw.inventoryUpdates,
+    statUpdates: raw.statUpdates,
+    mood: raw.mood || 'eerie'
+  };
+};
+
+// Each entry upgrades a save from version N to N + 1.
+// When the save format changes, bump SAVE_VERSION and add a step here.
+const MIGRATIONS: Record<number, (save: any) => any> = {
+  // v2: story tree for rewinding
+  1: (save) => {
+    const { snapshot } = save;
+    const { tree, currentNodeId } = buildLinearTree(
+      snapshot.history || [],
+      restoreResponse(snapshot.currentResponse),
+      migrateInventory(snapshot.inventory)
+    );
+    return { ...save, version: 2, snapshot: { ...snapshot, storyTree: tree, currentNodeId } };
+  },
+  // v3: sanity / vitality, older runs resume at full strength
+  2: (save) => {
+    const { snapshot } = save;
+    const nodes: Record<string, any> = {};
+    Object.entries(snapshot.storyTree?.nodes || {}).forEach(([id, node]: [string, any]) => {
+      nodes[id] = { ...node, stats: node.stats || INITIAL_STATS };
+    });
+    return {
+      ...save,
+      version: 3,
+      snapshot: { ...snapshot, stats: INITIAL_STATS, storyTree: { ...snapshot.storyTree, nodes } }
+    };
+  },
+  // v4: inventory items are objects instead of plain names
+  3: (save) => {
+    const { snapshot } = save;
+    const nodes: Record<string, any> = {};
+    Object.entries(snapshot.storyTree?.nodes || {}).forEach(([id, node]: [string, any]) => {
+      nodes[id] = { ...node, inventory: migrateInventory(node.inventory) };
+    });
+    return {
+      ...save,
+      version: 4,
+      snapshot: { ...snapshot, inventory: migrateInventory(snapshot.inventory), storyTree: { ...snapshot.storyTree, nodes } }
+    };
+  },
+  // v5: scenario packs; everything before them was the 中元老宅 story
+  4: (save) => ({ ...save, version: 5, snapshot: { ...save.snapshot, scenarioId: DEFAULT_SCENARIO_ID } })
+};
+
+const migrate = (raw: any): SaveGame | null => {
+  if (!raw || typeof raw !== 'object' || !raw.meta || !raw.snapshot) return null;
+
+  let save = raw;
+  let version = typeof save.version === 'number' ? save.version : 1;
+  if (version > SAVE_VERSION) {
+    console.warn(`[SaveService] Save ${save.meta.id} is from a newer version (${version}).`);
+    return null;
+  }
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    save = step(save);
+    version++;
+  }
+
+  const snapshot = save.snapshot;
+  return {
+    version: SAVE_VERSION,
+    meta: save.meta,
+    snapshot: {
+      scenarioId: typeof snapshot.scenarioId === 'string' ? snapshot.scenarioId : DEFAULT_SCENARIO_ID,
+      history: Array.isArray(snapshot.history) ? snapshot.history : [],
+      inventory: migrateInventory(snapshot.inventory),
+      stats: snapshot.stats || INITIAL_STATS,
+      currentImage: snapshot.currentImage,
+      isGameOver: snapshot.isGameOver === true,
+      currentResponse: restoreResponse(snapshot.currentResponse),
+      storyTree: snapshot.storyTree || createStoryTree(),
+      currentNodeId: snapshot.currentNodeId || null
+    }
+  };
+};
+
+// Downscale the current scene into a small JPEG for the slot list.
+// Remote images without CORS headers taint the canvas; those get no thumbnail.
+const createThumbnail = (src?: string): Promise<string | null> => {
+  if (!src) return Promise.resolve(null);
+  return new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const scale = THUMBNAIL_WIDTH / img.naturalWidth;
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_WIDTH;
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.6));
+      } catch (e) {
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+};
+
+export class SaveService {
+
+  // --- Index ---
+
+  public listSlots(): SaveSlotMeta[] {
+    try {
+      const index: SaveSlotMeta[] = JSON.parse(localStorage.getItem(STORAGE_KEY_SAVE_INDEX) || "[]");
+      return index.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /** Most recent save that can still be played (used by "继续"). */
+  public getLatestSlot(): SaveSlotMeta | null {
+    return this.listSlots().find(meta => !meta.isGameOver) || null;
+  }
+
+  private writeIndex(index: SaveSlotMeta[]) {
+    localStorage.setItem(STORAGE_KEY_SAVE_INDEX, JSON.stringify(index));
+  }
+
+  // --- Load / Save ---
+
+  public load(id: string): SaveGame | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY_SAVE_PREFIX + id);
+      if (!raw) return null;
+      return migrate(JSON.parse(raw));
+    } catch (e) {
+      console.warn("[SaveService] Failed to load save", id, e);
+      return null;
+    }
+  }
+
+  public async save(id: string, name: string, snapshot: SaveSnapshot): Promise<boolean> {
+    const lastNarrative = snapshot.currentResponse?.narrative || "";
+    const meta: SaveSlotMeta = {
+      id,
+      name,
+      savedAt: Date.now(),
+      turnCount: snapshot.history.filter(h => h.role === 'model').length,
+      excerpt: lastNarrative.replace(/\s+/g, ' ').slice(0, EXCERPT_LENGTH),
+      thumbnail: await createThumbnail(snapshot.currentImage),
+      isGameOver: snapshot.isGameOver
+    };
+
+    const save: SaveGame = {
+      version: SAVE_VERSION,
+      meta,
+      snapshot: {
+        ...snapshot,
+        // Generated images are restored from the image cache: base64 would bloat localStorage,
+        // and object URLs die with the page
+        currentImage: /^(data|blob):/.test(snapshot.currentImage || '') ? undefined : snapshot.currentImage
+      }
+    };
+
+    try {
+      localStorage.setItem(STORAGE_KEY_SAVE_PREFIX + id, JSON.stringify(save));
+      const index = this.listSlots().filter(m => m.id !== id);
+      this.writeIndex([meta, ...index]);
+      return true;
+    } catch (e) {
+      console.warn("[SaveService] Failed to write save (quota?)", e);
+      return false;
+    }
+  }
+
+  public autosave(snapshot: SaveSnapshot, name: string = "自动存档"): Promise<boolean> {
+    return this.save(AUTOSAVE_SLOT_ID, name, snapshot);
+  }
+
+  /** Creates a new named slot, or returns null when all slots are taken. */
+  public async createSlot(name: string, snapshot: SaveSnapshot): Promise<SaveSlotMeta | null> {
+    const named = this.listSlots().filter(m => m.id !== AUTOSAVE_SLOT_ID);
+    if (named.length >= MAX_SAVE_SLOTS) return null;
+    const id = `slot_${Date.now().toString(36)}`;
+    const ok = await this.save(id, name, snapshot);
+    return ok ? this.listSlots().find(m => m.id === id) || null : null;
+  }
+
+  public remove(id: string) {
+    try {
+      localStorage.removeItem(STORAGE_KEY_SAVE_PREFIX + id);
+      this.writeIndex(this.listSlots().filter(m => m.id !== id));
+    } catch (e) {
+      console.warn("[SaveService] Failed to delete save", id, e);
+    }
+  }
+}
+
+export const saveService = new SaveService();
@@ -0,0 +1,56 @@
+/// <reference types="vite/client" />
+import { Scenario, InventoryItem, InventoryItemUpdate, Language } from '../types';
+import { migrateInventory } from './inventory';
+
+export const DEFAULT_SCENARIO_ID = "zhongyuan-laozhai";
+
+// Every JSON file in /scenarios is a pack; adding one is just dropping a file there
+const modules = import.meta.glob('../scenarios/*.json', { eager: true, import: 'default' });
+
+const parseScenario = (path: string, raw: any): Scenario | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const missing = ['id', 'title', 'openingPrompt'].filter(field => typeof raw[field] !== 'string' || !raw[field].trim());
+  if (missing.length > 0) {
+    console.warn(`[ScenarioService] Skipping ${path}: missing ${missing.join(', ')}`);
+    return null;
+  }
+  return {
+    id: raw.id,
+    title: raw.title,
+    description: typeof raw.description === 'string' ? raw.description : "",
+    cover: typeof raw.cover === 'string' ? raw.cover : "",
+    systemPrompt: typeof raw.systemPrompt === 'string' ? raw.systemPrompt : "",
+    openingPrompt: raw.openingPrompt,
+    startingInventory: Array.isArray(raw.startingInventory) ? raw.startingInventory as InventoryItemUpdate[] : [],
+    aesthetic: typeof raw.aesthetic === 'string' ? raw.aesthetic : "",
+    i18n: raw.i18n && typeof raw.i18n === 'object' ? raw.i18n : undefined
+  };
+};
+
+// The default pack first, the rest by title
+const SCENARIOS: Scenario[] = Object.entries(modules)
+  .map(([path, raw]) => parseScenario(path, raw))
+  .filter((s): s is Scenario => s !== null)
+  .sort((a, b) => {
+    if (a.id === DEFAULT_SCENARIO_ID) return -1;
+    if (b.id === DEFAULT_SCENARIO_ID) return 1;
+    return a.title.localeCompare(b.title, 'zh');
+  });
+
+export const listScenarios = (): Scenario[] => SCENARIOS;
+
+/** Unknown ids (e.g. a save from a pack that was removed) fall back to the default pack. */
+export const getScenario = (id?: string | null): Scenario => {
+  const found = SCENARIOS.find(s => s.id === id) || SCENARIOS.find(s => s.id === DEFAULT_SCENARIO_ID) || SCENARIOS[0];
+  if (!found) throw new Error("No scenarios found in /scenarios");
+  return found;
+};
+
+/** The pack's text in `language`, falling back to the Chinese fields for anything not translated. */
+export const localizeScenario = (scenario: Scenario, language: Language): Scenario => {
+  const overrides = scenario.i18n?.[language];
+  return overrides ? { ...scenario, ...overrides } : scenario;
+};
+
+export const getStartingInventory = (scenario: Scenario): InventoryItem[] =>
+  migrateInventory(scenario.startingInventory);
@@ -0,0 +1,172 @@
+import { SeanceRole, SeanceScene, SeanceState, SeanceStatus } from '../types';
+import { blobToDataUrl } from './l1Store';
+
+// Browser side of server.js's séance rooms (see server/seance.js): room state arrives over
+// Server-Sent Events, votes and scenes go up as plain POSTs.
+
+const ROOMS_URL = '/api/seance/rooms';
+const CLIENT_KEY_PREFIX = 'nether_seance_client_';
+export const SEANCE_VOTE_SECONDS = 30;
+
+// One id per room and tab, kept in sessionStorage so a reload rejoins as the same member (name and vote)
+const clientIdFor = (code: string): string => {
+  const key = CLIENT_KEY_PREFIX + code;
+  try {
+    const stored = sessionStorage.getItem(key);
+    if (stored) return stored;
+    const id = crypto.randomUUID().replace(/-/g, '');
+    sessionStorage.setItem(key, id);
+    return id;
+  } catch (e) {
+    return crypto.randomUUID().replace(/-/g, '');
+  }
+};
+
+async function post(path: string, body: unknown, token?: string): Promise<any> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || `Séance request failed (${response.status})`);
+  return result;
+}
+
+export const normalizeRoomCode = (code: string) => code.trim().toUpperCase();
+
+export interface SeanceListener {
+  onState?: (state: SeanceState) => void;
+  onStatus?: (status: SeanceStatus) => void;
+}
+
+/** A seat in a room: follows its state and, for players, votes. */
+export class SeanceConnection {
+  public state: SeanceState | null = null;
+  public status: SeanceStatus = 'connecting';
+  protected readonly clientId: string;
+  private source: EventSource | null = null;
+  private clockOffset = 0; // Server clock minus ours, for the countdown
+
+  constructor(
+    public readonly code: string,
+    public readonly role: SeanceRole,
+    private readonly name: string,
+    private readonly listener: SeanceListener,
+    protected readonly token?: string
+  ) {
+    this.clientId = clientIdFor(code);
+  }
+
+  connect() {
+    const params = new URLSearchParams({ client: this.clientId, role: this.role, name: this.name });
+    if (this.token) params.set('token', this.token);
+    const source = new EventSource(`${ROOMS_URL}/${this.code}/events?${params}`);
+    this.source = source;
+
+    source.onopen = () => this.setStatus('open');
+    // EventSource retries dropped connections by itself; it only gives up when the room refuses us
+    source.onerror = () => this.setStatus(source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting');
+    source.addEventListener('state', (event) => {
+      const state: SeanceState = JSON.parse((event as MessageEvent).data);
+      this.clockOffset = state.serverTime - Date.now();
+      this.state = state;
+      this.listener.onState?.(state);
+    });
+    source.addEventListener('closed', () => this.close());
+  }
+
+  /** Milliseconds left to vote on the current scene, by the server's clock. */
+  timeLeft(): number {
+    const vote = this.state?.vote;
+    if (!vote || vote.closed) return 0;
+    return Math.max(0, vote.endsAt - (Date.now() + this.clockOffset));
+  }
+
+  async vote(choice: number | null) {
+    if (!this.state) return;
+    await post(`${ROOMS_URL}/${this.code}/vote`, { client: this.clientId, turn: this.state.turn, choice });
+  }
+
+  close() {
+    this.source?.close();
+    this.source = null;
+    this.setStatus('closed');
+  }
+
+  private setStatus(status: SeanceStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.listener.onStatus?.(status);
+  }
+}
+
+/** The playing browser: publishes each scene and takes the room's verdict back to GameService. */
+export class SeanceHost extends SeanceConnection {
+  private turn = 0;
+  private lastNarrative: string | null = null;
+  private appliedTurn = 0;
+  private publishing: Promise<void> = Promise.resolve();
+  private sharedImages = new Map<string, string | null>(); // Local image URL -> the URL the room loads
+
+  static async open(listener: SeanceListener): Promise<SeanceHost> {
+    const { code, hostToken } = await post(ROOMS_URL, {});
+    const host = new SeanceHost(code, 'host', '', listener, hostToken);
+    host.connect();
+    console.log(`[Seance] Opened room ${code}`);
+    return host;
+  }
+
+  /**
+   * Shows `scene` to the room. A new narrative is a new turn and starts a vote; the same one
+   * again (its image having arrived) updates the scene in place. Calls go out in order.
+   */
+  publish(scene: SeanceScene) {
+    if (scene.narrative !== this.lastNarrative) {
+      this.turn++;
+      this.lastNarrative = scene.narrative;
+    }
+    const turn = this.turn;
+    this.publishing = this.publishing.then(async () => {
+      try {
+        const image = scene.image ? await this.shareableImage(scene.image) : null;
+        const result = await post(`${ROOMS_URL}/${this.code}/scene`, { ...scene, image, turn, voteSeconds: SEANCE_VOTE_SECONDS }, this.token);
+        if (scene.image) this.sharedImages.set(scene.image, result.image ?? null);
+      } catch (e) {
+        console.warn("[Seance] Failed to publish scene", e);
+      }
+    });
+  }
+
+  /** The choice the room settled on for the current scene, once; null until then. */
+  takeWinner(): string | null {
+    const state = this.state;
+    if (!state?.vote?.closed || state.vote.winner === null || state.turn !== this.turn || this.appliedTurn === this.turn) return null;
+    this.appliedTurn = this.turn;
+    return state.scene?.choices[state.vote.winner] ?? null;
+  }
+
+  async resolveNow() {
+    await post(`${ROOMS_URL}/${this.code}/resolve`, {}, this.token);
+  }
+
+  async end() {
+    try {
+      await fetch(`${ROOMS_URL}/${this.code}`, { method: 'DELETE', headers: { Authorization: `Bearer ${this.token}` } });
+    } catch (e) {
+      console.warn("[Seance] Failed to close room", e);
+    }
+    this.close();
+  }
+
+  // Object URLs only exist in this tab; the server stores the bytes and hands back a URL everyone can load
+  private async shareableImage(url: string): Promise<string | null> {
+    if (this.sharedImages.has(url)) return this.sharedImages.get(url) ?? null;
+    if (!url.startsWith('blob:')) return url;
+    try {
+      return await blobToDataUrl(await (await fetch(url)).blob());
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { ChatHistoryItem, GameSettings, SessionCallKind, SessionEntry, SessionFile, SessionOutput } from '../types';
+import { errorKindOf, isAbortError } from './providers/errors';
+
+// Recording mode: every provider call GameService makes, with the raw output it got back (or the
+// error it threw), collected into a session file a tester can attach to a bug report. The replay
+// provider serves those outputs back byte for byte, malformed JSON included.
+
+export const SESSION_FORMAT = 'nether-chronicles-session';
+export const SESSION_VERSION = 1;
+
+const MAX_ENTRIES = 2000;
+const MAX_INLINE_IMAGE_CHARS = 200_000; // Larger data: URLs are left out of the file
+
+const sha256 = async (message: string): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** Names a turn (the history so far plus the choice) the same way in the recording run and the replay run. */
+export const turnFingerprint = (history: ChatHistoryItem[], choice: string): Promise<string> =>
+  sha256(JSON.stringify(['story', history.map(h => [h.role, h.text]), choice]));
+
+/** Summaries are looked up by their exact request, images by their final prompt. */
+export const callFingerprint = (kind: Exclude<SessionCallKind, 'story'>, input: ChatHistoryItem[] | string): Promise<string> =>
+  sha256(JSON.stringify([kind, typeof input === 'string' ? input : input.map(h => [h.role, h.text])]));
+
+/** Validates an uploaded session file. */
+export function parseSessionFile(text: string): SessionFile {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Session file is not JSON");
+  }
+  if (file?.format !== SESSION_FORMAT || !Array.isArray(file.entries)) throw new Error("Not a session recording");
+  if (file.version > SESSION_VERSION) throw new Error(`Session recorded by a newer version (${file.version})`);
+  return file as SessionFile;
+}
+
+type RecordedCall = Omit<SessionEntry, 'seq' | 'at' | 'output'>;
+
+export class SessionRecorder {
+  private entries: SessionEntry[] = [];
+  public enabled = false;
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Runs `call`, recording what it returned or threw. Aborted prefetches are not part of the session. */
+  public async capture<T extends string | null>(call: RecordedCall, run: () => Promise<T>): Promise<T> {
+    if (!this.enabled) return run();
+    try {
+      const output = await run();
+      this.push(call, call.kind === 'image' ? this.imageOutput(output) : { raw: output ?? "" });
+      return output;
+    } catch (e) {
+      if (!isAbortError(e)) {
+        this.push(call, { error: { kind: errorKindOf(e), message: e instanceof Error ? e.message : String(e) } });
+      }
+      throw e;
+    }
+  }
+
+  public toFile(settings: GameSettings): SessionFile {
+    const { apiKey, ...safeSettings } = settings;
+    return {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      recordedAt: this.entries[0]?.at ?? Date.now(),
+      settings: safeSettings,
+      scenarioId: this.entries.find(e => e.turn)?.turn?.scenarioId || '',
+      entries: this.entries
+    };
+  }
+
+  public clear() {
+    this.entries = [];
+  }
+
+  private imageOutput(url: string | null): SessionOutput {
+    if (url && url.startsWith('data:') && url.length > MAX_INLINE_IMAGE_CHARS) return { url: null, omitted: true };
+    return { url };
+  }
+
+  private push(call: RecordedCall, output: SessionOutput) {
+    if (this.entries.length >= MAX_ENTRIES) {
+      console.warn("[SessionRecorder] Session is full, no longer recording");
+      return;
+    }
+    this.entries.push({ ...call, seq: this.entries.length, at: Date.now(), output });
+  }
+}
@@ -0,0 +1,61 @@
+import { PlayerStats, StoryResponse, Language } from '../types';
+import { getPrompts, isSanityBreakChoice } from './prompts';
+
+export const STAT_MAX = 100;
+export const INITIAL_STATS: PlayerStats = { sanity: STAT_MAX, vitality: STAT_MAX };
+
+// Where sanity settles after a 崩溃 scene, so the player isn't stuck in a loop
+const SANITY_RECOVERY = 30;
+// A single turn can't swing a stat by more than this
+const MAX_DELTA = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const applyStatUpdates = (stats: PlayerStats, updates?: Partial<PlayerStats>): PlayerStats => ({
+  sanity: clamp(stats.sanity + clamp(updates?.sanity || 0, -MAX_DELTA, MAX_DELTA), 0, STAT_MAX),
+  vitality: clamp(stats.vitality + clamp(updates?.vitality || 0, -MAX_DELTA, MAX_DELTA), 0, STAT_MAX)
+});
+
+/** Injected into the player's prompt next to the inventory. */
+export const describeStats = (stats: PlayerStats, language?: Language): string =>
+  getPrompts(language).stats(stats.sanity, stats.vitality, STAT_MAX);
+
+/**
+ * Client-side rules the model can't overrule:
+ * - 阳气 at zero ends the run, whatever the model said.
+ * - 理智 at zero replaces the choices with a forced 崩溃 scene (the localized
+ *   break choice, which GameService swaps for the 崩溃 prompt).
+ * - After that scene sanity recovers to a floor.
+ */
+export const applyStatRules = (
+  response: StoryResponse,
+  stats: PlayerStats,
+  choice: string | null,
+  language?: Language
+): { response: StoryResponse; stats: PlayerStats } => {
+  const prompts = getPrompts(language);
+  let next = applyStatUpdates(stats, response.statUpdates);
+
+  if (isSanityBreakChoice(choice)) {
+    next = { ...next, sanity: Math.max(next.sanity, SANITY_RECOVERY) };
+  }
+
+  if (next.vitality <= 0) {
+    return {
+      stats: next,
+      response: {
+        ...response,
+        isGameOver: true,
+        narrative: response.isGameOver
+          ? response.narrative
+          : `${response.narrative}\n\n${prompts.epitaph}`
+      }
+    };
+  }
+
+  if (next.sanity <= 0 && !response.isGameOver) {
+    return { stats: next, response: { ...response, choices: [prompts.sanityBreakChoice] } };
+  }
+
+  return { response, stats: next };
+};
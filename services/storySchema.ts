@@ -0,0 +1,231 @@
+import { StoryResponse, Mood, InventoryItemUpdate, Language } from '../types';
+import { getPrompts } from './prompts';
+import { STORY_LIMITS } from '../shared/storyLimits';
+
+export const MOODS: Mood[] = ['eerie', 'tense', 'sad', 'calm', 'terrifying'];
+
+// Bump when StoryResponse changes shape; part of the cache namespace, so older entries are left behind
+export const STORY_SCHEMA_VERSION = 3;
+
+export interface ValidationResult {
+  value: StoryResponse | null; // null when the output cannot be used as-is
+  errors: string[];            // Fatal problems, worth sending back to the model
+  repairs: string[];           // Coerced silently, logged for debugging
+}
+
+// Choice of the fallback older clients cached
+const FALLBACK_CHOICE = "重新凝视黑暗 (重试)";
+
+// Shown when the model keeps failing. Never cached (see isFallback).
+export const createFallbackResponse = (language?: Language): StoryResponse => ({
+  narrative: getPrompts(language).fallbackNarrative,
+  choices: [getPrompts(language).fallbackChoice],
+  visualPrompt: "static noise, glitch, darkness",
+  isGameOver: false,
+  flashReveal: false,
+  mood: 'tense',
+  isFallback: true
+});
+
+// Also catches fallbacks cached by older clients, which predate the isFallback flag
+export const isFallbackResponse = (response: Partial<StoryResponse>): boolean =>
+  response.isFallback === true || (Array.isArray(response.choices) && response.choices.includes(FALLBACK_CHOICE));
+
+// Strip markdown fences / chatter and pull out the outermost JSON object
+const extractJson = (text: string): string => {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced.trim();
+};
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1 || value === '1') return true;
+  if (value === 'false' || value === 0 || value === '0' || value === null || value === undefined) return false;
+  return null;
+};
+
+const toStringList = (value: unknown): string[] | null => {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? [value] : null;
+  if (!list) return null;
+  const cleaned = list
+    .filter(item => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim())
+    .filter(item => item.length > 0);
+  return Array.from(new Set(cleaned));
+};
+
+// Item additions may be bare names or objects with details; both become objects
+const toItemUpdates = (value: unknown): InventoryItemUpdate[] | null => {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  const updates: InventoryItemUpdate[] = [];
+  for (const entry of list) {
+    if (typeof entry === 'string') {
+      if (entry.trim()) updates.push({ name: entry.trim() });
+    } else if (entry && typeof entry === 'object' && typeof entry.name === 'string' && entry.name.trim()) {
+      updates.push({
+        name: entry.name.trim(),
+        ...(typeof entry.description === 'string' ? { description: entry.description } : {}),
+        ...(typeof entry.iconPrompt === 'string' ? { iconPrompt: entry.iconPrompt } : {}),
+        ...(toBoolean(entry.consumable) ? { consumable: true } : {}),
+        ...(toBoolean(entry.key) ? { key: true } : {})
+      });
+    } else {
+      return null;
+    }
+  }
+  return updates;
+};
+
+// Output past the shared limits is cut to them, so anything the client caches the server accepts too
+const clip = (text: string, max: number, field: string, repairs: string[]): string => {
+  if (text.length <= max) return text;
+  repairs.push(`${field} 超过 ${max} 字符，已截断`);
+  return text.slice(0, max);
+};
+
+const capList = <T>(list: T[], max: number, field: string, repairs: string[]): T[] => {
+  if (list.length <= max) return list;
+  repairs.push(`${field} 超过 ${max} 项，只保留前 ${max} 项`);
+  return list.slice(0, max);
+};
+
+const clipItem = (item: InventoryItemUpdate, repairs: string[]): InventoryItemUpdate => ({
+  ...item,
+  name: clip(item.name, STORY_LIMITS.itemField, 'inventoryUpdates.add.name', repairs),
+  ...(item.description !== undefined ? { description: clip(item.description, STORY_LIMITS.itemField, 'inventoryUpdates.add.description', repairs) } : {}),
+  ...(item.iconPrompt !== undefined ? { iconPrompt: clip(item.iconPrompt, STORY_LIMITS.itemField, 'inventoryUpdates.add.iconPrompt', repairs) } : {})
+});
+
+// Removals only need names; tolerate the model echoing whole item objects back
+const toRemovedNames = (value: unknown): string[] | null =>
+  toStringList(Array.isArray(value) ? value.map(v => (v && typeof v === 'object' ? v.name : v)) : value);
+
+/**
+ * Validates a parsed object against the StoryResponse contract, coercing
+ * what can be coerced (stringly booleans, unknown moods, duplicate choices).
+ */
+export const validateStoryResponse = (input: unknown, language?: Language): ValidationResult => {
+  const messages = getPrompts(language).schemaErrors;
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { value: null, errors: [messages.notObject], repairs };
+  }
+  const raw = input as Record<string, any>;
+
+  let narrative = raw.narrative;
+  if (typeof narrative === 'number') narrative = String(narrative);
+  if (typeof narrative !== 'string' || !narrative.trim()) {
+    errors.push(messages.narrative);
+  }
+
+  let isGameOver = toBoolean(raw.isGameOver);
+  if (isGameOver === null) {
+    repairs.push(`isGameOver 不是布尔值 (${JSON.stringify(raw.isGameOver)})，按 false 处理`);
+    isGameOver = false;
+  }
+
+  let flashReveal = toBoolean(raw.flashReveal);
+  if (flashReveal === null) {
+    repairs.push(`flashReveal 不是布尔值 (${JSON.stringify(raw.flashReveal)})，按 false 处理`);
+    flashReveal = false;
+  }
+
+  const choices = toStringList(raw.choices);
+  if (choices === null) {
+    errors.push(messages.choices);
+  } else {
+    if (Array.isArray(raw.choices) && choices.length !== raw.choices.length) {
+      repairs.push("choices 中的重复或空选项已移除");
+    }
+    if (choices.length === 0 && !isGameOver) {
+      errors.push(messages.noChoices);
+    }
+  }
+
+  let visualPrompt = raw.visualPrompt;
+  if (typeof visualPrompt !== 'string') {
+    if (visualPrompt !== undefined) repairs.push("visualPrompt 不是字符串，已忽略");
+    visualPrompt = "";
+  }
+
+  let mood: Mood = 'eerie';
+  const moodCandidate = typeof raw.mood === 'string' ? raw.mood.trim().toLowerCase() : '';
+  if ((MOODS as string[]).includes(moodCandidate)) {
+    mood = moodCandidate as Mood;
+  } else {
+    repairs.push(`未知 mood "${raw.mood}"，按 eerie 处理`);
+  }
+
+  let inventoryUpdates: StoryResponse['inventoryUpdates'];
+  if (raw.inventoryUpdates !== undefined && raw.inventoryUpdates !== null) {
+    const add = toItemUpdates(raw.inventoryUpdates.add);
+    const remove = toRemovedNames(raw.inventoryUpdates.remove);
+    if (typeof raw.inventoryUpdates !== 'object' || add === null || remove === null) {
+      errors.push(messages.inventoryUpdates);
+    } else {
+      inventoryUpdates = {
+        add: capList(add, STORY_LIMITS.items, 'inventoryUpdates.add', repairs).map(item => clipItem(item, repairs)),
+        remove: capList(remove, STORY_LIMITS.items, 'inventoryUpdates.remove', repairs)
+          .map(name => clip(name, STORY_LIMITS.itemField, 'inventoryUpdates.remove', repairs))
+      };
+    }
+  }
+
+  let statUpdates: StoryResponse['statUpdates'];
+  if (raw.statUpdates !== undefined && raw.statUpdates !== null) {
+    if (typeof raw.statUpdates !== 'object' || Array.isArray(raw.statUpdates)) {
+      repairs.push("statUpdates 不是对象，已忽略");
+    } else {
+      statUpdates = {};
+      (['sanity', 'vitality'] as const).forEach(stat => {
+        const value = raw.statUpdates[stat];
+        if (value === undefined || value === null) return;
+        const delta = Number(value);
+        if (Number.isFinite(delta)) statUpdates![stat] = Math.round(delta);
+        else repairs.push(`statUpdates.${stat} 不是数字 (${JSON.stringify(value)})，已忽略`);
+      });
+    }
+  }
+
+  if (errors.length > 0) return { value: null, errors, repairs };
+
+  return {
+    value: {
+      narrative: clip(narrative.trim(), STORY_LIMITS.narrative, 'narrative', repairs),
+      choices: capList(choices!, STORY_LIMITS.choices, 'choices', repairs)
+        .map(choice => clip(choice, STORY_LIMITS.choice, 'choices', repairs)),
+      visualPrompt: clip(visualPrompt, STORY_LIMITS.visualPrompt, 'visualPrompt', repairs),
+      isGameOver,
+      flashReveal,
+      inventoryUpdates,
+      statUpdates,
+      mood
+    },
+    errors,
+    repairs
+  };
+};
+
+/**
+ * Parses raw model text (possibly fenced or wrapped in chatter) and validates it.
+ * Errors come back in `language`, since they are shown to the model in the repair prompt.
+ */
+export const parseStoryResponse = (text: string, language?: Language): ValidationResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (e) {
+    return {
+      value: null,
+      errors: [getPrompts(language).schemaErrors.notJson((e as Error).message)],
+      repairs: []
+    };
+  }
+  return validateStoryResponse(parsed, language);
+};
@@ -0,0 +1,119 @@
+import { StoryTree, StoryNode, StoryResponse, ChatHistoryItem, PlayerStats, InventoryItem } from '../types';
+import { INITIAL_STATS } from './statRules';
+
+export const createStoryTree = (): StoryTree => ({ rootId: null, nodes: {} });
+
+const makeNodeId = () => `n_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const getChildren = (tree: StoryTree, nodeId: string): StoryNode[] =>
+  Object.values(tree.nodes)
+    .filter(n => n.parentId === nodeId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/**
+ * Records a turn under `parentId`. Taking a choice that was already explored
+ * refreshes that node instead of growing a duplicate branch.
+ */
+export const addStoryNode = (
+  tree: StoryTree,
+  parentId: string | null,
+  choice: string | null,
+  response: StoryResponse,
+  inventory: InventoryItem[],
+  stats: PlayerStats,
+  freeText: boolean = false
+): { tree: StoryTree; node: StoryNode } => {
+  const existing = parentId
+    ? getChildren(tree, parentId).find(n => n.choice === choice)
+    : null;
+
+  const node: StoryNode = {
+    id: existing?.id || makeNodeId(),
+    parentId,
+    choice,
+    ...(freeText ? { freeText: true } : {}),
+    response,
+    inventory,
+    stats,
+    imageKey: existing?.imageKey || null,
+    createdAt: existing?.createdAt || Date.now()
+  };
+
+  return {
+    // A new opening (no parent) starts a fresh tree
+    tree: parentId
+      ? { ...tree, nodes: { ...tree.nodes, [node.id]: node } }
+      : { rootId: node.id, nodes: { [node.id]: node } },
+    node
+  };
+};
+
+export const setNodeImageKey = (tree: StoryTree, nodeId: string, imageKey: string): StoryTree => {
+  const node = tree.nodes[nodeId];
+  if (!node || node.imageKey === imageKey) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, imageKey } } };
+};
+
+/** Nodes from the opening down to `nodeId`. */
+export const getPath = (tree: StoryTree, nodeId: string | null): StoryNode[] => {
+  const path: StoryNode[] = [];
+  let node = nodeId ? tree.nodes[nodeId] : undefined;
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+/**
+ * Rebuilds the chat history exactly as it was when `nodeId` was reached,
+ * so CacheService keys for its choices match the ones computed the first time.
+ */
+export const getHistoryForNode = (tree: StoryTree, nodeId: string): ChatHistoryItem[] => {
+  const history: ChatHistoryItem[] = [];
+  getPath(tree, nodeId).forEach(node => {
+    if (node.choice !== null) {
+      history.push(node.freeText ? { role: 'user', text: node.choice, freeText: true } : { role: 'user', text: node.choice });
+    }
+    history.push({ role: 'model', text: node.response.narrative });
+  });
+  return history;
+};
+
+/**
+ * Best-effort tree for runs recorded before the tree existed: a single
+ * branch rebuilt from the flat history. Earlier turns only keep their narrative.
+ */
+export const buildLinearTree = (
+  history: ChatHistoryItem[],
+  currentResponse: StoryResponse | null,
+  inventory: InventoryItem[],
+  stats: PlayerStats = INITIAL_STATS
+): { tree: StoryTree; currentNodeId: string | null } => {
+  let tree = createStoryTree();
+  let parentId: string | null = null;
+  let pendingChoice: string | null = null;
+
+  history.forEach((item, idx) => {
+    if (item.role === 'user') {
+      pendingChoice = item.text;
+      return;
+    }
+    const isLast = idx === history.length - 1;
+    const nextChoice = history[idx + 1]?.text;
+    const response: StoryResponse = isLast && currentResponse ? currentResponse : {
+      narrative: item.text,
+      choices: nextChoice ? [nextChoice] : [],
+      visualPrompt: "",
+      isGameOver: false,
+      flashReveal: false,
+      mood: 'eerie'
+    };
+    const added = addStoryNode(tree, parentId, parentId ? pendingChoice : null, response, inventory, stats);
+    tree = added.tree;
+    parentId = added.node.id;
+    pendingChoice = null;
+  });
+
+  return { tree, currentNodeId: parentId };
+};
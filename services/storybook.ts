@@ -0,0 +1,235 @@
+import { Language, Mood, StoryNode, Storybook, StorybookPage } from '../types';
+import { MOODS } from './storySchema';
+import { getStrings } from './i18n';
+import { blobToDataUrl, dataUrlToBlob } from './l1Store';
+import { createZip, readZip, ZipEntry } from './zip';
+
+// A finished run as an illustrated book: a single HTML file with the images inlined (readable
+// anywhere, offline), or a ZIP with Markdown and the image files. Both carry the book's data so
+// the game can open them again as a read-only replay.
+
+export const STORYBOOK_FORMAT = 'nether-chronicles-storybook';
+export const STORYBOOK_VERSION = 1;
+
+const DATA_ELEMENT_ID = 'nether-storybook';
+const ZIP_DATA_FILE = 'storybook.json';
+const ZIP_TEXT_FILE = 'story.md';
+
+// Object URLs and same-origin files become data: URLs. Remote images the browser won't let us
+// read (CORS) stay as links; object URLs that can't be read are dropped, they'd be dead in the file.
+async function inlineImage(url: string): Promise<string | null> {
+  if (url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (e) {
+    console.warn(`[Storybook] Could not inline image ${url.substring(0, 60)}`, e);
+    return url.startsWith('blob:') ? null : url;
+  }
+}
+
+/** Collects the pages along `path` (opening to ending); `loadImage` returns each scene's displayable URL. */
+export async function buildStorybook(
+  path: StoryNode[],
+  meta: { title: string; scenarioId: string; language: Language },
+  loadImage: (node: StoryNode) => Promise<string | null>
+): Promise<Storybook> {
+  const pages: StorybookPage[] = [];
+  for (const node of path) {
+    const url = await loadImage(node).catch(() => null);
+    pages.push({
+      choice: node.choice,
+      ...(node.freeText ? { freeText: true } : {}),
+      narrative: node.response.narrative,
+      mood: node.response.mood,
+      image: url ? await inlineImage(url) : null,
+      gained: node.response.inventoryUpdates?.add?.map(item => item.name) || [],
+      lost: node.response.inventoryUpdates?.remove || [],
+      isGameOver: node.response.isGameOver
+    });
+  }
+  return { format: STORYBOOK_FORMAT, version: STORYBOOK_VERSION, ...meta, exportedAt: Date.now(), pages };
+}
+
+export const storybookFileName = (book: Storybook, extension: string) =>
+  `${book.title.replace(/[\\/:*?"<>|\s]+/g, '_')}-${new Date(book.exportedAt).toISOString().slice(0, 10)}.${extension}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) => text.split(/\n+/).map(p => p.trim()).filter(Boolean);
+
+const formatDate = (book: Storybook) =>
+  new Date(book.exportedAt).toLocaleDateString(book.language === 'zh' ? 'zh-CN' : 'en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Same palette and typefaces as the game; fonts are not embedded, so the system's kaiti/songti stand in
+const HTML_STYLE = `
+  body { margin: 0; background: #050505; color: #a8a29e; font-family: 'Noto Serif SC', 'Songti SC', 'SimSun', serif; line-height: 1.9; }
+  header, main, footer { max-width: 44rem; margin: 0 auto; padding: 0 1.5rem; }
+  header { padding-top: 5rem; text-align: center; border-bottom: 1px solid rgba(127, 29, 29, 0.3); padding-bottom: 2rem; }
+  h1, h2, footer { font-family: 'Ma Shan Zheng', 'STXingkai', 'STKaiti', 'KaiTi', cursive; font-weight: normal; }
+  h1 { color: #7f1d1d; font-size: 4rem; margin: 0; text-shadow: 0 0 15px rgba(220, 20, 60, 0.6); }
+  h2 { color: #d6d3d1; font-size: 1.8rem; margin: 0.5rem 0; letter-spacing: 0.3em; }
+  .date { font-size: 0.8rem; color: #57534e; }
+  .page { padding: 3rem 0; border-bottom: 1px solid #1c1917; }
+  .choice { color: #b91c1c; letter-spacing: 0.1em; margin: 0 0 1.5rem; }
+  .page img { display: block; width: 100%; margin: 0 0 1.5rem; filter: grayscale(0.3) contrast(1.1); border: 1px solid rgba(127, 29, 29, 0.3); }
+  .narrative p { margin: 0 0 1rem; text-indent: 2em; color: #d6d3d1; }
+  .items { font-size: 0.85rem; color: #78716c; }
+  .mood-terrifying .narrative p { color: #fca5a5; }
+  .mood-sad .narrative p { color: #a8a29e; }
+  footer { text-align: center; color: #7f1d1d; font-size: 2rem; padding: 4rem 1.5rem 6rem; letter-spacing: 0.5em; }
+`;
+
+const itemsLine = (page: StorybookPage, t: ReturnType<typeof getStrings>) =>
+  [page.gained.length ? t.storybookGained(page.gained) : '', page.lost.length ? t.storybookLost(page.lost) : '']
+    .filter(Boolean).join(' · ');
+
+/** A self-contained page: inline CSS and images, the book's data (minus images) in a JSON script. */
+export function renderStorybookHtml(book: Storybook): string {
+  const t = getStrings(book.language);
+  const pages = book.pages.map((page, i) => {
+    const items = itemsLine(page, t);
+    return `<section class="page mood-${page.mood}">
+  <p class="choice">${escapeHtml(page.choice === null ? t.opening : t.quoteChoice(page.choice))}</p>
+  ${page.image ? `<img data-page="${i}" src="${escapeHtml(page.image)}" alt="">` : ''}
+  <div class="narrative">${paragraphs(page.narrative).map(p => `<p>${escapeHtml(p)}</p>`).join('')}</div>
+  ${items ? `<p class="items">${escapeHtml(items)}</p>` : ''}
+</section>`;
+  }).join('\n');
+
+  // Images are read back from the <img> tags, so they are not stored twice
+  const data = JSON.stringify({ ...book, pages: book.pages.map(page => ({ ...page, image: null })) }).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="${book.language === 'zh' ? 'zh-CN' : 'en'}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(`${t.gameTitle} · ${book.title}`)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(t.gameTitle)}</h1>
+  <h2>${escapeHtml(book.title)}</h2>
+  <p class="date">${escapeHtml(formatDate(book))}</p>
+</header>
+<main>
+${pages}
+</main>
+<footer>${escapeHtml(t.storybookEnd)}</footer>
+<script type="application/json" id="${DATA_ELEMENT_ID}">${data}</script>
+</body>
+</html>
+`;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' };
+
+/** story.md with the images beside it under images/, plus storybook.json for importing. */
+export async function renderStorybookZip(book: Storybook): Promise<Blob> {
+  const t = getStrings(book.language);
+  const encoder = new TextEncoder();
+  const files: ZipEntry[] = [];
+
+  const pages: StorybookPage[] = await Promise.all(book.pages.map(async (page, i) => {
+    const blob = page.image?.startsWith('data:') ? dataUrlToBlob(page.image) : null;
+    if (!blob) return page; // Remote images stay links
+    const name = `images/page-${String(i + 1).padStart(2, '0')}.${IMAGE_EXTENSIONS[blob.type] || 'png'}`;
+    files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+    return { ...page, image: name };
+  }));
+
+  const markdown = [`# ${t.gameTitle} · ${book.title}`, `*${formatDate(book)}*`];
+  pages.forEach(page => {
+    markdown.push('---', page.choice === null ? `**${t.opening}**` : `> ${t.quoteChoice(page.choice)}`);
+    if (page.image) markdown.push(`![](${encodeURI(page.image)})`);
+    markdown.push(...paragraphs(page.narrative));
+    const items = itemsLine(page, t);
+    if (items) markdown.push(`*${items}*`);
+  });
+  markdown.push('---', `**${t.storybookEnd}**`);
+
+  files.unshift(
+    { name: ZIP_TEXT_FILE, data: encoder.encode(markdown.join('\n\n') + '\n') },
+    { name: ZIP_DATA_FILE, data: encoder.encode(JSON.stringify({ ...book, pages }, null, 2)) }
+  );
+  return createZip(files, new Date(book.exportedAt));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Imported files are untrusted: every field the viewer and the re-exports read is checked, optional ones defaulted
+const validatePage = (page: unknown, index: number): StorybookPage => {
+  if (!isRecord(page)) throw new Error(`Storybook page ${index + 1} is not an object`);
+  const { choice, narrative, mood, image, gained, lost } = page;
+  if (choice !== null && typeof choice !== 'string') throw new Error(`Storybook page ${index + 1}: choice must be text or null`);
+  if (typeof narrative !== 'string') throw new Error(`Storybook page ${index + 1}: narrative must be text`);
+  if (!isStringList(gained) || !isStringList(lost)) throw new Error(`Storybook page ${index + 1}: gained and lost must be lists of item names`);
+  return {
+    choice: typeof choice === 'string' ? choice : null,
+    freeText: page.freeText === true,
+    narrative,
+    mood: MOODS.includes(mood as Mood) ? mood as Mood : 'eerie',
+    image: typeof image === 'string' && image ? image : null,
+    gained,
+    lost,
+    isGameOver: page.isGameOver === true
+  };
+};
+
+const validate = (book: unknown): Storybook => {
+  if (!isRecord(book) || book.format !== STORYBOOK_FORMAT || !Array.isArray(book.pages)) throw new Error("Not a storybook");
+  if (typeof book.version !== 'number') throw new Error("Storybook has no version");
+  if (book.version > STORYBOOK_VERSION) throw new Error(`Storybook made by a newer version (${book.version})`);
+  return {
+    format: STORYBOOK_FORMAT,
+    version: book.version,
+    title: typeof book.title === 'string' ? book.title : '',
+    scenarioId: typeof book.scenarioId === 'string' ? book.scenarioId : '',
+    language: book.language === 'en' ? 'en' : 'zh',
+    exportedAt: typeof book.exportedAt === 'number' && Number.isFinite(book.exportedAt) ? book.exportedAt : Date.now(),
+    pages: book.pages.map(validatePage)
+  };
+};
+
+async function parseZip(buffer: ArrayBuffer): Promise<Storybook> {
+  const entries = readZip(buffer);
+  const data = entries.find(entry => entry.name === ZIP_DATA_FILE);
+  if (!data) throw new Error(`${ZIP_DATA_FILE} missing from archive`);
+  const book = validate(JSON.parse(new TextDecoder().decode(data.data)));
+
+  const pages = await Promise.all(book.pages.map(async page => {
+    const file = page.image ? entries.find(entry => entry.name === page.image) : undefined;
+    if (!file) return page;
+    const extension = file.name.split('.').pop() || 'png';
+    const type = Object.keys(IMAGE_EXTENSIONS).find(mime => IMAGE_EXTENSIONS[mime] === extension) || 'image/png';
+    return { ...page, image: await blobToDataUrl(new Blob([file.data as BlobPart], { type })) };
+  }));
+  return { ...book, pages };
+}
+
+function parseHtml(text: string): Storybook {
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  const data = doc.getElementById(DATA_ELEMENT_ID)?.textContent;
+  if (!data) throw new Error("No storybook data in this page");
+  const book = validate(JSON.parse(data));
+  doc.querySelectorAll<HTMLImageElement>('img[data-page]').forEach(img => {
+    const page = book.pages[Number(img.dataset.page)];
+    if (page) page.image = img.getAttribute('src');
+  });
+  return book;
+}
+
+/** Opens an exported storybook: the HTML file, the ZIP, or a bare storybook.json. */
+export async function parseStorybook(file: File): Promise<Storybook> {
+  const buffer = await file.arrayBuffer();
+  const head = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  if (head[0] === 0x50 && head[1] === 0x4b) return parseZip(buffer); // "PK"
+
+  const text = new TextDecoder().decode(buffer);
+  return text.trimStart().startsWith('{') ? validate(JSON.parse(text)) : parseHtml(text);
+}
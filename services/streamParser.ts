@@ -0,0 +1,127 @@
+const ESCAPES: Record<string, string> = {
+  'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', '"': '"', '\\': '\\', '/': '/'
+};
+
+/**
+ * Incremental parser for a streamed StoryResponse.
+ * Feed it raw chunks as they arrive; it tracks the top-level string fields
+ * (so `narrative` can be shown while it is still being written) and reports
+ * when the outer object has closed. Anything before the first '{' (e.g. a
+ * stray markdown fence) is ignored.
+ */
+export class StreamingStoryParser {
+  private raw = '';
+  private started = false;
+  private complete = false;
+  private depth = 0;
+  private expectingKey = false;
+
+  // String token state
+  private inString = false;
+  private isKey = false;
+  private escape = false;
+  private unicode: string | null = null;
+  private token = '';
+  private lastKey: string | null = null;
+
+  private fields: Record<string, string> = {};
+
+  /** Consumes a chunk. Returns true if the narrative changed. */
+  push(chunk: string): boolean {
+    const before = this.fields.narrative;
+    this.raw += chunk;
+    for (const c of chunk) {
+      if (this.complete) break;
+      this.consume(c);
+    }
+    return this.fields.narrative !== before;
+  }
+
+  /** Narrative decoded so far (may be partial). */
+  get narrative(): string {
+    return this.fields.narrative || '';
+  }
+
+  get isComplete(): boolean {
+    return this.complete;
+  }
+
+  /** Everything received, for the regular parse once the stream ends. */
+  get text(): string {
+    return this.raw;
+  }
+
+  private consume(c: string) {
+    if (!this.started) {
+      if (c === '{') {
+        this.started = true;
+        this.depth = 1;
+        this.expectingKey = true;
+      }
+      return;
+    }
+
+    if (this.inString) {
+      this.consumeStringChar(c);
+      return;
+    }
+
+    switch (c) {
+      case '"':
+        this.inString = true;
+        this.isKey = this.depth === 1 && this.expectingKey;
+        this.token = '';
+        break;
+      case '{':
+      case '[':
+        this.depth++;
+        break;
+      case '}':
+      case ']':
+        this.depth--;
+        if (this.depth === 0) this.complete = true;
+        break;
+      case ':':
+        if (this.depth === 1) this.expectingKey = false;
+        break;
+      case ',':
+        if (this.depth === 1) this.expectingKey = true;
+        break;
+    }
+  }
+
+  private consumeStringChar(c: string) {
+    if (this.unicode !== null) {
+      this.unicode += c;
+      if (this.unicode.length === 4) {
+        this.append(String.fromCharCode(parseInt(this.unicode, 16) || 0xfffd));
+        this.unicode = null;
+      }
+      return;
+    }
+    if (this.escape) {
+      this.escape = false;
+      if (c === 'u') this.unicode = '';
+      else this.append(ESCAPES[c] ?? c);
+      return;
+    }
+    if (c === '\\') {
+      this.escape = true;
+      return;
+    }
+    if (c === '"') {
+      this.inString = false;
+      if (this.isKey) this.lastKey = this.token;
+      return;
+    }
+    this.append(c);
+  }
+
+  private append(text: string) {
+    this.token += text;
+    // Only top-level values are surfaced; keys and nested strings stay internal
+    if (!this.isKey && this.depth === 1 && this.lastKey) {
+      this.fields[this.lastKey] = this.token;
+    }
+  }
+}
@@ -0,0 +1,14 @@
+// Size limits of what goes into the cache, shared by services/storySchema.ts, which clips model
+// output to them, and server/validation.js, which refuses writes beyond them.
+
+export const STORY_LIMITS = {
+    narrative: 20000,
+    choices: 8,
+    choice: 300,
+    visualPrompt: 4000,
+    mood: 32,
+    items: 16,
+    itemField: 2000,
+    summary: 20000,
+    url: 2048
+};
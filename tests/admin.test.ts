@@ -0,0 +1,118 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AdminApi } from '../server/admin.js';
+import { CacheStore } from '../server/cacheStore.js';
+import { ImageStore } from '../server/imageStore.js';
+import { NamespaceCounters } from '../server/namespaces.js';
+
+const TOKEN = 'secret-token';
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+const HASH = 'a'.repeat(64);
+
+describe('AdminApi', () => {
+  let dir: string;
+  let servers: http.Server[] = [];
+  let caches: CacheStore[] = [];
+
+  // A server answering only the admin routes, over its own stores
+  const start = async (name: string, token = TOKEN) => {
+    const cache = new CacheStore({ dir: path.join(dir, name, 'cache'), maxBytes: 1024 * 1024 });
+    const images = new ImageStore({ dir: path.join(dir, name, 'images'), maxBytes: 1024 * 1024 });
+    await cache.open();
+    await images.open();
+    caches.push(cache);
+    const counters = new NamespaceCounters();
+    const admin = new AdminApi({ token, cache, images, counters });
+    const server = http.createServer(async (req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      if (!(await admin.handle(req, res, url))) res.writeHead(404).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    servers.push(server);
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/admin`;
+    const call = (route: string, init: RequestInit = {}) =>
+      fetch(`${base}${route}`, { ...init, headers: { Authorization: `Bearer ${TOKEN}`, ...init.headers } });
+    return { cache, images, counters, call, base };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    caches.forEach(cache => cache.closeSync());
+    servers = [];
+    caches = [];
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('needs the token, and is off without one', async () => {
+    const { base } = await start('a');
+    expect((await fetch(`${base}/stats`)).status).toBe(401);
+    expect((await fetch(`${base}/stats`, { headers: { Authorization: 'Bearer wrong-token!' } })).status).toBe(401);
+
+    const disabled = await start('b', '');
+    expect((await disabled.call('/stats')).status).toBe(503);
+  });
+
+  it('reports entries and hit ratios per namespace', async () => {
+    const { cache, counters, call } = await start('a');
+    await cache.set(`v3.any.p1/${HASH}`, { narrative: '一' });
+    await cache.set(`v3.any.p1/${'b'.repeat(64)}`, { narrative: '二' });
+    await cache.set(`img.any/${HASH}`, { url: 'https://example.com/a.png' });
+    counters.record(`v3.any.p1/${HASH}`, true);
+    counters.record(`v3.any.p1/${HASH}`, false);
+
+    const stats = await (await call('/stats')).json();
+    expect(stats.cache.entries).toBe(3);
+    expect(stats.namespaces[0]).toMatchObject({ namespace: 'v3.any.p1', entries: 2, hits: 1, misses: 1, hitRatio: 0.5 });
+    expect(stats.namespaces[1]).toMatchObject({ namespace: 'img.any', entries: 1, hitRatio: null });
+  });
+
+  it('lists and drops one namespace without touching the others', async () => {
+    const { cache, call } = await start('a');
+    await cache.set(`old/${HASH}`, { narrative: '旧' });
+    await cache.set(`new/${HASH}`, { narrative: '新' });
+
+    const listed = await (await call('/keys?ns=old')).json();
+    expect(listed.keys.map((k: { key: string }) => k.key)).toEqual([`old/${HASH}`]);
+
+    const purged = await (await call('/namespace?ns=old', { method: 'DELETE' })).json();
+    expect(purged.removed).toBe(1);
+    expect(cache.has(`old/${HASH}`)).toBe(false);
+    expect(cache.has(`new/${HASH}`)).toBe(true);
+  });
+
+  it('moves a cache, image bytes included, through a gzipped export and import', async () => {
+    const source = await start('source');
+    const stored = await source.images.put(PNG, 'image/png');
+    await source.cache.set(`img.any/${HASH}`, { image: stored.hash, type: stored.type });
+    await source.cache.set(`v3.any.p1/${HASH}`, { narrative: '门开了' });
+
+    const dump = Buffer.from(await (await source.call('/export?gzip=1')).arrayBuffer());
+    const target = await start('target');
+    const result = await (await target.call('/import', {
+      method: 'POST',
+      headers: { 'Content-Encoding': 'gzip' },
+      body: dump
+    })).json();
+
+    expect(result).toMatchObject({ imported: 2, skipped: 0 });
+    expect(await target.cache.get(`v3.any.p1/${HASH}`)).toEqual({ narrative: '门开了' });
+    const image = await target.cache.get(`img.any/${HASH}`);
+    expect((await target.images.read(image.image))?.buffer.equals(PNG)).toBe(true);
+  });
+
+  it('refuses an import that is not an export', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { call } = await start('a');
+    const response = await call('/import', { method: 'POST', body: '{"key":"x","value":1}\n' });
+    expect(response.status).toBe(500);
+  });
+});
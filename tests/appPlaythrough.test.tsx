@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from '../App';
+import { saveService } from '../services/saveService';
+import { getStrings } from '../services/i18n';
+
+// jsdom has no Web Audio; the ambience is not what's under test
+vi.mock('../services/audioService', () => ({
+  audioManager: { init: () => {}, setMood: () => {}, playHeartbeat: () => {}, playJumpscare: () => {} }
+}));
+
+const t = getStrings('zh');
+
+const choose = async (choice: string) => {
+  fireEvent.click(await screen.findByRole('button', { name: choice }));
+};
+
+describe('App', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('nether_chronicles_settings', JSON.stringify({
+      provider: 'offline',
+      useSharedCache: false,
+      prefetchMode: 'off',
+      language: 'zh'
+    }));
+    // jsdom never loads images, so save thumbnails would wait forever; fail them like a tainted canvas
+    vi.stubGlobal('Image', class {
+      onerror: (() => void) | null = null;
+      set src(_: string) {
+        setTimeout(() => this.onerror?.());
+      }
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('plays the offline script from the title screen to an ending and back', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: t.start }));
+
+    await choose('在门槛外烧一叠纸钱');
+    await choose('推门进去');
+    await choose('推开西厢房的门');
+    await screen.findByText('外婆的信');
+    await choose('读那封信');
+    await choose('回祠堂，在无字牌位上写下“阿沅”');
+
+    // The ending offers no choices, only a way back and the storybook
+    const restart = await screen.findByRole('button', { name: t.restart });
+    expect(screen.getByRole('button', { name: t.storybookExportHtml })).toBeTruthy();
+    expect(screen.queryByRole('button', { name: '读那封信' })).toBeNull();
+
+    // The finished run was autosaved, with every turn on the record
+    await vi.waitFor(() => expect(saveService.listSlots()[0]?.isGameOver).toBe(true));
+    expect(saveService.listSlots()[0].turnCount).toBe(6);
+
+    fireEvent.click(restart);
+    expect(await screen.findByRole('button', { name: t.start })).toBeTruthy();
+    expect(screen.queryByRole('button', { name: t.continue })).toBeNull(); // Nothing left to continue
+  });
+});
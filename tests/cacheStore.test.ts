@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheStore } from '../server/cacheStore.js';
+
+describe('CacheStore', () => {
+  let dir: string;
+  const stores: CacheStore[] = [];
+
+  const openStore = async (options: { maxBytes?: number; ttlMs?: number } = {}) => {
+    const store = new CacheStore({ dir, maxBytes: 1024 * 1024, ...options });
+    await store.open();
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-store-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.closeSync()); // Also clears the pending index flush
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('keeps entries across a restart', async () => {
+    const store = await openStore();
+    await store.set('ns/a', { narrative: '门开了' });
+    store.closeSync();
+
+    const reopened = await openStore();
+    expect(await reopened.get('ns/a')).toEqual({ narrative: '门开了' });
+    expect(reopened.totalBytes).toBe(store.totalBytes);
+  });
+
+  it('recovers entries written after the last index flush and drops half-written files', async () => {
+    const store = await openStore();
+    await store.flushIndex();
+    await store.set('ns/late', 1); // Index not flushed again before the "crash"
+    const shard = path.dirname(store.pathFor(store.entries()[0].file));
+    fs.writeFileSync(path.join(shard, 'partial.json.tmp'), '{"key":');
+
+    const reopened = await openStore();
+    expect(await reopened.get('ns/late')).toBe(1);
+    expect(fs.readdirSync(shard).some(file => file.endsWith('.tmp'))).toBe(false);
+  });
+
+  it('evicts the least recently used entries once over budget', async () => {
+    const store = await openStore({ maxBytes: 250 });
+    await store.set('a', 'x'.repeat(50));
+    await store.set('b', 'x'.repeat(50));
+    await store.get('a');
+    await store.set('c', 'x'.repeat(50));
+
+    expect(store.has('b')).toBe(false);
+    expect(store.has('a')).toBe(true);
+    expect(store.has('c')).toBe(true);
+    expect(store.totalBytes).toBeLessThanOrEqual(250);
+  });
+
+  it('expires entries after the TTL', async () => {
+    const store = await openStore({ ttlMs: 1000 });
+    await store.set('k', 'v');
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1001);
+
+    expect(await store.get('k')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('counts concurrent writes to one key once, keeping the last', async () => {
+    const store = await openStore();
+    await Promise.all(['first', 'second', 'third'].map(value => store.set('k', value)));
+
+    expect(await store.get('k')).toBe('third');
+    expect(store.size).toBe(1);
+    expect(store.totalBytes).toBe(store.entries()[0].bytes);
+  });
+
+  it('peeks without changing the LRU order', async () => {
+    const store = await openStore();
+    await store.set('a', 1);
+    await store.set('b', 2);
+    await store.peek('a');
+    expect(store.entries().map(entry => entry.key)).toEqual(['a', 'b']);
+    await store.get('a');
+    expect(store.entries().map(entry => entry.key)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContextManager, Summarizer, estimateTokens } from '../services/contextManager';
+import { CacheService } from '../services/cacheService';
+import { ChatHistoryItem } from '../types';
+
+// Opening plus `count - 1` choice/reply turns
+const history = (count: number): ChatHistoryItem[] => Array.from({ length: count }, (_, i) => [
+  ...(i > 0 ? [{ role: 'user' as const, text: `选择${i}` }] : []),
+  { role: 'model' as const, text: `第${i}回` }
+]).flat();
+
+// Only the summary half of CacheService, kept in memory
+const fakeCache = () => {
+  const summaries = new Map<string, string>();
+  const shared: string[] = [];
+  const cache = {
+    generateSummaryKey: async (folded: ChatHistoryItem[], language: string) => `${language}/${JSON.stringify(folded)}`,
+    getSummary: async (key: string) => summaries.get(key) ?? null,
+    setSummary: (key: string, summary: string, isShared = true) => {
+      summaries.set(key, summary);
+      if (isShared) shared.push(key);
+    }
+  };
+  return { cache: cache as unknown as CacheService, summaries, shared };
+};
+
+describe('ContextManager', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends short histories as they are', async () => {
+    const summarize = vi.fn<Summarizer>();
+    const manager = new ContextManager(fakeCache().cache, summarize);
+    expect(await manager.build(history(10), 'zh', 10_000, 2)).toEqual({ summary: null, recent: history(10) });
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('folds older turns chunk by chunk into a rolling summary', async () => {
+    const summarize = vi.fn<Summarizer>(async (previous, turns) => `${previous ?? ''}[${turns.filter(item => item.role === 'model').length}回]`);
+    const { cache, summaries } = fakeCache();
+    const window = await new ContextManager(cache, summarize).build(history(10), 'zh', 1, 2);
+
+    expect(window.summary).toBe('[4回][4回]');
+    expect(window.recent).toEqual(history(10).slice(-4));
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize.mock.calls[1][0]).toBe('[4回]');
+    expect(summaries.size).toBe(2);
+  });
+
+  it('reuses cached summaries and only folds the newest chunk', async () => {
+    const summarize = vi.fn<Summarizer>(async previous => `${previous ?? ''}+`);
+    const { cache } = fakeCache();
+    const manager = new ContextManager(cache, summarize);
+    await manager.build(history(6), 'zh', 1, 2);
+    expect(summarize).toHaveBeenCalledTimes(1);
+
+    expect((await manager.build(history(10), 'zh', 1, 2)).summary).toBe('++');
+    expect(summarize).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps summaries of typed actions out of the shared cache', async () => {
+    const { cache, summaries, shared } = fakeCache();
+    const typed = history(6).map(item => item.text === '选择1' ? { ...item, freeText: true } : item);
+    await new ContextManager(cache, async () => '摘要').build(typed, 'zh', 1, 2);
+    expect(summaries.size).toBe(1);
+    expect(shared).toHaveLength(0);
+  });
+
+  it('falls back to the full history when summarizing fails, unless prefetching', async () => {
+    const failure = new Error('upstream down');
+    const manager = new ContextManager(fakeCache().cache, async () => { throw failure; });
+    expect(await manager.build(history(10), 'zh', 1, 2)).toEqual({ summary: null, recent: history(10) });
+    await expect(manager.build(history(10), 'zh', 1, 2, { prefetch: true })).rejects.toBe(failure);
+  });
+
+  it('passes the caller\'s options to the summarizer', async () => {
+    const summarize = vi.fn<Summarizer>(async () => '摘要');
+    const options = { signal: new AbortController().signal, prefetch: true };
+    await new ContextManager(fakeCache().cache, summarize).build(history(10), 'en', 1, 2, options);
+    expect(summarize.mock.calls.every(call => call[2] === options)).toBe(true);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts CJK characters one each and other text by four characters', () => {
+    expect(estimateTokens('老宅')).toBe(2);
+    expect(estimateTokens('open the door')).toBe(4);
+    expect(estimateTokens('开door')).toBe(2);
+  });
+});
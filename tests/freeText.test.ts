@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_FREE_TEXT_LENGTH, isPersonalHistory, keyedHistory, normalizeFreeText } from '../services/freeText';
+
+describe('normalizeFreeText', () => {
+  it('maps equivalent phrasings to the same text', () => {
+    expect(normalizeFreeText(' 推开门。')).toBe('推开门');
+    expect(normalizeFreeText('推开门！！')).toBe('推开门');
+    expect(normalizeFreeText('Open  the\tDOOR...')).toBe('open the door');
+    expect(normalizeFreeText('ＡＢＣ，')).toBe('abc');
+  });
+
+  it('caps the length', () => {
+    expect(normalizeFreeText('鬼'.repeat(100))).toHaveLength(MAX_FREE_TEXT_LENGTH);
+  });
+});
+
+describe('keyedHistory', () => {
+  it('normalizes typed actions only', () => {
+    expect(keyedHistory([
+      { role: 'user', text: 'Open  the DOOR!', freeText: true },
+      { role: 'model', text: 'The DOOR opens.' },
+      { role: 'user', text: '推门。' }
+    ])).toEqual([
+      { role: 'user', text: 'open the door' },
+      { role: 'model', text: 'The DOOR opens.' },
+      { role: 'user', text: '推门。' }
+    ]);
+  });
+});
+
+describe('isPersonalHistory', () => {
+  it('is true once any typed action is in the history', () => {
+    expect(isPersonalHistory([{ role: 'user', text: '推门' }, { role: 'model', text: '…' }])).toBe(false);
+    expect(isPersonalHistory([{ role: 'user', text: '唱歌', freeText: true }, { role: 'model', text: '…' }])).toBe(true);
+  });
+});
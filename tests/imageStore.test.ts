@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageStore, sniffImageType } from '../server/imageStore.js';
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const png = (fill: number, size = 64) => Buffer.from([...PNG_HEADER, ...new Array(size - PNG_HEADER.length).fill(fill)]);
+
+describe('sniffImageType', () => {
+  it('goes by the bytes, not the name', () => {
+    expect(sniffImageType(png(0))).toBe('image/png');
+    expect(sniffImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(sniffImageType(Buffer.from('<svg onload="alert(1)">'))).toBeNull();
+  });
+});
+
+describe('ImageStore', () => {
+  let dir: string;
+
+  const openStore = async (maxBytes = 1024 * 1024) => {
+    const store = new ImageStore({ dir, maxBytes });
+    await store.open();
+    return store;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-store-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('stores by content hash under the sniffed type', async () => {
+    const store = await openStore();
+    const { hash, type } = await store.put(png(1), 'image/jpeg');
+
+    expect(type).toBe('image/png');
+    expect(store.get(hash)?.file.endsWith(`${hash}.png`)).toBe(true);
+    expect((await store.read(hash))?.buffer.equals(png(1))).toBe(true);
+  });
+
+  it('refuses bytes that are not an image', async () => {
+    const store = await openStore();
+    await expect(store.put(Buffer.from('<html>'), 'image/png')).rejects.toThrow('Not a supported image');
+    expect(store.totalBytes).toBe(0);
+  });
+
+  it('counts an image uploaded twice at once only once', async () => {
+    const store = await openStore();
+    const [a, b] = await Promise.all([store.put(png(2), 'image/png'), store.put(png(2), 'image/png')]);
+
+    expect(a.hash).toBe(b.hash);
+    expect(store.totalBytes).toBe(64);
+  });
+
+  it('finds its files again after a restart and clears leftovers', async () => {
+    const store = await openStore();
+    const { hash } = await store.put(png(3), 'image/png');
+    fs.writeFileSync(path.join(dir, hash.slice(0, 2), 'junk.tmp'), 'x');
+
+    const reopened = await openStore();
+    expect(reopened.has(hash)).toBe(true);
+    expect(reopened.totalBytes).toBe(64);
+    expect(fs.readdirSync(path.join(dir, hash.slice(0, 2)))).toEqual([`${hash}.png`]);
+  });
+
+  it('evicts the least recently used image once over budget', async () => {
+    const store = await openStore(150);
+    const first = await store.put(png(4), 'image/png');
+    const second = await store.put(png(5), 'image/png');
+    store.get(first.hash);
+    await store.put(png(6), 'image/png');
+
+    expect(store.has(first.hash)).toBe(true);
+    expect(store.has(second.hash)).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { applyInventoryUpdates, describeInventory, migrateInventory, toInventoryItem } from '../services/inventory';
+
+describe('applyInventoryUpdates', () => {
+  const carried = [toInventoryItem({ name: '铜钱', description: '旧铜钱' })];
+
+  it('adds items by normalized name and removes them the same way', () => {
+    const next = applyInventoryUpdates(carried, { add: [{ name: '  纸  灯笼 ', consumable: true }], remove: ['铜钱 '] });
+    expect(next).toEqual([{ id: '纸 灯笼', name: '纸 灯笼', description: '', consumable: true }]);
+  });
+
+  it('only fills in missing details when an item is added again', () => {
+    const bare = [toInventoryItem({ name: '红绳' })];
+    const next = applyInventoryUpdates([...carried, ...bare], {
+      add: [{ name: '铜钱', description: '新描述' }, { name: '红绳', description: '褪色的红绳', key: true }]
+    });
+    expect(next.find(item => item.name === '铜钱')?.description).toBe('旧铜钱');
+    expect(next.find(item => item.name === '红绳')).toMatchObject({ description: '褪色的红绳', key: true });
+    expect(next).toHaveLength(2);
+  });
+
+  it('leaves the inventory alone without updates', () => {
+    expect(applyInventoryUpdates(carried, undefined)).toEqual(carried);
+  });
+});
+
+describe('migrateInventory', () => {
+  it('turns plain names from old saves into items and drops junk', () => {
+    expect(migrateInventory(['铜钱', { name: '信', key: true }, 3, { name: '  ' }, null])).toEqual([
+      { id: '铜钱', name: '铜钱', description: '' },
+      { id: '信', name: '信', description: '', key: true }
+    ]);
+    expect(migrateInventory('铜钱')).toEqual([]);
+  });
+});
+
+describe('describeInventory', () => {
+  it('marks keys and consumables for the model', () => {
+    const text = describeInventory([toInventoryItem({ name: '信', key: true }), toInventoryItem({ name: '香', consumable: true })], 'zh');
+    expect(text).toContain('信[');
+    expect(text).toContain('香[');
+  });
+});
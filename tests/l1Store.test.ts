@@ -0,0 +1,88 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { L1Store, dataUrlToBlob } from '../services/l1Store';
+
+const PNG_DATA_URL = `data:image/png;base64,${Buffer.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]).toString('base64')}`;
+
+// What a version 1 database looked like, with one namespaced record and one left by the old migration
+const createVersion1 = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('nether_chronicles_l1', 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    (['text', 'image'] as const).forEach(name => db.createObjectStore(name, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess'));
+    const text = request.transaction!.objectStore('text');
+    text.put({ key: 'ns/live', value: { narrative: '新' }, bytes: 10, lastAccess: 1 });
+    text.put({ key: 'deadbeef', value: { narrative: '旧' }, bytes: 10, lastAccess: 1 });
+  };
+  request.onsuccess = () => {
+    request.result.close();
+    resolve();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+describe('L1Store', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory()); // A fresh, empty database per test
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps text entries across instances', async () => {
+    await new L1Store().putText('ns/a', { narrative: '门开了' });
+    expect(await new L1Store().getText('ns/a')).toEqual({ narrative: '门开了' });
+    expect(await new L1Store().getText('ns/missing')).toBeNull();
+  });
+
+  it('stores data URLs as Blobs and hands out one object URL per key', async () => {
+    const store = new L1Store();
+    const url = await store.putImage('img.any/a', PNG_DATA_URL);
+    expect(url).toMatch(/^blob:/);
+    expect(await store.putImage('img.any/a', PNG_DATA_URL)).toBe(url);
+    expect(await store.getImageUrl('img.any/a')).toBe(url);
+
+    const other = new L1Store(); // Another page load reads the Blob back
+    expect(await other.getImageUrl('img.any/a')).toMatch(/^blob:/);
+  });
+
+  it('keeps remote image URLs as they are', async () => {
+    const store = new L1Store();
+    expect(await store.putImage('img.any/b', 'https://example.com/b.png')).toBe('https://example.com/b.png');
+    expect(await store.getImageUrl('img.any/b')).toBe('https://example.com/b.png');
+  });
+
+  it('evicts the least recently used text once over its byte budget', async () => {
+    const store = new L1Store();
+    const megabyte = 'x'.repeat(1024 * 1024);
+    let now = 1;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+    for (let i = 0; i < 4; i++) await store.putText(`ns/${i}`, megabyte);
+    await store.getText('ns/0');
+    await store.putText('ns/4', megabyte);
+    await store.putText('ns/5', megabyte);
+
+    expect(await store.getText('ns/0')).not.toBeNull();
+    expect(await store.getText('ns/1')).toBeNull();
+    expect(await store.getText('ns/5')).not.toBeNull();
+  });
+
+  it('drops records from before cache namespaces when upgrading', async () => {
+    await createVersion1();
+    const store = new L1Store();
+    expect(await store.getText('ns/live')).toEqual({ narrative: '新' });
+    expect(await store.getText('deadbeef')).toBeNull();
+  });
+});
+
+describe('dataUrlToBlob', () => {
+  it('decodes base64 and plain data URLs, and leaves other URLs alone', async () => {
+    const png = dataUrlToBlob(PNG_DATA_URL)!;
+    expect(png.type).toBe('image/png');
+    expect(Array.from(new Uint8Array(await png.arrayBuffer()))).toEqual([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+    expect(await dataUrlToBlob('data:text/plain,%E9%AC%BC')!.text()).toBe('鬼');
+    expect(dataUrlToBlob('https://example.com/a.png')).toBeNull();
+  });
+});
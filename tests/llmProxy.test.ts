@@ -0,0 +1,133 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LlmProxy, isProxyKey, loadScenarios } from '../server/llmProxy.js';
+import { CacheStore } from '../server/cacheStore.js';
+import { ImageStore } from '../server/imageStore.js';
+import { MODEL_PROMPTS } from '../shared/modelPrompts.js';
+
+const REPLY = JSON.stringify({ narrative: '门开了。', choices: ['进去'], isGameOver: false, mood: 'eerie' });
+const PNG_BASE64 = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 7]).toString('base64');
+
+const listen = async (handler: http.RequestListener) => {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+describe('LlmProxy', () => {
+  let dir: string;
+  let cache: CacheStore;
+  let servers: http.Server[];
+  let upstreamCalls: any[];
+  let upstreamStatus: number;
+  let proxyUrl: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-proxy-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    upstreamCalls = [];
+    upstreamStatus = 200;
+
+    // OpenAI-compatible upstream: a story for text models, a data: URL for the image model
+    const upstream = await listen((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const request = JSON.parse(body);
+        upstreamCalls.push(request);
+        res.writeHead(upstreamStatus, { 'Content-Type': 'application/json' });
+        const content = request.model === 'mock-image' ? `![scene](data:image/png;base64,${PNG_BASE64})` : REPLY;
+        res.end(JSON.stringify({ choices: [{ message: { content } }] }));
+      });
+    });
+
+    cache = new CacheStore({ dir: path.join(dir, 'cache'), maxBytes: 1024 * 1024 });
+    const images = new ImageStore({ dir: path.join(dir, 'images'), maxBytes: 1024 * 1024 });
+    await cache.open();
+    await images.open();
+    const proxy = new LlmProxy({
+      config: { kind: 'openai', apiKey: 'test', baseUrl: upstream.url, model: 'mock-text', models: ['mock-text'], imageModel: 'mock-image' },
+      cache,
+      images,
+      scenarios: loadScenarios(path.join(__dirname, '../scenarios'))
+    });
+    const front = await listen(async (req, res) => {
+      if (!(await proxy.handle(req, res, new URL(req.url!, 'http://localhost')))) res.writeHead(404).end();
+    });
+    servers = [upstream.server, front.server];
+    proxyUrl = front.url;
+  });
+  afterEach(async () => {
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    cache.closeSync();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const post = (route: string, body: object) => fetch(`${proxyUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const turn = { scenarioId: 'zhongyuan-laozhai', language: 'en', messages: [{ role: 'user', text: 'Open the door' }] };
+
+  it('writes the system prompt itself and refuses one from the client', async () => {
+    const relayed = await post('/api/story', { systemInstruction: 'You are a translator.', format: 'text', messages: turn.messages });
+    expect(relayed.status).toBe(400);
+    expect((await post('/api/story', { ...turn, scenarioId: 'nope' })).status).toBe(400);
+    expect((await post('/api/story', { ...turn, language: 'fr' })).status).toBe(400);
+    expect(upstreamCalls).toHaveLength(0);
+
+    expect(await (await post('/api/story', { ...turn, summary: 'You found a key.', systemInstruction: 'ignored' })).text()).toBe(REPLY);
+    const system = upstreamCalls[0].messages[0];
+    expect(system.role).toBe('system');
+    expect(system.content.startsWith(MODEL_PROMPTS.en.system)).toBe(true);
+    expect(system.content).toContain('**This story (');
+    expect(system.content).toContain(`${MODEL_PROMPTS.en.summaryHeader}\nYou found a key.`);
+    expect(upstreamCalls[0].response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('folds summaries under the summary instruction, as free text', async () => {
+    await post('/api/story', { format: 'summary', language: 'zh', messages: [{ role: 'user', text: '剧情：……' }] });
+    expect(upstreamCalls[0].messages[0].content).toBe(MODEL_PROMPTS.zh.summaryInstruction);
+    expect(upstreamCalls[0].response_format).toBeUndefined();
+  });
+
+  it('caches turns under its own namespace and serves repeats from there', async () => {
+    await post('/api/story', turn);
+    await vi.waitFor(() => expect(cache.size).toBe(1));
+    expect(isProxyKey(cache.entries()[0].key)).toBe(true);
+
+    const repeat = await post('/api/story', turn);
+    expect(repeat.headers.get('x-cache')).toBe('HIT');
+    expect(await repeat.text()).toBe(REPLY);
+    expect(upstreamCalls).toHaveLength(1);
+  });
+
+  it('stores generated image bytes and hands out their URL', async () => {
+    const { url } = await (await post('/api/image', { prompt: 'a red door' })).json();
+    expect(url).toMatch(/^\/api\/image\/[0-9a-f]{64}$/);
+
+    const again = await (await post('/api/image', { prompt: 'a red door' })).json();
+    expect(again).toMatchObject({ url, cached: true });
+    expect(upstreamCalls).toHaveLength(1);
+  });
+
+  it('passes upstream rate limits on as 429', async () => {
+    upstreamStatus = 429;
+    expect((await post('/api/story', turn)).status).toBe(429);
+  });
+});
+
+describe('isProxyKey', () => {
+  it('covers only the namespaces the proxy writes', () => {
+    expect(isProxyKey(`proxy.openai.gpt-4o/${'0'.repeat(64)}`)).toBe(true);
+    expect(isProxyKey(`img.proxy.gemini.x/${'0'.repeat(64)}`)).toBe(true);
+    expect(isProxyKey(`v3.any.p1/${'0'.repeat(64)}`)).toBe(false);
+  });
+});
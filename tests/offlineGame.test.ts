@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { GameService } from '../services/gameService';
+import { getScenario, getStartingInventory, localizeScenario } from '../services/scenarioService';
+import { INITIAL_STATS, applyStatRules } from '../services/statRules';
+import { applyInventoryUpdates } from '../services/inventory';
+import { addStoryNode, createStoryTree, getPath } from '../services/storyTree';
+import { ChatHistoryItem, GameSettings, InventoryItem, Language, PlayerStats, StoryResponse, StoryTree } from '../types';
+
+const settings = (language: Language = 'zh'): GameSettings => ({
+  provider: 'offline',
+  model: '',
+  imageModel: '',
+  useSharedCache: false,
+  shareCacheAcrossModels: false,
+  contextTokenBudget: 6000,
+  contextRecentTurns: 6,
+  allowFreeText: false,
+  language,
+  prefetchMode: 'off',
+  recordSession: false
+});
+
+// The state App.tsx threads through startGame / handleChoice / handleGameResponse
+interface Run {
+  history: ChatHistoryItem[];
+  inventory: InventoryItem[];
+  stats: PlayerStats;
+  tree: StoryTree;
+  nodeId: string | null;
+  response: StoryResponse;
+}
+
+const newGame = (language: Language = 'zh') => {
+  const service = new GameService(settings(language));
+  const scenario = getScenario('zhongyuan-laozhai');
+  service.setScenario(scenario);
+  service.beginSession();
+
+  const take = (run: Omit<Run, 'response'>, choice: string | null, modelResponse: StoryResponse): Run => {
+    const { response, stats } = applyStatRules(modelResponse, run.stats, choice, language);
+    const inventory = applyInventoryUpdates(run.inventory, response.inventoryUpdates);
+    const { tree, node } = addStoryNode(run.tree, run.nodeId, choice, response, inventory, stats);
+    return { history: [...run.history, { role: 'model', text: response.narrative }], inventory, stats, tree, nodeId: node.id, response };
+  };
+
+  return {
+    service,
+    async start(): Promise<Run> {
+      const inventory = getStartingInventory(localizeScenario(scenario, language));
+      const chunks: string[] = [];
+      const response = await service.startNewGame(narrative => chunks.push(narrative));
+      expect(chunks.length).toBeGreaterThan(0);
+      return take({ history: [], inventory, stats: INITIAL_STATS, tree: createStoryTree(), nodeId: null }, null, response);
+    },
+    async choose(run: Run, choice: string): Promise<Run> {
+      expect(run.response.choices).toContain(choice);
+      const history: ChatHistoryItem[] = [...run.history, { role: 'user', text: choice }];
+      const response = await service.continueStory(history, choice, run.inventory, run.stats);
+      return take({ ...run, history }, choice, response);
+    }
+  };
+};
+
+describe('offline game', () => {
+  it('plays from the gate to the ending, carrying items and stats', async () => {
+    const game = newGame();
+    let run = await game.start();
+    expect(run.response.narrative).toContain('老宅');
+    expect(run.response.isGameOver).toBe(false);
+
+    run = await game.choose(run, '在门槛外烧一叠纸钱');
+    expect(run.inventory.map(item => item.name)).toContain('铜钱');
+
+    run = await game.choose(run, '推门进去');
+    run = await game.choose(run, '推开西厢房的门');
+    expect(run.inventory.find(item => item.name === '外婆的信')?.key).toBe(true);
+
+    run = await game.choose(run, '读那封信');
+    run = await game.choose(run, '回祠堂，在无字牌位上写下“阿沅”');
+    expect(run.response.isGameOver).toBe(true);
+    expect(run.response.choices).toEqual([]);
+    expect(run.inventory.map(item => item.name)).not.toContain('外婆的信');
+    expect(run.stats.sanity).toBe(100);
+    expect(getPath(run.tree, run.nodeId).map(node => node.choice)).toEqual([
+      null, '在门槛外烧一叠纸钱', '推门进去', '推开西厢房的门', '读那封信', '回祠堂，在无字牌位上写下“阿沅”'
+    ]);
+  });
+
+  it('ends the run when vitality runs out', async () => {
+    const game = newGame();
+    let run = await game.start();
+    run = await game.choose(run, '推门进去');
+    run = await game.choose(run, '探头看那口枯井');
+    expect(run.stats.sanity).toBe(90);
+    run = await game.choose(run, '应一声');
+    expect(run.response.isGameOver).toBe(true);
+    expect(run.stats.vitality).toBe(60); // A single turn can't take more than 40
+  });
+
+  it('answers the same way every time, in either language', async () => {
+    const first = await newGame('en').start();
+    const second = await newGame('en').start();
+    expect(first.response).toEqual(second.response);
+    expect(first.response.choices).toEqual(['Push the gate open', 'Burn a stack of spirit money at the threshold']);
+
+    const next = await newGame('en').choose(first, 'Push the gate open');
+    expect(next.response.choices.length).toBe(3);
+  });
+
+  it('keeps the scene for choices the script has no branch for', async () => {
+    const game = newGame();
+    const run = await game.start();
+    const history: ChatHistoryItem[] = [...run.history, { role: 'user', text: '大声喊外婆', freeText: true }];
+    const response = await game.service.continueStory(history, '大声喊外婆', run.inventory, run.stats);
+    expect(response.isGameOver).toBe(false);
+    expect(response.choices).toEqual(run.response.choices);
+  });
+});
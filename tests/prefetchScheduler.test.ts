@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrefetchBudgetExceeded, PrefetchKind, PrefetchScheduler, isMeteredConnection } from '../services/prefetchScheduler';
+
+// Tasks that only finish when the test says so
+const harness = (scheduler: PrefetchScheduler) => {
+  const started: string[] = [];
+  const signals = new Map<string, AbortSignal>();
+  const finish = new Map<string, () => void>();
+  const add = (branch: string, kind: PrefetchKind) => scheduler.schedule(branch, kind, signal => {
+    const name = `${branch}:${kind}`;
+    started.push(name);
+    signals.set(name, signal);
+    return new Promise<void>(resolve => finish.set(name, resolve));
+  });
+  const done = async (name: string) => {
+    finish.get(name)!();
+    await new Promise(resolve => setTimeout(resolve)); // Let the scheduler start the next task
+  };
+  return { started, signals, add, done };
+};
+
+describe('PrefetchScheduler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs a few tasks at a time', async () => {
+    const { started, add, done } = harness(new PrefetchScheduler(2, 10));
+    ['a', 'b', 'c'].forEach(branch => add(branch, 'text'));
+    expect(started).toEqual(['a:text', 'b:text']);
+    await done('a:text');
+    expect(started).toEqual(['a:text', 'b:text', 'c:text']);
+  });
+
+  it('starts text before images, and the hovered branch first', async () => {
+    const scheduler = new PrefetchScheduler(1, 10);
+    const { started, add, done } = harness(scheduler);
+    add('a', 'text'); // Takes the only slot
+    add('b', 'image');
+    add('c', 'text');
+    add('d', 'text');
+    add('d', 'image');
+    scheduler.prioritize('d');
+
+    await done('a:text');
+    await done('d:text');
+    await done('c:text');
+    await done('d:image');
+    expect(started).toEqual(['a:text', 'd:text', 'c:text', 'd:image', 'b:image']);
+  });
+
+  it('aborts and drops every branch but the one picked', async () => {
+    const scheduler = new PrefetchScheduler(2, 10);
+    const { started, signals, add, done } = harness(scheduler);
+    add('a', 'text');
+    add('b', 'text');
+    add('b', 'image');
+    add('c', 'text');
+
+    scheduler.cancel('b');
+    expect(signals.get('a:text')!.aborted).toBe(true);
+    expect(signals.get('b:text')!.aborted).toBe(false);
+
+    await done('a:text');
+    await done('b:text');
+    expect(started).toEqual(['a:text', 'b:text', 'b:image']);
+  });
+
+  it('keeps quiet about aborted and over-budget tasks, but reports failures', async () => {
+    const scheduler = new PrefetchScheduler(3, 10);
+    scheduler.schedule('a', 'text', async () => { throw new DOMException('Aborted', 'AbortError'); });
+    scheduler.schedule('b', 'text', async () => { throw new PrefetchBudgetExceeded(); });
+    scheduler.schedule('c', 'text', async () => { throw new Error('upstream down'); });
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalledTimes(1));
+    expect(console.log).toHaveBeenCalledTimes(1);
+  });
+
+  it('charges model calls against the budget until a reset', () => {
+    const scheduler = new PrefetchScheduler(2, 5);
+    expect(scheduler.charge(3)).toBe(true);
+    expect(scheduler.charge(3)).toBe(false);
+    expect(scheduler.charge(2)).toBe(true);
+    expect(scheduler.charge(1)).toBe(false);
+    scheduler.resetBudget();
+    expect(scheduler.charge(5)).toBe(true);
+  });
+});
+
+describe('isMeteredConnection', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads data saver and slow links from navigator.connection, where there is one', () => {
+    vi.stubGlobal('navigator', {});
+    expect(isMeteredConnection()).toBe(false);
+    vi.stubGlobal('navigator', { connection: { saveData: true } });
+    expect(isMeteredConnection()).toBe(true);
+    vi.stubGlobal('navigator', { connection: { effectiveType: 'slow-2g' } });
+    expect(isMeteredConnection()).toBe(true);
+    vi.stubGlobal('navigator', { connection: { type: 'wifi', effectiveType: '4g' } });
+    expect(isMeteredConnection()).toBe(false);
+  });
+});
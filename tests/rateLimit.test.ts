@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenBucketLimiter, clientIp } from '../server/rateLimit.js';
+
+describe('TokenBucketLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst up to capacity, then says when to come back', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 3, windowMs: 60_000 });
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterSec: 20 });
+    expect(limiter.take('b').allowed).toBe(true); // Per client
+  });
+
+  it('refills continuously over the window', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 2, windowMs: 10_000 });
+    limiter.take('a');
+    limiter.take('a');
+    vi.advanceTimersByTime(5_000);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('charges byte costs, and refuses a cost that can never fit', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 1000, windowMs: 60_000 });
+    expect(limiter.take('a', 600).allowed).toBe(true);
+    expect(limiter.take('a', 600).allowed).toBe(false);
+    expect(limiter.take('a', 1001)).toEqual({ allowed: false, retryAfterSec: null });
+  });
+
+  it('is off with a capacity of 0', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 0, windowMs: 60_000 });
+    expect(Array.from({ length: 100 }, () => limiter.take('a').allowed).every(Boolean)).toBe(true);
+  });
+
+  it('forgets clients whose bucket has refilled', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 2, windowMs: 1000 });
+    limiter.take('a');
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(limiter.buckets.size).toBe(0);
+  });
+});
+
+describe('clientIp', () => {
+  const request = (forwardedFor?: string) => ({
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+    socket: { remoteAddress: '10.0.0.1' }
+  });
+
+  it('only believes X-Forwarded-For behind a trusted proxy', () => {
+    expect(clientIp(request('1.2.3.4, 10.0.0.1'), false)).toBe('10.0.0.1');
+    expect(clientIp(request('1.2.3.4, 10.0.0.1'), true)).toBe('1.2.3.4');
+    expect(clientIp(request(), true)).toBe('10.0.0.1');
+  });
+});
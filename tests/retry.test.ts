@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withRetry } from '../services/providers/retry';
+import { AuthError, NetworkError, RateLimitError, TimeoutError } from '../services/providers/errors';
+
+// Fails with each of `errors` in turn, then succeeds
+const flaky = (errors: Error[]) => vi.fn(async (attempt: number) => {
+  if (attempt < errors.length) throw errors[attempt];
+  return 'ok';
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries retryable errors with exponential backoff', async () => {
+    const operation = flaky([new NetworkError('503'), new TimeoutError('slow'), new NetworkError('reset')]);
+    const delays: number[] = [];
+    const result = withRetry(operation, { retries: 3, onRetry: (_, delay) => delays.push(delay) });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(4);
+    expect(delays).toEqual([500, 1000, 2000]); // Half of 1s, 2s, 4s with no jitter
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const delays: number[] = [];
+    const result = withRetry(flaky([new RateLimitError('slow down', 5000)]), { retries: 1, onRetry: (_, delay) => delays.push(delay) });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(delays).toEqual([5000]);
+  });
+
+  it('gives up on a Retry-After too long to wait for', async () => {
+    const error = new RateLimitError('come back tomorrow', 60 * 60 * 1000);
+    await expect(withRetry(flaky([error]), { retries: 3 })).rejects.toBe(error);
+  });
+
+  it('does not retry errors waiting will not fix', async () => {
+    const operation = flaky([new AuthError('bad key')]);
+    await expect(withRetry(operation, { retries: 3 })).rejects.toBeInstanceOf(AuthError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the retry budget', async () => {
+    const operation = flaky([new NetworkError('a'), new NetworkError('b')]);
+    const result = withRetry(operation, { retries: 1 });
+    const settled = expect(result).rejects.toThrow('b');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts the wait between attempts', async () => {
+    const controller = new AbortController();
+    const result = withRetry(flaky([new NetworkError('a')]), { retries: 3, signal: controller.signal });
+    const settled = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await settled;
+  });
+});
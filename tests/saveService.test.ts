@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AUTOSAVE_SLOT_ID, MAX_SAVE_SLOTS, SAVE_VERSION, SaveService } from '../services/saveService';
+import { INITIAL_STATS } from '../services/statRules';
+import { DEFAULT_SCENARIO_ID } from '../services/scenarioService';
+import { getHistoryForNode } from '../services/storyTree';
+import { SaveSnapshot } from '../types';
+
+// localStorage as the browser has it, minus the quota
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+const snapshot = (overrides: Partial<SaveSnapshot> = {}): SaveSnapshot => ({
+  scenarioId: DEFAULT_SCENARIO_ID,
+  history: [{ role: 'model', text: '门开了。' }],
+  inventory: [],
+  stats: INITIAL_STATS,
+  isGameOver: false,
+  currentResponse: { narrative: '门开了。', choices: ['进去'], visualPrompt: '', isGameOver: false, flashReveal: false, mood: 'eerie' },
+  storyTree: { nodes: {}, rootId: null },
+  currentNodeId: null,
+  ...overrides
+});
+
+describe('SaveService', () => {
+  let service: SaveService;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    service = new SaveService();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('upgrades a version 1 save through every migration', () => {
+    const v1 = {
+      meta: { id: 'old', name: '旧档', savedAt: 1, turnCount: 1, excerpt: '', thumbnail: null, isGameOver: false },
+      snapshot: {
+        history: [
+          { role: 'model', text: '你站在老宅门前。' },
+          { role: 'user', text: '推门' },
+          { role: 'model', text: '门吱呀一声开了。' }
+        ],
+        inventory: ['铜钱'],
+        isGameOver: false,
+        currentResponse: { narrative: '门吱呀一声开了。', choices: ['进去', '退后'], flashReveal: true }
+      }
+    };
+    localStorage.setItem('nether_chronicles_save_old', JSON.stringify(v1));
+
+    const save = service.load('old')!;
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.snapshot.scenarioId).toBe(DEFAULT_SCENARIO_ID);
+    expect(save.snapshot.stats).toEqual(INITIAL_STATS);
+    expect(save.snapshot.inventory).toEqual([{ id: '铜钱', name: '铜钱', description: '' }]);
+    expect(save.snapshot.currentResponse).toMatchObject({ choices: ['进去', '退后'], flashReveal: false, mood: 'eerie' });
+
+    // The flat history became a tree whose path to the current node is that history
+    const { storyTree, currentNodeId } = save.snapshot;
+    expect(getHistoryForNode(storyTree, currentNodeId!)).toEqual(v1.snapshot.history);
+    Object.values(storyTree.nodes).forEach(node => {
+      expect(node.stats).toEqual(INITIAL_STATS);
+      expect(node.inventory).toEqual([{ id: '铜钱', name: '铜钱', description: '' }]);
+    });
+  });
+
+  it('refuses saves from a newer version, and garbage', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('nether_chronicles_save_new', JSON.stringify({ version: SAVE_VERSION + 1, meta: { id: 'new' }, snapshot: {} }));
+    localStorage.setItem('nether_chronicles_save_bad', '{not json');
+    expect(service.load('new')).toBeNull();
+    expect(service.load('bad')).toBeNull();
+    expect(service.load('missing')).toBeNull();
+  });
+
+  it('round-trips a save, leaving out generated images', async () => {
+    // Thumbnails need a decoded image; here every image fails to load
+    vi.stubGlobal('Image', class {
+      onerror: (() => void) | null = null;
+      set src(_: string) {
+        setTimeout(() => this.onerror?.());
+      }
+    });
+    expect(await service.save('slot', '第一夜', snapshot({ currentImage: 'data:image/png;base64,AAAA' }))).toBe(true);
+
+    const save = service.load('slot')!;
+    expect(save.snapshot.currentImage).toBeUndefined();
+    expect(save.meta).toMatchObject({ name: '第一夜', turnCount: 1, excerpt: '门开了。', thumbnail: null });
+  });
+
+  it('continues from the latest save that is not over', async () => {
+    let now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+    await service.save('a', 'A', snapshot());
+    await service.save('b', 'B', snapshot({ isGameOver: true }));
+    expect(service.listSlots().map(meta => meta.id)).toEqual(['b', 'a']);
+    expect(service.getLatestSlot()?.id).toBe('a');
+
+    service.remove('a');
+    expect(service.getLatestSlot()).toBeNull();
+  });
+
+  it('caps named slots but always allows the autosave', async () => {
+    let now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+    for (let i = 0; i < MAX_SAVE_SLOTS; i++) expect(await service.createSlot(`${i}`, snapshot())).not.toBeNull();
+    expect(await service.createSlot('one too many', snapshot())).toBeNull();
+    expect(await service.autosave(snapshot())).toBe(true);
+    expect(service.listSlots().some(meta => meta.id === AUTOSAVE_SLOT_ID)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATS, applyStatRules, applyStatUpdates } from '../services/statRules';
+import { getPrompts } from '../services/prompts';
+import { StoryResponse } from '../types';
+
+const scene = (overrides: Partial<StoryResponse> = {}): StoryResponse => ({
+  narrative: '烛火晃了一下。',
+  choices: ['吹灭', '护住'],
+  visualPrompt: '',
+  isGameOver: false,
+  flashReveal: false,
+  mood: 'tense',
+  ...overrides
+});
+
+describe('applyStatUpdates', () => {
+  it('clamps each turn to ±40 and the totals to 0..100', () => {
+    expect(applyStatUpdates(INITIAL_STATS, { sanity: -100, vitality: 30 })).toEqual({ sanity: 60, vitality: 100 });
+    expect(applyStatUpdates({ sanity: 10, vitality: 5 }, { sanity: -20, vitality: -20 })).toEqual({ sanity: 0, vitality: 0 });
+    expect(applyStatUpdates(INITIAL_STATS)).toEqual(INITIAL_STATS);
+  });
+});
+
+describe('applyStatRules', () => {
+  it('ends the run at zero vitality, adding the epitaph', () => {
+    const { response, stats } = applyStatRules(scene({ statUpdates: { vitality: -40 } }), { sanity: 50, vitality: 30 }, '吹灭', 'zh');
+    expect(stats.vitality).toBe(0);
+    expect(response.isGameOver).toBe(true);
+    expect(response.narrative).toContain(getPrompts('zh').epitaph);
+  });
+
+  it('keeps the model\'s own ending text when it already ended the run', () => {
+    const ending = scene({ isGameOver: true, choices: [], statUpdates: { vitality: -40 } });
+    expect(applyStatRules(ending, { sanity: 50, vitality: 10 }, '吹灭').response.narrative).toBe(ending.narrative);
+  });
+
+  it('forces the break scene at zero sanity, then lets sanity recover', () => {
+    const prompts = getPrompts('en');
+    const broken = applyStatRules(scene({ statUpdates: { sanity: -30 } }), { sanity: 20, vitality: 80 }, 'x', 'en');
+    expect(broken.response.choices).toEqual([prompts.sanityBreakChoice]);
+
+    const after = applyStatRules(scene(), broken.stats, prompts.sanityBreakChoice, 'en');
+    expect(after.stats.sanity).toBe(30);
+    expect(after.response.choices).toEqual(['吹灭', '护住']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createFallbackResponse, isFallbackResponse, parseStoryResponse, validateStoryResponse } from '../services/storySchema';
+import { STORY_LIMITS } from '../shared/storyLimits';
+import { cacheWriteError } from '../server/validation.js';
+
+describe('parseStoryResponse', () => {
+  it('pulls the object out of fences and chatter', () => {
+    const result = parseStoryResponse('好的：\n```json\n{"narrative": " 风停了 ", "choices": ["走"], "mood": "calm"}\n```');
+    expect(result.errors).toEqual([]);
+    expect(result.value).toMatchObject({ narrative: '风停了', choices: ['走'], mood: 'calm', isGameOver: false, flashReveal: false });
+  });
+
+  it('reports text that is not JSON at all', () => {
+    const result = parseStoryResponse('抱歉，我无法继续。');
+    expect(result.value).toBeNull();
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^输出不是合法的 JSON/);
+  });
+
+  it('reports errors in the language the repair prompt is written in', () => {
+    expect(parseStoryResponse('Sorry, I cannot.', 'en').errors[0]).toMatch(/^The output is not valid JSON/);
+    expect(parseStoryResponse('{"narrative": "", "choices": ["go"]}', 'en').errors).toEqual(['narrative must be a non-empty string']);
+  });
+});
+
+describe('validateStoryResponse', () => {
+  it('repairs what can be coerced and says so', () => {
+    const result = validateStoryResponse({
+      narrative: '门后有人',
+      choices: ['开门', '开门', '', 3],
+      isGameOver: 'false',
+      flashReveal: 1,
+      mood: 'SCARY',
+      visualPrompt: 42,
+      statUpdates: { sanity: '-10.4', vitality: 'lots' },
+      inventoryUpdates: { add: ['钥匙', { name: ' 红绳 ', key: 'true' }], remove: [{ name: '铜钱' }] }
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.value).toMatchObject({
+      choices: ['开门', '3'],
+      isGameOver: false,
+      flashReveal: true,
+      mood: 'eerie',
+      visualPrompt: '',
+      statUpdates: { sanity: -10 },
+      inventoryUpdates: { add: [{ name: '钥匙' }, { name: '红绳', key: true }], remove: ['铜钱'] }
+    });
+    expect(result.repairs.length).toBeGreaterThanOrEqual(4);
+  });
+
+  it('rejects what the model has to fix, collecting every problem', () => {
+    const result = validateStoryResponse({ narrative: '', choices: [], isGameOver: false, inventoryUpdates: { add: [7] } });
+    expect(result.value).toBeNull();
+    expect(result.errors).toHaveLength(3);
+  });
+
+  it('allows no choices once the run is over', () => {
+    expect(validateStoryResponse({ narrative: '完', choices: [], isGameOver: true }).value?.choices).toEqual([]);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateStoryResponse(['narrative']).value).toBeNull();
+  });
+
+  it('clips output to the limits the server accepts for the cache', () => {
+    const result = validateStoryResponse({
+      narrative: '鬼'.repeat(STORY_LIMITS.narrative + 1),
+      choices: Array.from({ length: 12 }, (_, i) => `${i}`.padEnd(STORY_LIMITS.choice + 5, '走')),
+      isGameOver: false,
+      mood: 'tense',
+      inventoryUpdates: { add: [{ name: '符'.repeat(STORY_LIMITS.itemField + 1) }] }
+    });
+    expect(result.value!.narrative).toHaveLength(STORY_LIMITS.narrative);
+    expect(result.value!.choices).toHaveLength(STORY_LIMITS.choices);
+    expect(result.value!.choices.every(choice => choice.length === STORY_LIMITS.choice)).toBe(true);
+    expect(cacheWriteError(`v3.any.p0/${'0'.repeat(64)}`, JSON.parse(JSON.stringify(result.value)))).toBeNull();
+  });
+});
+
+describe('fallbacks', () => {
+  it('are recognized, including those cached by older clients', () => {
+    expect(isFallbackResponse(createFallbackResponse('en'))).toBe(true);
+    expect(isFallbackResponse({ choices: ['重新凝视黑暗 (重试)'] })).toBe(true);
+    expect(isFallbackResponse({ choices: ['继续'] })).toBe(false);
+  });
+});
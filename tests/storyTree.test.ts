@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addStoryNode,
+  buildLinearTree,
+  createStoryTree,
+  getChildren,
+  getHistoryForNode,
+  getPath,
+  setNodeImageKey
+} from '../services/storyTree';
+import { INITIAL_STATS } from '../services/statRules';
+import { StoryResponse } from '../types';
+
+const response = (narrative: string, choices: string[] = []): StoryResponse => ({
+  narrative,
+  choices,
+  visualPrompt: '',
+  isGameOver: false,
+  flashReveal: false,
+  mood: 'eerie'
+});
+
+// opening → 进去 → 上楼, plus a branch opening → 退后
+const playedTree = () => {
+  let tree = createStoryTree();
+  const opening = addStoryNode(tree, null, null, response('你站在老宅门前。', ['进去', '退后']), [], INITIAL_STATS);
+  const inside = addStoryNode(opening.tree, opening.node.id, '进去', response('堂屋里很黑。', ['上楼']), [], INITIAL_STATS);
+  const upstairs = addStoryNode(inside.tree, inside.node.id, '在楼梯口喊一声', response('楼上有人应了。'), [], INITIAL_STATS, true);
+  const back = addStoryNode(upstairs.tree, opening.node.id, '退后', response('门自己关上了。'), [], INITIAL_STATS);
+  tree = back.tree;
+  return { tree, opening: opening.node, inside: inside.node, upstairs: upstairs.node, back: back.node };
+};
+
+describe('storyTree', () => {
+  it('rebuilds the history that led to any node, free text included', () => {
+    const { tree, upstairs, back } = playedTree();
+    expect(getHistoryForNode(tree, upstairs.id)).toEqual([
+      { role: 'model', text: '你站在老宅门前。' },
+      { role: 'user', text: '进去' },
+      { role: 'model', text: '堂屋里很黑。' },
+      { role: 'user', text: '在楼梯口喊一声', freeText: true },
+      { role: 'model', text: '楼上有人应了。' }
+    ]);
+    expect(getPath(tree, back.id).map(node => node.choice)).toEqual([null, '退后']);
+  });
+
+  it('refreshes an explored choice instead of branching again', () => {
+    const { tree, opening, inside } = playedTree();
+    const withImage = setNodeImageKey(tree, inside.id, 'img.any/abc');
+    const replayed = addStoryNode(withImage, opening.id, '进去', response('堂屋里点着灯。'), [], INITIAL_STATS);
+
+    expect(replayed.node.id).toBe(inside.id);
+    expect(replayed.node.imageKey).toBe('img.any/abc');
+    expect(replayed.node.response.narrative).toBe('堂屋里点着灯。');
+    expect(getChildren(replayed.tree, opening.id).map(node => node.choice)).toEqual(['进去', '退后']);
+  });
+
+  it('starts a fresh tree for a new opening', () => {
+    const { tree } = playedTree();
+    const restart = addStoryNode(tree, null, null, response('又是老宅门前。'), [], INITIAL_STATS);
+    expect(restart.tree.rootId).toBe(restart.node.id);
+    expect(Object.keys(restart.tree.nodes)).toEqual([restart.node.id]);
+  });
+
+  it('leaves the tree alone when an image key is unchanged or its node is gone', () => {
+    const { tree, inside } = playedTree();
+    const withImage = setNodeImageKey(tree, inside.id, 'img.any/abc');
+    expect(withImage).not.toBe(tree);
+    expect(tree.nodes[inside.id].imageKey).toBeNull();
+    expect(setNodeImageKey(withImage, inside.id, 'img.any/abc')).toBe(withImage);
+    expect(setNodeImageKey(withImage, 'missing', 'img.any/abc')).toBe(withImage);
+  });
+
+  it('turns a flat history into a single branch ending at the current response', () => {
+    const history = [
+      { role: 'model' as const, text: '你站在老宅门前。' },
+      { role: 'user' as const, text: '进去' },
+      { role: 'model' as const, text: '堂屋里很黑。' }
+    ];
+    const current = response('堂屋里很黑。', ['上楼', '点灯']);
+    const { tree, currentNodeId } = buildLinearTree(history, current, [], INITIAL_STATS);
+
+    const path = getPath(tree, currentNodeId);
+    expect(path.map(node => node.choice)).toEqual([null, '进去']);
+    expect(path[0].response.choices).toEqual(['进去']);
+    expect(path[1].response).toBe(current);
+    expect(getHistoryForNode(tree, currentNodeId!)).toEqual(history);
+    expect(buildLinearTree([], null, [])).toEqual({ tree: createStoryTree(), currentNodeId: null });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { StreamingStoryParser } from '../services/streamParser';
+
+const feed = (text: string, size: number) => {
+  const parser = new StreamingStoryParser();
+  const seen: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    if (parser.push(text.slice(i, i + size))) seen.push(parser.narrative);
+  }
+  return { parser, seen };
+};
+
+describe('StreamingStoryParser', () => {
+  const response = JSON.stringify({ narrative: '门开了。\n"谁？"— 你', choices: ['进去', '离开'], mood: 'eerie' });
+
+  it('shows the narrative as it arrives, whatever the chunk size', () => {
+    for (const size of [1, 3, 7, response.length]) {
+      const { parser, seen } = feed(response, size);
+      expect(parser.narrative).toBe('门开了。\n"谁？"— 你');
+      expect(parser.isComplete).toBe(true);
+      expect(seen[seen.length - 1]).toBe(parser.narrative);
+      seen.forEach(partial => expect(parser.narrative.startsWith(partial)).toBe(true));
+    }
+  });
+
+  it('decodes escapes split across chunks', () => {
+    const { parser } = feed('{"narrative": "a\\u4f60\\"b\\\\c"}', 1);
+    expect(parser.narrative).toBe('a你"b\\c');
+  });
+
+  it('skips chatter before the object and keeps the raw text', () => {
+    const text = '```json\n{"choices": ["x"], "narrative": "雾"}\n```';
+    const { parser } = feed(text, 5);
+    expect(parser.narrative).toBe('雾');
+    expect(parser.isComplete).toBe(true);
+    expect(parser.text).toBe(text);
+  });
+
+  it('ignores a "narrative" key nested deeper than the top level', () => {
+    const { parser } = feed('{"inventoryUpdates": {"narrative": "no"}, "narrative": "yes"', 4);
+    expect(parser.narrative).toBe('yes');
+    expect(parser.isComplete).toBe(false);
+  });
+});
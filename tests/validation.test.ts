@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { cacheWriteError, isValidKey } from '../server/validation.js';
+
+const HASH = 'c'.repeat(64);
+const story = (overrides: Record<string, unknown> = {}) => ({
+  narrative: '门开了。',
+  choices: ['进去', '退后'],
+  isGameOver: false,
+  mood: 'eerie',
+  ...overrides
+});
+
+describe('isValidKey', () => {
+  it('takes "<namespace>/<sha256>" and bare legacy hashes only', () => {
+    expect(isValidKey(`v3.gemini.gemini-2.5-flash.p1a2b3c4d/${HASH}`)).toBe(true);
+    expect(isValidKey(HASH)).toBe(true);
+    expect(isValidKey(`../etc/${HASH}`)).toBe(false);
+    expect(isValidKey(`ns/${HASH.slice(1)}`)).toBe(false);
+  });
+});
+
+describe('cacheWriteError', () => {
+  it('accepts what the client writes', () => {
+    expect(cacheWriteError(`v3.any.p1/${HASH}`, story({ inventoryUpdates: { add: [{ name: '钥匙', key: true }], remove: [] } }))).toBeNull();
+    expect(cacheWriteError(`v3.any.p1/${HASH}`, { summary: '你进了老宅。' })).toBeNull();
+    expect(cacheWriteError(`img.any/${HASH}`, { url: 'https://example.com/a.png' })).toBeNull();
+  });
+
+  it('refuses stories that could not have come from the client', () => {
+    expect(cacheWriteError(`ns/${HASH}`, story({ script: '<script>' }))).toBe('unknown story fields: script');
+    expect(cacheWriteError(`ns/${HASH}`, story({ narrative: ' ' }))).toBe('narrative must be a non-empty string');
+    expect(cacheWriteError(`ns/${HASH}`, story({ choices: Array(9).fill('走') }))).toBe('choices must be a short list of strings');
+    expect(cacheWriteError(`ns/${HASH}`, story({ isGameOver: 'no' }))).toBe('isGameOver must be a boolean');
+    expect(cacheWriteError(`ns/${HASH}`, story({ statUpdates: { sanity: 'a lot' } }))).toBe('statUpdates must map stats to numbers');
+  });
+
+  it('only takes remote http(s) links for image keys', () => {
+    expect(cacheWriteError(`img.any/${HASH}`, { url: 'javascript:alert(1)' })).toMatch(/^Image entries/);
+    expect(cacheWriteError(`img.any/${HASH}`, { url: 'https://example.com/a.png', extra: 1 })).toMatch(/^Image entries/);
+    expect(cacheWriteError(`img.any/${HASH}`, { data: 'data:image/png;base64,AAAA' })).toMatch(/^Image entries/);
+  });
+
+  it('refuses malformed keys and empty summaries', () => {
+    expect(cacheWriteError('not a key', story())).toBe('Invalid key');
+    expect(cacheWriteError(`ns/${HASH}`, { summary: '' })).toBe('Summary entries must be { summary: "..." }');
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from '../services/zip';
+
+describe('zip', () => {
+  it('reads back what it wrote, names and bytes intact', async () => {
+    const entries = [
+      { name: 'story.md', data: new TextEncoder().encode('# 幽冥录\n\n门开了。\n') },
+      { name: 'images/page-01.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255, 128]) },
+      { name: 'empty.txt', data: new Uint8Array(0) }
+    ];
+    const blob = createZip(entries, new Date(2024, 6, 15, 23, 59, 58));
+    const read = readZip(await blob.arrayBuffer());
+    expect(read.map(entry => entry.name)).toEqual(entries.map(entry => entry.name));
+    read.forEach((entry, i) => expect(Array.from(entry.data)).toEqual(Array.from(entries[i].data)));
+  });
+
+  it('rejects anything that is not an archive', () => {
+    expect(() => readZip(new TextEncoder().encode('not a zip at all, just some text').buffer)).toThrow('Not a ZIP archive');
+  });
+});
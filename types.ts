@@ -1,18 +1,24 @@
 
 export interface GameState {
+  scenarioId: string; // Pack being played, or picked on the title screen
   history: ChatHistoryItem[];
-  inventory: string[]; // 物品栏
+  inventory: InventoryItem[]; // 物品栏
+  stats: PlayerStats; // 理智 / 阳气, enforced client-side
   currentImage?: string; 
   imageLoading: boolean;
   isGameOver: boolean;
   gameStarted: boolean;
   loadingText: boolean;
   error?: string | null;
+  errorKind?: ProviderErrorKind | null; // Picks the action offered next to the error
+  storyTree: StoryTree; // Every turn played this run, for rewinding
+  currentNodeId: string | null;
 }
 
 export interface ChatHistoryItem {
   role: 'user' | 'model';
   text: string;
+  freeText?: boolean; // Typed by the player instead of picked from the choices
 }
 
 export interface StoryResponse {
@@ -22,23 +28,214 @@ export interface StoryResponse {
   isGameOver: boolean;
   flashReveal: boolean; 
   inventoryUpdates?: {
-    add?: string[];
-    remove?: string[];
+    add?: InventoryItemUpdate[];
+    remove?: string[]; // Item names
   };
-  mood: 'eerie' | 'tense' | 'sad' | 'calm' | 'terrifying';
+  statUpdates?: Partial<PlayerStats>; // Deltas, e.g. { sanity: -10 }
+  mood: Mood;
+  isFallback?: boolean; // Client-generated placeholder after the model failed; never cached
 }
 
-export type LLMProvider = 'gemini' | 'openai';
+export interface InventoryItem {
+  id: string;           // Normalized name, stable across turns and saves
+  name: string;
+  description: string;
+  iconPrompt?: string;  // Scene-style prompt for the examine panel's illustration
+  consumable?: boolean; // Used up when used
+  key?: boolean;        // Needed to get past some obstacle
+}
+
+// What the model sends: only the name is required
+export type InventoryItemUpdate = Pick<InventoryItem, 'name'> & Partial<Omit<InventoryItem, 'id' | 'name'>>;
+
+export type Mood = 'eerie' | 'tense' | 'sad' | 'calm' | 'terrifying';
+
+export interface PlayerStats {
+  sanity: number;   // 理智, 0-100
+  vitality: number; // 阳气, 0-100
+}
+
+// Built-in providers; anything registered in services/providers is accepted too
+export type LLMProvider = 'gemini' | 'openai' | 'ollama' | 'server' | 'offline' | 'replay' | (string & {});
 
 export type GeminiModel = 'gemini-2.5-flash' | 'gemini-2.5-flash-lite-latest' | 'gemini-3-pro-preview';
 export type OpenAIModel = 'gpt-4o' | 'gpt-4-turbo' | 'gpt-3.5-turbo';
 export type GameModel = GeminiModel | OpenAIModel | string;
 
+export type Language = 'zh' | 'en';
+
+export type PrefetchMode = 'auto' | 'always' | 'off';
+
+// Why a model call failed, as far as the player can do something about it
+export type ProviderErrorKind = 'auth' | 'rate-limit' | 'quota' | 'network' | 'timeout' | 'bad-output' | 'unknown';
+
 export interface GameSettings {
   provider: LLMProvider;
   model: GameModel;
   imageModel: string; // New field for image generation model
   apiKey?: string;
-  baseUrl?: string; // For OpenAI proxies
+  baseUrl?: string; // For OpenAI proxies or a local Ollama server
   useSharedCache: boolean; // Boolean toggle for server-side caching
-}
\ No newline at end of file
+  shareCacheAcrossModels: boolean; // Reuse cached turns and images generated by other providers/models
+  contextTokenBudget: number; // History above this (estimated) size gets folded into a summary
+  contextRecentTurns: number; // Turns always sent verbatim
+  allowFreeText: boolean; // Show the "你想做什么？" input under the choices
+  language: Language; // UI, prompts and the language the model writes in
+  prefetchMode: PrefetchMode; // Generate each choice's next turn in the background; 'auto' skips metered connections
+  recordSession: boolean; // Capture every provider call and its raw output for replay
+}
+
+// --- Scenarios ---
+
+// One JSON file in /scenarios
+export interface Scenario {
+  id: string;
+  title: string;
+  description: string;   // One line for the title-screen picker
+  cover: string;         // Background until the first scene image arrives
+  systemPrompt: string;  // Appended to the base system instruction
+  openingPrompt: string; // The player's first message
+  startingInventory: InventoryItemUpdate[];
+  aesthetic: string;     // Style prefix for every image prompt
+  // Per-language overrides of the text fields; the top-level fields are Chinese
+  i18n?: Partial<Record<Language, Partial<Pick<Scenario, 'title' | 'description' | 'systemPrompt' | 'openingPrompt' | 'startingInventory'>>>>;
+}
+
+// --- Story Tree ---
+
+export interface StoryNode {
+  id: string;
+  parentId: string | null;
+  choice: string | null;     // Choice that led here, null for the opening
+  freeText?: boolean;        // `choice` was typed rather than picked
+  response: StoryResponse;
+  inventory: InventoryItem[]; // Snapshot after this turn's inventoryUpdates
+  stats: PlayerStats;        // Snapshot after this turn's statUpdates and client rules
+  imageKey: string | null;   // CacheService image key of response.visualPrompt, once known
+  createdAt: number;
+}
+
+export interface StoryTree {
+  rootId: string | null;
+  nodes: Record<string, StoryNode>;
+}
+
+// --- Save Slots ---
+
+// The part of a run that survives a reload. Image data is never stored inline;
+// it is restored from the image cache via `currentResponse.visualPrompt`.
+export interface SaveSnapshot {
+  scenarioId: string;
+  history: ChatHistoryItem[];
+  inventory: InventoryItem[];
+  stats: PlayerStats;
+  currentImage?: string;
+  isGameOver: boolean;
+  currentResponse: StoryResponse | null;
+  storyTree: StoryTree;
+  currentNodeId: string | null;
+}
+
+export interface SaveSlotMeta {
+  id: string;
+  name: string;
+  savedAt: number;
+  turnCount: number;
+  excerpt: string;
+  thumbnail: string | null; // Small JPEG data URL
+  isGameOver: boolean;
+}
+
+export interface SaveGame {
+  version: number;
+  meta: SaveSlotMeta;
+  snapshot: SaveSnapshot;
+}
+
+// --- Session recordings (record / replay) ---
+
+export type SessionCallKind = 'story' | 'summary' | 'image';
+
+// What a provider call produced: the raw text exactly as returned, an image URL, or the error it threw
+export type SessionOutput =
+  | { raw: string }
+  | { url: string | null; omitted?: boolean } // omitted: a large inline image, replayed as "no image"
+  | { error: { kind: ProviderErrorKind; message: string } };
+
+export interface SessionEntry {
+  seq: number;
+  at: number;
+  kind: SessionCallKind;
+  fingerprint: string; // What replay looks the call up by
+  provider: LLMProvider;
+  model: string;
+  prefetch?: boolean;
+  // Story calls: the turn being asked for. Repair rounds repeat it with attempt 1, 2...
+  turn?: {
+    scenarioId: string;
+    history: ChatHistoryItem[];
+    choice: string;
+    inventory: InventoryItem[];
+    stats: PlayerStats;
+    attempt: number;
+  };
+  prompt?: string; // Image calls
+  output: SessionOutput;
+}
+
+export interface SessionFile {
+  format: 'nether-chronicles-session';
+  version: number;
+  recordedAt: number;
+  settings: Omit<GameSettings, 'apiKey'>;
+  scenarioId: string; // Pack of the first recorded turn
+  entries: SessionEntry[];
+}
+
+// --- Storybook (illustrated export of a finished run) ---
+
+export interface StorybookPage {
+  choice: string | null; // What the player did to get here, null for the opening
+  freeText?: boolean;
+  narrative: string;
+  mood: Mood;
+  image: string | null; // data: URL once exported (remote URL if it couldn't be inlined)
+  gained: string[]; // Item names from inventoryUpdates
+  lost: string[];
+  isGameOver: boolean;
+}
+
+export interface Storybook {
+  format: 'nether-chronicles-storybook';
+  version: number;
+  title: string;
+  scenarioId: string;
+  language: Language;
+  exportedAt: number;
+  pages: StorybookPage[];
+}
+
+// --- Séance (one host plays, the room votes) ---
+
+export type SeanceRole = 'host' | 'player' | 'spectator';
+
+export interface SeanceScene {
+  narrative: string;
+  choices: string[]; // Empty once the run is over
+  mood: Mood;
+  isGameOver: boolean;
+  image: string | null;
+}
+
+// What server.js sends each member on every change
+export interface SeanceState {
+  code: string;
+  turn: number;
+  scene: SeanceScene | null;
+  vote: { endsAt: number; tally: number[]; closed: boolean; winner: number | null } | null;
+  members: { name: string; role: SeanceRole; connected: boolean }[];
+  you: { role: SeanceRole; vote: number | null };
+  serverTime: number;
+}
+
+export type SeanceStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
@@ -4,15 +4,20 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Anything defined here ends up readable in the bundle. The key is only embedded when asked
+    // for (EMBED_API_KEY=true); otherwise use the "Server" provider and keep it in server.js's env.
+    const embeddedKey = env.EMBED_API_KEY === 'true' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Shared cache and server proxy live in server.js
+        proxy: { '/api': 'http://localhost:8000' }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(embeddedKey ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(embeddedKey ?? '')
       },
       resolve: {
         alias: {